@@ -0,0 +1,42 @@
+// POST /api/analyze/complexity — Multi-Scale complexity metrics for an uploaded image.
+
+import { analyzeComplexity, defaultComplexityOptions } from "../../../../lib/complexity/analyze";
+import { aestheticComplexityIndex } from "../../../../lib/complexity/score";
+import { toGrayU8 } from "../../../../lib/image/grayscale";
+import { THRESHOLD_MODES } from "../../../../lib/image/threshold";
+import type { ThresholdMode } from "../../../../lib/image/threshold";
+import { BadRequestError, errorResponse, heatPNGBase64, numberParam, readAnalyzeInput } from "../request";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  try {
+    const { rgba, width, height, form, heatmaps } = await readAnalyzeInput(req);
+    const opts = defaultComplexityOptions(width, height);
+    const mode = form.get("binarize") ?? opts.binarization.mode;
+    if (!THRESHOLD_MODES.includes(mode as ThresholdMode)) {
+      throw new BadRequestError(`Unknown binarize "${mode}" (expected ${THRESHOLD_MODES.join(", ")})`);
+    }
+    opts.binarization = {
+      mode: mode as ThresholdMode,
+      value: numberParam(form, "threshold"),
+      window: numberParam(form, "window") ?? opts.binarization.window,
+      k: numberParam(form, "k"),
+    };
+
+    const gray = toGrayU8(rgba);
+    const { metrics, atlas, binarization } = analyzeComplexity(rgba, gray, width, height, opts);
+
+    return Response.json({
+      width,
+      height,
+      metrics: { ...metrics, ACI: aestheticComplexityIndex(metrics) },
+      binarization,
+      ...(heatmaps && {
+        heatmaps: Object.fromEntries(atlas.tiles.map(t => [t.name, heatPNGBase64(t.heat, t.w, t.h)])),
+      }),
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,41 @@
+// POST /api/analyze/entropy — Entropy & Exhaustion metrics for an uploaded image.
+// Metrics are computed on the image as uploaded; the page's exhaustion transforms are not applied.
+
+import { DEFAULT_ENTROPY_OPTIONS, entropyMetrics, localEntropyMap } from "../../../../lib/complexity/entropy";
+import { toGrayU8 } from "../../../../lib/image/grayscale";
+import { gradientMagnitude, sobel } from "../../../../lib/image/filters";
+import { errorResponse, heatPNGBase64, numberParam, readAnalyzeInput } from "../request";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  try {
+    const { rgba, width, height, form, heatmaps } = await readAnalyzeInput(req);
+    const opts = {
+      ...DEFAULT_ENTROPY_OPTIONS,
+      bins: Math.round(clampParam(numberParam(form, "bins"), 2, 256) ?? DEFAULT_ENTROPY_OPTIONS.bins),
+      patch: Math.round(clampParam(numberParam(form, "patch"), 4, 128) ?? DEFAULT_ENTROPY_OPTIONS.patch),
+      stride: Math.round(clampParam(numberParam(form, "stride"), 1, 128) ?? DEFAULT_ENTROPY_OPTIONS.stride),
+      lzEstimator: form.get("lz") === "deflate" ? "deflate" as const : DEFAULT_ENTROPY_OPTIONS.lzEstimator,
+    };
+    const metrics = entropyMetrics(rgba, width, height, opts);
+
+    let maps;
+    if (heatmaps) {
+      const gray = toGrayU8(rgba);
+      const { gx, gy } = sobel(gray, width, height);
+      maps = {
+        localEntropy: heatPNGBase64(localEntropyMap(gray, width, height, opts), width, height),
+        gradient: heatPNGBase64(gradientMagnitude(gx, gy), width, height),
+      };
+    }
+
+    return Response.json({ width, height, metrics, ...(maps && { heatmaps: maps }) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+function clampParam(v: number | undefined, lo: number, hi: number) {
+  return v === undefined ? undefined : Math.min(hi, Math.max(lo, v));
+}
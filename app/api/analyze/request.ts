@@ -0,0 +1,67 @@
+// Shared multipart parsing for the /api/analyze/* route handlers.
+
+import { decodeImage, encodeHeatPNG, UnsupportedImageError } from "../../../lib/image/codec";
+import { fitContain } from "../../../lib/complexity/utils-client";
+import { resizeRGBA } from "../../../lib/image/pyramid";
+
+export type AnalyzeInput = {
+  rgba: Uint8ClampedArray;
+  width: number;
+  height: number;
+  form: FormData;
+  heatmaps: boolean;
+};
+
+export class BadRequestError extends Error {}
+
+const DEFAULT_SIZE = 640;
+const MAX_SIZE = 2048;
+
+/**
+ * Reads `image` (PNG/JPEG) from a multipart body and fits it into `size`×`size`
+ * (default 640) like the browser pages do, for the same pipeline and options. The
+ * bilinear resize is unfiltered (canvas filters), so downscaled inputs can differ slightly.
+ * `heatmaps=1|true` asks the route to include base64 PNG overlays.
+ */
+export async function readAnalyzeInput(req: Request): Promise<AnalyzeInput> {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    throw new BadRequestError("Expected a multipart/form-data body with an `image` field");
+  }
+  const file = form.get("image");
+  if (!(file instanceof Blob)) throw new BadRequestError("Missing `image` file field");
+
+  let src;
+  try {
+    src = decodeImage(new Uint8Array(await file.arrayBuffer()));
+  } catch (err) {
+    throw new BadRequestError(err instanceof UnsupportedImageError ? err.message : "Could not decode image");
+  }
+
+  const size = Math.min(MAX_SIZE, Math.max(16, numberParam(form, "size") ?? DEFAULT_SIZE));
+  const { width, height } = fitContain(src.width, src.height, size, size);
+  const rgba = resizeRGBA(src.data, src.width, src.height, width, height);
+  const flag = String(form.get("heatmaps") ?? "");
+  return { rgba, width, height, form, heatmaps: flag === "1" || flag === "true" };
+}
+
+/** A numeric form field; undefined when absent or empty, 400 when present but not a finite number. */
+export function numberParam(form: FormData, key: string): number | undefined {
+  const v = form.get(key);
+  if (v === null || (typeof v === "string" && v.trim() === "")) return undefined;
+  const n = typeof v === "string" ? Number(v) : NaN;
+  if (!Number.isFinite(n)) throw new BadRequestError(`\`${key}\` must be a number`);
+  return n;
+}
+
+export function heatPNGBase64(heat: ArrayLike<number>, width: number, height: number) {
+  return encodeHeatPNG(heat, width, height).toString("base64");
+}
+
+export function errorResponse(err: unknown) {
+  if (err instanceof BadRequestError) return Response.json({ error: err.message }, { status: 400 });
+  console.error(err);
+  return Response.json({ error: "Analysis failed" }, { status: 500 });
+}
@@ -3,210 +3,144 @@
 
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
-import { ImagePlus, Download } from "lucide-react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ImagePlus, Download, X } from "lucide-react";
 import { ToolHeader } from "../../components/ToolHeader";
 import { usePageState } from "../../lib/usePageState";
 import { Cropper } from "../../components/CropperWithMenu";
 import { ClipboardViewer, ClipboardButton, saveToClipboard } from "../../components/ClipboardViewer";
+import { normalize01, normalizeSymmetric } from "../../lib/image/filters";
+import { blueRed, colorize, turbo } from "../../lib/image/colormaps";
+import type { FloatField } from "../../lib/image/types";
+import { simulateScanpath } from "../../lib/charge/scanpath";
+import type { Fixation } from "../../lib/charge/scanpath";
+import type { ChargeView } from "../../lib/charge/pipeline";
+import { CHARGE_TERMS, DEFAULT_CHARGE_PARAMS, DEFAULT_TERM_SETTINGS, termSetting } from "../../lib/charge/terms";
+import type { ChargeTermId, TermSetting } from "../../lib/charge/terms";
+import type { ChargeWorkerRequest, ChargeWorkerResponse } from "../../lib/charge/protocol";
 
 // ========== Utilities ==========
 
-function clamp01(x: number) { return x < 0 ? 0 : x > 1 ? 1 : x; }
-
-function normalize01(arr: Float32Array): Float32Array {
-  let lo = Infinity, hi = -Infinity;
-  for (let i = 0; i < arr.length; i++) { 
-    const v = arr[i]; 
-    if (v < lo) lo = v; 
-    if (v > hi) hi = v; 
-  }
-  const d = hi - lo || 1e-6;
-  const out = new Float32Array(arr.length);
-  for (let i = 0; i < arr.length; i++) out[i] = (arr[i] - lo) / d;
-  return out;
-}
-
-function rgbToLuma(data: Uint8ClampedArray): Float32Array {
-  const n = (data.length / 4) | 0;
-  const out = new Float32Array(n);
-  for (let i = 0, j = 0; i < n; i++, j += 4) {
-    const r = data[j] / 255, g = data[j + 1] / 255, b = data[j + 2] / 255;
-    out[i] = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-  }
-  return out;
-}
-
-function blur3x3(src: Float32Array, W: number, H: number): Float32Array {
-  const tmp = new Float32Array(W * H);
-  const out = new Float32Array(W * H);
-
-  // Horizontal
-  for (let y = 0; y < H; y++) {
-    const row = y * W;
-    for (let x = 0; x < W; x++) {
-      const a = src[row + Math.max(0, x - 1)];
-      const b = src[row + x] * 2.0;
-      const c = src[row + Math.min(W - 1, x + 1)];
-      tmp[row + x] = (a + b + c) * 0.25;
-    }
-  }
-  // Vertical
-  for (let y = 0; y < H; y++) {
-    for (let x = 0; x < W; x++) {
-      const i0 = Math.max(0, y - 1) * W + x;
-      const i1 = y * W + x;
-      const i2 = Math.min(H - 1, y + 1) * W + x;
-      const a = tmp[i0];
-      const b = tmp[i1] * 2.0;
-      const c = tmp[i2];
-      out[i1] = (a + b + c) * 0.25;
-    }
-  }
-  return out;
-}
-
-function blur3x3Iter(src: Float32Array, W: number, H: number, iters: number): Float32Array {
-  let cur = src;
-  for (let i = 0; i < iters; i++) cur = blur3x3(cur, W, H);
-  return cur === src ? src.slice() : cur;
-}
-
-function downsampleBilinear(src: Float32Array, W: number, H: number, W2: number, H2: number): Float32Array {
-  const out = new Float32Array(W2 * H2);
-  const xScale = (W - 1) / Math.max(1, (W2 - 1));
-  const yScale = (H - 1) / Math.max(1, (H2 - 1));
-  let idx = 0;
-  for (let y2 = 0; y2 < H2; y2++) {
-    const y = y2 * yScale;
-    const y0 = Math.floor(y), y1 = Math.min(H - 1, y0 + 1);
-    const wy = y - y0;
-    for (let x2 = 0; x2 < W2; x2++, idx++) {
-      const x = x2 * xScale;
-      const x0 = Math.floor(x), x1 = Math.min(W - 1, x0 + 1);
-      const wx = x - x0;
-      const i00 = y0 * W + x0, i01 = y0 * W + x1, i10 = y1 * W + x0, i11 = y1 * W + x1;
-      const v = (1 - wy) * ((1 - wx) * src[i00] + wx * src[i01]) + wy * ((1 - wx) * src[i10] + wx * src[i11]);
-      out[idx] = v;
+type ChargeStats = { max: number; mean: number; cx: number; cy: number };
+
+/** Peak, mean and charge-weighted centroid (in pixels) of a field. */
+function chargeStats(buf: Float32Array, W: number, H: number): ChargeStats {
+  let max = 0, sum = 0, sx = 0, sy = 0;
+  for (let y = 0, i = 0; y < H; y++) {
+    for (let x = 0; x < W; x++, i++) {
+      const v = buf[i];
+      if (v > max) max = v;
+      sum += v;
+      sx += v * x;
+      sy += v * y;
     }
   }
-  return out;
+  return {
+    max,
+    mean: sum / buf.length,
+    cx: sum > 0 ? sx / sum : (W - 1) / 2,
+    cy: sum > 0 ? sy / sum : (H - 1) / 2,
+  };
 }
 
-function upsampleBilinear(src: Float32Array, W: number, H: number, W2: number, H2: number): Float32Array {
-  return downsampleBilinear(src, W, H, W2, H2);
-}
+// ========== Rendering ==========
 
-function axpy(dst: Float32Array, src: Float32Array, a: number = 1) {
-  for (let i = 0; i < dst.length; i++) dst[i] += a * src[i];
+function paintHeatmapToImageData(buf01: Float32Array, W: number, H: number): ImageData {
+  return new ImageData(colorize(buf01, turbo), W, H);
 }
 
-// ========== Multi-scale Components ==========
+// ========== Scanpath Drawing ==========
 
-function buildPyramid(L: Float32Array, W: number, H: number, levels: number) {
-  const pyr: { data: Float32Array; W: number; H: number }[] = [{ data: L, W, H }];
-  for (let k = 1; k < levels; k++) {
-    const { data, W: w, H: h } = pyr[k - 1];
-    const w2 = Math.max(1, (w / 2) | 0), h2 = Math.max(1, (h / 2) | 0);
-    const d2 = downsampleBilinear(data, w, h, w2, h2);
-    pyr.push({ data: d2, W: w2, H: h2 });
-  }
-  return pyr;
+/** Dwell circle radius in pixels for a fixation, scaled with the canvas. */
+function dwellRadius(f: Fixation, W: number, H: number) {
+  return (Math.hypot(W, H) / 120) * (1 + f.dwellMs / 150);
 }
 
-function localBandpass3x3(img: Float32Array, W: number, H: number): Float32Array {
-  const blur = blur3x3(img, W, H);
-  const out = new Float32Array(W * H);
-  for (let i = 0; i < out.length; i++) out[i] = Math.abs(img[i] - blur[i]);
-  return normalize01(out);
-}
-
-function multiScaleContrast(L: Float32Array, W: number, H: number, levels: number, alphas: number[]): Float32Array {
-  const pyr = buildPyramid(L, W, H, levels);
-  let acc = new Float32Array(W * H);
-  for (let k = 0; k < pyr.length; k++) {
-    const { data, W: w, H: h } = pyr[k];
-    const band = localBandpass3x3(data, w, h);
-    const up = upsampleBilinear(band, w, h, W, H);
-    axpy(acc, up, alphas[k] || 1.0);
+/** Numbered fixations with dwell circles, joined by saccade arrows that stop at the circles' rims. */
+function drawScanpath(ctx: CanvasRenderingContext2D, fixations: Fixation[], W: number, H: number) {
+  const unit = Math.hypot(W, H) / 600;
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  for (let k = 1; k < fixations.length; k++) {
+    const a = fixations[k - 1], b = fixations[k];
+    const ra = dwellRadius(a, W, H), rb = dwellRadius(b, W, H);
+    const d = Math.hypot(b.x - a.x, b.y - a.y);
+    if (d <= ra + rb) continue;
+    const ux = (b.x - a.x) / d, uy = (b.y - a.y) / d;
+    const x0 = a.x + ux * ra, y0 = a.y + uy * ra, x1 = b.x - ux * rb, y1 = b.y - uy * rb;
+    const head = 7 * unit;
+    for (const [color, width] of [["rgba(0,0,0,0.7)", 4 * unit], ["#ffffff", 2 * unit]] as const) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      ctx.moveTo(x0, y0); ctx.lineTo(x1, y1);
+      ctx.moveTo(x1, y1); ctx.lineTo(x1 - head * (ux - 0.5 * uy), y1 - head * (uy + 0.5 * ux));
+      ctx.moveTo(x1, y1); ctx.lineTo(x1 - head * (ux + 0.5 * uy), y1 - head * (uy - 0.5 * ux));
+      ctx.stroke();
+    }
   }
-  return normalize01(acc);
-}
-
-function globalLuminancePull(L: Float32Array): Float32Array {
-  const sorted = Array.from(L).sort((a, b) => a - b);
-  const med = sorted[(sorted.length / 2) | 0];
-  const out = new Float32Array(L.length);
-  for (let i = 0; i < out.length; i++) out[i] = Math.abs(L[i] - med);
-  return normalize01(out);
-}
 
-function lowFreqSalience(L: Float32Array, W: number, H: number): Float32Array {
-  const w2 = Math.max(1, (W / 16) | 0), h2 = Math.max(1, (H / 16) | 0);
-  const small = downsampleBilinear(L, W, H, w2, h2);
-  const b1 = blur3x3Iter(small, w2, h2, 1);
-  const b2 = blur3x3Iter(small, w2, h2, 3);
-  const dog = new Float32Array(w2 * h2);
-  for (let i = 0; i < dog.length; i++) dog[i] = Math.abs(b1[i] - b2[i]);
-  const up = upsampleBilinear(normalize01(dog), w2, h2, W, H);
-  return normalize01(up);
-}
-
-function aestheticCharge(L: Float32Array, W: number, H: number, params: any): Float32Array {
-  const { levels = 4, alpha = [0.6, 0.9, 1.2, 1.4], beta = 0.6, gamma = 0.5, squash = 1.2 } = params || {};
-  const ms = multiScaleContrast(L, W, H, levels, alpha);
-  const gl = globalLuminancePull(L);
-  const lf = lowFreqSalience(L, W, H);
-  const out = new Float32Array(L.length);
-  for (let i = 0; i < out.length; i++) {
-    const v = ms[i] + beta * gl[i] + gamma * lf[i];
-    out[i] = Math.tanh(squash * v);
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.font = `600 ${Math.round(11 * unit)}px ui-sans-serif, system-ui, sans-serif`;
+  for (const f of fixations) {
+    const r = dwellRadius(f, W, H);
+    ctx.fillStyle = "rgba(255,255,255,0.18)";
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 1.5 * unit;
+    ctx.beginPath();
+    ctx.arc(f.x, f.y, r, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = "rgba(0,0,0,0.8)";
+    ctx.beginPath();
+    ctx.arc(f.x, f.y, 8 * unit, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(String(f.index), f.x, f.y + 0.5);
   }
-  return normalize01(out);
+  ctx.restore();
 }
 
-function guidedSmooth(signal: Float32Array, guide: Float32Array, W: number, H: number, strength: number, iters: number): Float32Array {
-  let cur = signal;
-  for (let t = 0; t < iters; t++) {
-    const blur = blur3x3(cur, W, H);
-    const out = new Float32Array(cur.length);
-    const gx = new Float32Array(cur.length), gy = new Float32Array(cur.length);
-    for (let y = 1; y < H - 1; y++) {
-      for (let x = 1; x < W - 1; x++) {
-        const i = y * W + x;
-        gx[i] = (guide[i + 1] - guide[i - 1]) * 0.5;
-        gy[i] = (guide[i + W] - guide[i - W]) * 0.5;
-      }
-    }
-    for (let i = 0; i < out.length; i++) {
-      const grad = Math.min(1, Math.hypot(gx[i], gy[i]) * 4.0);
-      const k = strength * (1.0 - grad);
-      out[i] = cur[i] * (1 - k) + blur[i] * k;
-    }
-    cur = out;
+// ========== A/B Comparison Drawing ==========
+
+/** Centroid marker: ring for A, filled dot for B. */
+function drawCentroid(ctx: CanvasRenderingContext2D, x: number, y: number, filled: boolean, unit: number) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x, y, 6 * unit, 0, Math.PI * 2);
+  ctx.lineWidth = 4 * unit;
+  ctx.strokeStyle = "rgba(0,0,0,0.7)";
+  ctx.stroke();
+  ctx.lineWidth = 2 * unit;
+  ctx.strokeStyle = "#ffffff";
+  ctx.stroke();
+  if (filled) {
+    ctx.fillStyle = "#ffffff";
+    ctx.fill();
   }
-  return cur;
-}
-
-// Turbo colormap
-function turboColor(v: number): [number, number, number] {
-  const x = clamp01(v);
-  const r = 34.61 + x * (1172.33 - x * (10793.6 - x * (33300.1 - x * (38394.5 - x * 14825.0))));
-  const g = 23.31 + x * (557.33 - x * (1225.0 - x * (3574.3 - x * (1073.77 + x * 707.56))));
-  const b = 27.2 + x * (3211.1 - x * (15327.97 - x * (27814.0 - x * (22569.18 - x * 6838.66))));
-  return [clamp01(r / 255), clamp01(g / 255), clamp01(b / 255)];
+  ctx.restore();
 }
 
-function paintHeatmapToImageData(buf01: Float32Array, W: number, H: number): ImageData {
-  const out = new Uint8ClampedArray(W * H * 4);
-  for (let i = 0, j = 0; i < buf01.length; i++, j += 4) {
-    const [r, g, b] = turboColor(buf01[i]);
-    out[j] = (r * 255) | 0; 
-    out[j + 1] = (g * 255) | 0; 
-    out[j + 2] = (b * 255) | 0; 
-    out[j + 3] = 255;
-  }
-  return new ImageData(out, W, H);
+/** Centroid shift A → B on the difference map; the arrow is skipped when the shift is under a pixel. */
+function drawCentroidShift(ctx: CanvasRenderingContext2D, a: ChargeStats, b: ChargeStats, unit: number) {
+  drawCentroid(ctx, a.cx, a.cy, false, unit);
+  drawCentroid(ctx, b.cx, b.cy, true, unit);
+  const d = Math.hypot(b.cx - a.cx, b.cy - a.cy);
+  if (d < 1) return;
+  const ux = (b.cx - a.cx) / d, uy = (b.cy - a.cy) / d, head = 7 * unit;
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.strokeStyle = "#111111";
+  ctx.lineWidth = 2 * unit;
+  ctx.beginPath();
+  ctx.moveTo(a.cx, a.cy); ctx.lineTo(b.cx, b.cy);
+  ctx.moveTo(b.cx, b.cy); ctx.lineTo(b.cx - head * (ux - 0.5 * uy), b.cy - head * (uy + 0.5 * ux));
+  ctx.moveTo(b.cx, b.cy); ctx.lineTo(b.cx - head * (ux + 0.5 * uy), b.cy - head * (uy - 0.5 * ux));
+  ctx.stroke();
+  ctx.restore();
 }
 
 // ========== Main Component ==========
@@ -214,10 +148,20 @@ function paintHeatmapToImageData(buf01: Float32Array, W: number, H: number): Ima
 export default function ChargeFieldPage() {
   const baseRef = useRef<HTMLCanvasElement>(null);
   const heatRef = useRef<HTMLCanvasElement>(null);
+  const cmpARef = useRef<HTMLCanvasElement>(null);
+  const cmpBRef = useRef<HTMLCanvasElement>(null);
+  const cmpDiffRef = useRef<HTMLCanvasElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // Latest job sent to the worker; replies for older ids are dropped
+  const jobRef = useRef({ id: 0, width: 0, height: 0 });
 
   const [uploaded, setUploaded] = useState<HTMLImageElement | null>(null);
   const [imgPreview, setImgPreview] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Variant B, analysed with the same params and view and resampled to A's frame
+  const [uploadedB, setUploadedB] = useState<HTMLImageElement | null>(null);
+  const [imgPreviewB, setImgPreviewB] = useState<string | null>(null);
+  const [isDraggingB, setIsDraggingB] = useState(false);
   const [cropMode, setCropMode] = useState<"square" | "circle" | "custom" | null>(null);
   const [outputDataURL, setOutputDataURL] = useState<string | null>(null);
   const [croppedResult, setCroppedResult] = useState<{ blob: Blob; dataUrl: string } | null>(null);
@@ -227,25 +171,33 @@ export default function ChargeFieldPage() {
 
   // Persisted state - remembers settings across navigation
   const [persistedState, setPersistedState] = usePageState("charge-field", {
-    params: { 
-      levels: 4, 
-      alpha: [0.6, 0.9, 1.2, 1.4], 
-      beta: 0.8, 
-      gamma: 0.5, 
-      squash: 1.2, 
-      smooth: 0.35 
-    },
-    view: 'charge' as 'charge' | 'ms' | 'gl' | 'lf',
+    params: DEFAULT_CHARGE_PARAMS,
+    // Which charge terms are mixed in, and how strongly (see lib/charge/terms)
+    terms: DEFAULT_TERM_SETTINGS,
+    view: 'charge' as ChargeView,
+    // Inhibition-of-return radius is a fraction of the image diagonal
+    scanpath: { show: true, count: 8, radius: 0.06, strength: 0.9 },
   });
 
-  const { params, view } = persistedState;
+  const { params, terms, view, scanpath } = persistedState;
   const setParams = (p: typeof params) => setPersistedState(prev => ({ ...prev, params: p }));
+  const setTerm = (id: ChargeTermId, t: TermSetting) => setPersistedState(prev => ({ ...prev, terms: { ...prev.terms, [id]: t } }));
   const setView = (v: typeof view) => setPersistedState(prev => ({ ...prev, view: v }));
+  const setScanpath = (s: typeof scanpath) => setPersistedState(prev => ({ ...prev, scanpath: s }));
+
+  // Normalized field of the current view, kept so overlays can redraw without recomputing it
+  const [field, setField] = useState<FloatField | null>(null);
+
+  // Worker status while a field is computed coarse-to-fine
+  const [progress, setProgress] = useState<string | null>(null);
 
   // Metrics
   const [maxCharge, setMaxCharge] = useState(0);
   const [meanCharge, setMeanCharge] = useState(0);
 
+  // A/B comparison: raw fields of both variants and their stats
+  const [compare, setCompare] = useState<{ a: Float32Array; b: Float32Array; width: number; height: number; statsA: ChargeStats; statsB: ChargeStats } | null>(null);
+
   // Cropping handlers
   const handleCrop = (type: "square" | "circle" | "custom") => {
     const canvas = heatRef.current;
@@ -283,15 +235,20 @@ export default function ChargeFieldPage() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleFile = (file: File) => {
+  const handleFile = (file: File, slot: "a" | "b" = "a") => {
     if (typeof Image === 'undefined') return;
     const reader = new FileReader();
     reader.onload = () => {
       const img = new Image();
       img.crossOrigin = "anonymous";
       img.onload = () => {
-        setUploaded(img);
-        setImgPreview(reader.result as string);
+        if (slot === "b") {
+          setUploadedB(img);
+          setImgPreviewB(reader.result as string);
+        } else {
+          setUploaded(img);
+          setImgPreview(reader.result as string);
+        }
       };
       img.src = reader.result as string;
     };
@@ -323,6 +280,58 @@ export default function ChargeFieldPage() {
     if (file) handleFile(file);
   };
 
+  const onFileB = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleFile(file, "b");
+  };
+
+  const onDropB = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingB(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file, "b");
+  };
+
+  const clearB = () => {
+    setUploadedB(null);
+    setImgPreviewB(null);
+  };
+
+  // Worker boot
+  useEffect(() => {
+    const w = new Worker(new URL("../../lib/charge/charge.worker.ts", import.meta.url));
+    workerRef.current = w;
+    w.onmessage = (e: MessageEvent<ChargeWorkerResponse>) => {
+      const msg = e.data;
+      const { id, width: W, height: H } = jobRef.current;
+      if (msg.id !== id) return;
+      if (msg.type === "partial") {
+        const { level, levels, field: preview } = msg.data;
+        setField({ data: normalize01(new Float32Array(preview)), width: W, height: H });
+        setProgress(`Refining · preview ${levels - level}/${levels}`);
+      }
+      if (msg.type === "result") {
+        const buf = new Float32Array(msg.data.field);
+        const bufB = msg.data.fieldB ? new Float32Array(msg.data.fieldB) : null;
+        // The main view stays on A's own 0..1 scale; the comparison uses the shared one.
+        const own = normalize01(buf);
+        const stats = chargeStats(own, W, H);
+        setMaxCharge(stats.max);
+        setMeanCharge(stats.mean);
+        setField({ data: own, width: W, height: H });
+        setCompare(bufB ? { a: buf, b: bufB, width: W, height: H, statsA: chargeStats(buf, W, H), statsB: chargeStats(bufB, W, H) } : null);
+        setProgress(null);
+      }
+      if (msg.type === "error") {
+        console.error("Charge worker error:", msg.data);
+        setProgress(null);
+      }
+    };
+    return () => {
+      w.terminate();
+    };
+  }, []);
+
   const render = () => {
     if (!uploaded || !baseRef.current || !heatRef.current) return;
 
@@ -335,47 +344,105 @@ export default function ChargeFieldPage() {
     heat.width = base.width;
     heat.height = base.height;
 
+    const W = base.width, H = base.height;
     const bctx = base.getContext('2d')!;
-    bctx.clearRect(0, 0, base.width, base.height);
-    bctx.drawImage(uploaded, 0, 0, base.width, base.height);
-
-    const id = bctx.getImageData(0, 0, base.width, base.height);
-    const L = rgbToLuma(id.data);
-    let buf: Float32Array;
-
-    if (view === 'charge') {
-      buf = aestheticCharge(L, base.width, base.height, params);
-      buf = guidedSmooth(buf, L, base.width, base.height, params.smooth, 1);
-    } else if (view === 'ms') {
-      buf = multiScaleContrast(L, base.width, base.height, params.levels, params.alpha);
-    } else if (view === 'gl') {
-      buf = globalLuminancePull(L);
-    } else {
-      buf = lowFreqSalience(L, base.width, base.height);
-    }
-
-    // Compute metrics
-    let max = 0, sum = 0;
-    for (let i = 0; i < buf.length; i++) {
-      if (buf[i] > max) max = buf[i];
-      sum += buf[i];
-    }
-    setMaxCharge(max);
-    setMeanCharge(sum / buf.length);
+    const pixelsOf = (img: HTMLImageElement) => {
+      bctx.clearRect(0, 0, W, H);
+      bctx.drawImage(img, 0, 0, W, H);
+      return bctx.getImageData(0, 0, W, H).data;
+    };
 
-    // Paint heatmap
-    const hctx = heat.getContext('2d')!;
-    hctx.clearRect(0, 0, heat.width, heat.height);
-    const hm = paintHeatmapToImageData(normalize01(buf), heat.width, heat.height);
-    hctx.putImageData(hm, 0, 0);
+    // B goes first so the base canvas is left holding A
+    const rgbaB = uploadedB ? pixelsOf(uploadedB) : undefined;
+    const rgba = pixelsOf(uploaded);
+
+    // A newer job makes the worker drop the one in flight
+    const id = jobRef.current.id + 1;
+    jobRef.current = { id, width: W, height: H };
+    const msg: ChargeWorkerRequest = {
+      type: "compute",
+      id,
+      payload: { width: W, height: H, view, params, terms, rgba: rgba.buffer, rgbaB: rgbaB?.buffer },
+    };
+    setProgress("Computing…");
+    workerRef.current?.postMessage(msg, rgbaB ? [rgba.buffer, rgbaB.buffer] : [rgba.buffer]);
   };
 
   useEffect(() => {
     render();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [uploaded, params, view]);
+  }, [uploaded, uploadedB, params, terms, view]);
+
+  // A and B share one 0..1 scale: the worker stretches both raw mixes by their joint min/max.
+  // The terms themselves are still normalized per image. B − A is scaled symmetrically around white.
+  useEffect(() => {
+    if (!compare) return;
+    const { a, b, width: W, height: H, statsA, statsB } = compare;
+    const diff = new Float32Array(a.length);
+    for (let i = 0; i < diff.length; i++) diff[i] = b[i] - a[i];
+    const unit = Math.hypot(W, H) / 600;
+    const panels: [HTMLCanvasElement | null, ImageData][] = [
+      [cmpARef.current, new ImageData(colorize(a, turbo), W, H)],
+      [cmpBRef.current, new ImageData(colorize(b, turbo), W, H)],
+      [cmpDiffRef.current, new ImageData(colorize(normalizeSymmetric(diff), blueRed), W, H)],
+    ];
+    panels.forEach(([canvas, img], k) => {
+      if (!canvas) return;
+      canvas.width = W;
+      canvas.height = H;
+      const ctx = canvas.getContext('2d')!;
+      ctx.putImageData(img, 0, 0);
+      if (k === 0) drawCentroid(ctx, statsA.cx, statsA.cy, false, unit);
+      else if (k === 1) drawCentroid(ctx, statsB.cx, statsB.cy, true, unit);
+      else drawCentroidShift(ctx, statsA, statsB, unit);
+    });
+  }, [compare]);
+
+  const diffRange = useMemo(() => {
+    if (!compare) return 0;
+    let m = 0;
+    for (let i = 0; i < compare.a.length; i++) m = Math.max(m, Math.abs(compare.b[i] - compare.a[i]));
+    return m;
+  }, [compare]);
+
+  const fixations = useMemo(() => {
+    if (!field || !scanpath.show) return null;
+    const { data, width: W, height: H } = field;
+    return simulateScanpath(data, W, H, { count: scanpath.count, iorSigma: scanpath.radius * Math.hypot(W, H), iorStrength: scanpath.strength });
+  }, [field, scanpath]);
+
+  // Paint heatmap, then the scanpath on top (so exports and crops include it)
+  useEffect(() => {
+    const heat = heatRef.current;
+    if (!field || !heat) return;
+    heat.width = field.width;
+    heat.height = field.height;
+    const hctx = heat.getContext('2d')!;
+    hctx.putImageData(paintHeatmapToImageData(field.data, field.width, field.height), 0, 0);
+    if (fixations) drawScanpath(hctx, fixations, field.width, field.height);
+  }, [field, fixations, cropMode]);
+
+  const exportScanpath = () => {
+    if (!field || !fixations) return;
+    const { width: W, height: H } = field;
+    const payload = {
+      width: W,
+      height: H,
+      view,
+      inhibition: { sigma: Math.round(scanpath.radius * Math.hypot(W, H)), strength: scanpath.strength },
+      fixations: fixations.map(f => ({ ...f, nx: +(f.x / W).toFixed(4), ny: +(f.y / H).toFixed(4) })),
+    };
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `charge_scanpath_${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
 
   const aggLabel = (v: number) => (v === 0 ? "—" : v.toFixed(3));
+  const deltaLabel = (v: number, digits = 3) => `${v >= 0 ? "+" : "−"}${Math.abs(v).toFixed(digits)}`;
 
   return (
     <div className="min-h-screen w-full bg-[#0D0D0F] text-neutral-200">
@@ -452,14 +519,44 @@ export default function ChargeFieldPage() {
                   </div>
                 </div>
 
+                {/* Variant B */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-xs text-neutral-300">Compare With (B)</div>
+                    {uploadedB && (
+                      <button onClick={clearB} className="inline-flex items-center gap-1 text-[11px] text-neutral-400 hover:text-white">
+                        <X className="h-3 w-3"/>Clear
+                      </button>
+                    )}
+                  </div>
+                  <div
+                    onDragOver={(e) => { e.preventDefault(); setIsDraggingB(true); }}
+                    onDragLeave={() => setIsDraggingB(false)}
+                    onDrop={onDropB}
+                    className={`relative rounded-lg border overflow-hidden transition ${
+                      isDraggingB ? "border-dashed border-teal-400" : "border-neutral-800"
+                    }`}
+                  >
+                    {imgPreviewB ? (
+                      <img src={imgPreviewB} alt="variant B" className="w-full h-20 object-cover" />
+                    ) : (
+                      <div className="grid place-items-center bg-black/30 h-20 text-[11px] text-neutral-500">
+                        Drop a variant to compare (B − A)
+                      </div>
+                    )}
+                    <label className="absolute inset-0 cursor-pointer">
+                      <input type="file" accept="image/*" className="hidden" onChange={onFileB} />
+                    </label>
+                  </div>
+                </div>
+
                 {/* View selector */}
                 <div>
                   <div className="text-xs text-neutral-300 mb-2">View Mode</div>
-                  <div className="inline-flex p-0.5 bg-neutral-900/60 rounded-xl border border-neutral-800 w-full">
-                    <button onClick={() => setView('charge')} className={`flex-1 px-2.5 py-1 rounded-lg text-xs transition ${view === "charge" ? "bg-neutral-700 text-white" : "text-neutral-400 hover:text-white"}`}>Charge</button>
-                    <button onClick={() => setView('ms')} className={`flex-1 px-2.5 py-1 rounded-lg text-xs transition ${view === "ms" ? "bg-neutral-700 text-white" : "text-neutral-400 hover:text-white"}`}>Multi-Scale</button>
-                    <button onClick={() => setView('gl')} className={`flex-1 px-2.5 py-1 rounded-lg text-xs transition ${view === "gl" ? "bg-neutral-700 text-white" : "text-neutral-400 hover:text-white"}`}>Global</button>
-                    <button onClick={() => setView('lf')} className={`flex-1 px-2.5 py-1 rounded-lg text-xs transition ${view === "lf" ? "bg-neutral-700 text-white" : "text-neutral-400 hover:text-white"}`}>Low-Freq</button>
+                  <div className="grid grid-cols-5 gap-0.5 p-0.5 bg-neutral-900/60 rounded-xl border border-neutral-800 w-full">
+                    {[{ id: 'charge' as ChargeView, short: 'Charge' }, ...CHARGE_TERMS].map(({ id, short }) => (
+                      <button key={id} onClick={() => setView(id)} className={`px-2 py-1 rounded-lg text-xs transition ${view === id ? "bg-neutral-700 text-white" : "text-neutral-400 hover:text-white"}`}>{short}</button>
+                    ))}
                   </div>
                 </div>
 
@@ -471,14 +568,6 @@ export default function ChargeFieldPage() {
                     <label className="text-neutral-300">Levels ({params.levels})</label>
                     <input type="range" min={3} max={6} value={params.levels} onChange={(e) => setParams({ ...params, levels: parseInt(e.target.value) })} className="w-full accent-teal-400" />
                   </div>
-                  <div className="space-y-0.5">
-                    <label className="text-neutral-300">β Global ({params.beta.toFixed(2)})</label>
-                    <input type="range" min={0} max={1.5} step={0.05} value={params.beta} onChange={(e) => setParams({ ...params, beta: parseFloat(e.target.value) })} className="w-full accent-teal-400" />
-                  </div>
-                  <div className="space-y-0.5">
-                    <label className="text-neutral-300">γ Low-Freq ({params.gamma.toFixed(2)})</label>
-                    <input type="range" min={0} max={1.5} step={0.05} value={params.gamma} onChange={(e) => setParams({ ...params, gamma: parseFloat(e.target.value) })} className="w-full accent-teal-400" />
-                  </div>
                   <div className="space-y-0.5">
                     <label className="text-neutral-300">Squash ({params.squash.toFixed(2)})</label>
                     <input type="range" min={0.5} max={2.0} step={0.05} value={params.squash} onChange={(e) => setParams({ ...params, squash: parseFloat(e.target.value) })} className="w-full accent-teal-400" />
@@ -488,6 +577,48 @@ export default function ChargeFieldPage() {
                     <input type="range" min={0} max={0.8} step={0.05} value={params.smooth} onChange={(e) => setParams({ ...params, smooth: parseFloat(e.target.value) })} className="w-full accent-teal-400" />
                   </div>
                 </div>
+
+                <div className="h-px bg-neutral-800" />
+
+                {/* Charge terms */}
+                <div className="text-xs">
+                  <div className="text-neutral-300 mb-2">Charge Terms</div>
+                  <div className="space-y-1.5">
+                    {CHARGE_TERMS.map((term) => {
+                      const t = termSetting(terms, term);
+                      return (
+                        <div key={term.id} className="grid grid-cols-[auto_8rem_1fr_2.5rem] items-center gap-2">
+                          <input type="checkbox" checked={t.enabled} onChange={(e) => setTerm(term.id, { ...t, enabled: e.target.checked })} className="accent-teal-400" />
+                          <span className={t.enabled ? "text-neutral-300" : "text-neutral-500"}>{term.label}</span>
+                          <input type="range" min={0} max={2} step={0.05} value={t.weight} disabled={!t.enabled} onChange={(e) => setTerm(term.id, { ...t, weight: parseFloat(e.target.value) })} className="w-full accent-teal-400 disabled:opacity-40" />
+                          <span className="text-right tabular-nums text-neutral-400">{t.weight.toFixed(2)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="h-px bg-neutral-800" />
+
+                {/* Scanpath */}
+                <div className="grid grid-cols-2 gap-x-3 gap-y-2 text-xs">
+                  <label className="col-span-2 flex items-center justify-between gap-2">
+                    <span className="text-neutral-300">Scanpath (inhibition of return)</span>
+                    <input type="checkbox" checked={scanpath.show} onChange={(e) => setScanpath({ ...scanpath, show: e.target.checked })} className="accent-teal-400" />
+                  </label>
+                  <div className="space-y-0.5">
+                    <label className="text-neutral-300">Fixations ({scanpath.count})</label>
+                    <input type="range" min={1} max={20} step={1} value={scanpath.count} onChange={(e) => setScanpath({ ...scanpath, count: parseInt(e.target.value) })} className="w-full accent-teal-400" />
+                  </div>
+                  <div className="space-y-0.5">
+                    <label className="text-neutral-300">IOR Radius ({(scanpath.radius * 100).toFixed(0)}% diag)</label>
+                    <input type="range" min={0.02} max={0.2} step={0.01} value={scanpath.radius} onChange={(e) => setScanpath({ ...scanpath, radius: parseFloat(e.target.value) })} className="w-full accent-teal-400" />
+                  </div>
+                  <div className="space-y-0.5 col-span-2">
+                    <label className="text-neutral-300">IOR Strength ({scanpath.strength.toFixed(2)})</label>
+                    <input type="range" min={0.1} max={1} step={0.05} value={scanpath.strength} onChange={(e) => setScanpath({ ...scanpath, strength: parseFloat(e.target.value) })} className="w-full accent-teal-400" />
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -552,6 +683,14 @@ export default function ChargeFieldPage() {
                     >
                       <Download className="h-3.5 w-3.5"/>
                     </button>
+                    {fixations && fixations.length > 0 && (
+                      <button
+                        onClick={exportScanpath}
+                        className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700"
+                      >
+                        <Download className="h-3.5 w-3.5"/>Scanpath
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -579,12 +718,70 @@ export default function ChargeFieldPage() {
                         Upload an image to begin
                       </div>
                     )}
+                    {progress && (
+                      <div className="absolute top-2 right-2 text-[11px] px-2 py-1 rounded-lg bg-black/60 border border-neutral-700 text-neutral-300">
+                        {progress}
+                      </div>
+                    )}
+                    {fixations && fixations.length > 1 && (
+                      <div className="absolute bottom-2 left-2 text-[11px] px-2 py-1 rounded-lg bg-black/60 border border-neutral-700 text-neutral-300">
+                        {fixations.length} fixations · path {fixations.reduce((s, f) => s + f.saccade, 0).toFixed(0)} px · dwell {(fixations.reduce((s, f) => s + f.dwellMs, 0) / 1000).toFixed(1)} s
+                      </div>
+                    )}
                   </>
                 )}
               </div>
             </div>
           </div>
         </div>
+
+        {/* A/B Comparison */}
+        {compare && (
+          <div className="mt-6 rounded-2xl border border-neutral-800 bg-black/40 p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-neutral-300">A/B Comparison</h3>
+              <div className="text-[11px] text-neutral-500">B resampled to A ({compare.width}×{compare.height}) · ring = A centroid, dot = B centroid</div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <div className="text-xs text-neutral-400 mb-1">A</div>
+                <canvas ref={cmpARef} className="w-full rounded-xl border border-neutral-800 bg-black/40" style={{ height: 'auto' }} />
+              </div>
+              <div>
+                <div className="text-xs text-neutral-400 mb-1">B</div>
+                <canvas ref={cmpBRef} className="w-full rounded-xl border border-neutral-800 bg-black/40" style={{ height: 'auto' }} />
+              </div>
+              <div>
+                <div className="text-xs text-neutral-400 mb-1">B − A <span className="text-neutral-500">(blue −{diffRange.toFixed(3)} … red +{diffRange.toFixed(3)})</span></div>
+                <canvas ref={cmpDiffRef} className="w-full rounded-xl border border-neutral-800 bg-black/40" style={{ height: 'auto' }} />
+              </div>
+            </div>
+            <div className="mt-4 grid grid-cols-4 gap-2 text-xs">
+              <div />
+              <div className="text-[9px] text-neutral-500">A</div>
+              <div className="text-[9px] text-neutral-500">B</div>
+              <div className="text-[9px] text-neutral-500">Δ (B − A)</div>
+              <div className="text-neutral-400">Max Q</div>
+              <div className="font-semibold">{compare.statsA.max.toFixed(3)}</div>
+              <div className="font-semibold">{compare.statsB.max.toFixed(3)}</div>
+              <div className="font-semibold">{deltaLabel(compare.statsB.max - compare.statsA.max)}</div>
+              <div className="text-neutral-400">Mean Q</div>
+              <div className="font-semibold">{compare.statsA.mean.toFixed(3)}</div>
+              <div className="font-semibold">{compare.statsB.mean.toFixed(3)}</div>
+              <div className="font-semibold">{deltaLabel(compare.statsB.mean - compare.statsA.mean)}</div>
+              <div className="text-neutral-400">Centroid</div>
+              <div className="font-semibold">({compare.statsA.cx.toFixed(0)}, {compare.statsA.cy.toFixed(0)})</div>
+              <div className="font-semibold">({compare.statsB.cx.toFixed(0)}, {compare.statsB.cy.toFixed(0)})</div>
+              <div className="font-semibold">
+                {(() => {
+                  const dx = compare.statsB.cx - compare.statsA.cx, dy = compare.statsB.cy - compare.statsA.cy;
+                  const d = Math.hypot(dx, dy);
+                  return `${d.toFixed(1)} px (${((100 * d) / Math.hypot(compare.width, compare.height)).toFixed(1)}% diag) · (${deltaLabel(dx, 0)}, ${deltaLabel(dy, 0)})`;
+                })()}
+              </div>
+            </div>
+          </div>
+        )}
       </main>
 
       {/* Export Dialog */}
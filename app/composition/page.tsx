@@ -0,0 +1,527 @@
+// app/composition/page.tsx
+// Composition Analyzer — thirds, phi grid, golden spirals, dynamic-symmetry diagonals and balance
+
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ImagePlus } from "lucide-react";
+import { ToolHeader } from "../../components/ToolHeader";
+import { usePageState } from "../../lib/usePageState";
+import { Cropper } from "../../components/CropperWithMenu";
+import { ClipboardViewer, ClipboardButton, saveToClipboard } from "../../components/ClipboardViewer";
+import { toGrayFloat, toGrayU8 } from "../../lib/image/grayscale";
+import { gaussianBlur, gradientMagnitude, normalize01, sobel } from "../../lib/image/filters";
+import { resampleBilinear } from "../../lib/image/pyramid";
+import { blendHeat, magma } from "../../lib/image/colormaps";
+import { chargeView } from "../../lib/charge/pipeline";
+import { DEFAULT_CHARGE_PARAMS, DEFAULT_TERM_SETTINGS } from "../../lib/charge/terms";
+import { DEFAULT_ENTROPY_OPTIONS, localEntropyMap } from "../../lib/complexity/entropy";
+import { composeGuides } from "../../lib/composition/guides";
+import type { Guide, GuideId } from "../../lib/composition/guides";
+import { analyzeComposition, suggestCrop } from "../../lib/composition/analyze";
+import type { CropRect } from "../../lib/composition/analyze";
+
+// ========== Salience Sources ==========
+
+type SalienceSource = "charge" | "entropy" | "gradient";
+
+const SOURCES: { id: SalienceSource; label: string }[] = [
+  { id: "charge", label: "Charge" },
+  { id: "entropy", label: "Entropy" },
+  { id: "gradient", label: "Gradient" },
+];
+
+/** Salience is computed on the image at this longest side; the crop search runs coarser. */
+const ANALYSIS_MAX_SIDE = 480;
+const SEARCH_MAX_SIDE = 160;
+
+function salienceField(rgba: Uint8ClampedArray, W: number, H: number, source: SalienceSource): Float32Array {
+  if (source === "charge") {
+    return chargeView({ width: W, height: H, rgba, L: toGrayFloat(rgba) }, "charge", DEFAULT_CHARGE_PARAMS, DEFAULT_TERM_SETTINGS);
+  }
+  if (source === "entropy") {
+    const opts = DEFAULT_ENTROPY_OPTIONS;
+    // Patch entropy is blocky; blur by one stride so guides see a smooth field
+    return normalize01(gaussianBlur(localEntropyMap(toGrayU8(rgba), W, H, opts), W, H, opts.stride));
+  }
+  const { gx, gy } = sobel(toGrayFloat(rgba), W, H);
+  return normalize01(gaussianBlur(gradientMagnitude(gx, gy), W, H, 2));
+}
+
+// ========== Crop Aspects ==========
+
+const ASPECTS = [
+  { id: "original", label: "Original", value: null },
+  { id: "1:1", label: "1:1", value: 1 },
+  { id: "4:5", label: "4:5", value: 4 / 5 },
+  { id: "3:2", label: "3:2", value: 3 / 2 },
+  { id: "16:9", label: "16:9", value: 16 / 9 },
+] as const;
+
+type AspectId = (typeof ASPECTS)[number]["id"];
+
+// ========== Overlay Drawing ==========
+
+/** Draws a guide's lines and points mapped into `rect` (canvas pixels). */
+function drawGuide(ctx: CanvasRenderingContext2D, guide: Guide, rect: CropRect, color: string, unit: number) {
+  const px = ([u, v]: [number, number]): [number, number] => [rect.x + u * rect.w, rect.y + v * rect.h];
+  ctx.save();
+  ctx.lineJoin = "round";
+  for (const [stroke, width] of [["rgba(0,0,0,0.55)", 3 * unit], [color, 1.5 * unit]] as const) {
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = width;
+    ctx.beginPath();
+    for (const line of guide.lines) {
+      line.forEach((p, k) => {
+        const [x, y] = px(p);
+        if (k === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+    }
+    ctx.stroke();
+  }
+  for (const p of guide.points) {
+    const [x, y] = px(p);
+    ctx.beginPath();
+    ctx.arc(x, y, 4 * unit, 0, Math.PI * 2);
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.lineWidth = 1.5 * unit;
+    ctx.strokeStyle = "rgba(0,0,0,0.7)";
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** Suggested crop: everything outside dimmed, dashed outline. */
+function drawCrop(ctx: CanvasRenderingContext2D, rect: CropRect, W: number, H: number, unit: number) {
+  ctx.save();
+  ctx.fillStyle = "rgba(0,0,0,0.45)";
+  ctx.beginPath();
+  ctx.rect(0, 0, W, H);
+  ctx.rect(rect.x, rect.y, rect.w, rect.h);
+  ctx.fill("evenodd");
+  ctx.setLineDash([6 * unit, 4 * unit]);
+  ctx.lineWidth = 2 * unit;
+  ctx.strokeStyle = "#2dd4bf";
+  ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+  ctx.restore();
+}
+
+// ========== Main Component ==========
+
+export default function CompositionPage() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const [uploaded, setUploaded] = useState<HTMLImageElement | null>(null);
+  const [imgPreview, setImgPreview] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [cropping, setCropping] = useState(false);
+  const [croppedResult, setCroppedResult] = useState<{ blob: Blob; dataUrl: string } | null>(null);
+  const [clipboardOpen, setClipboardOpen] = useState(false);
+
+  // Persisted state - remembers settings across navigation
+  const [persistedState, setPersistedState] = usePageState("composition", {
+    source: "charge" as SalienceSource,
+    overlay: "best" as "best" | "all" | GuideId,
+    showHeat: true,
+    showCrop: true,
+    aspect: "original" as AspectId,
+    // Smallest crop, as a fraction of the largest that fits
+    minScale: 0.6,
+  });
+
+  const { source, overlay, showHeat, showCrop, aspect, minScale } = persistedState;
+  const setSource = (v: typeof source) => setPersistedState(p => ({ ...p, source: v }));
+  const setOverlay = (v: typeof overlay) => setPersistedState(p => ({ ...p, overlay: v }));
+  const setShowHeat = (v: boolean) => setPersistedState(p => ({ ...p, showHeat: v }));
+  const setShowCrop = (v: boolean) => setPersistedState(p => ({ ...p, showCrop: v }));
+  const setAspect = (v: typeof aspect) => setPersistedState(p => ({ ...p, aspect: v }));
+  const setMinScale = (v: number) => setPersistedState(p => ({ ...p, minScale: v }));
+
+  // Image pixels at analysis size
+  const frame = useMemo(() => {
+    if (!uploaded || typeof document === "undefined") return null;
+    const scale = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(uploaded.naturalWidth, uploaded.naturalHeight));
+    const W = Math.max(1, Math.round(uploaded.naturalWidth * scale));
+    const H = Math.max(1, Math.round(uploaded.naturalHeight * scale));
+    const c = document.createElement("canvas");
+    c.width = W;
+    c.height = H;
+    const ctx = c.getContext("2d")!;
+    ctx.drawImage(uploaded, 0, 0, W, H);
+    return ctx.getImageData(0, 0, W, H);
+  }, [uploaded]);
+
+  const salience = useMemo(
+    () => (frame ? salienceField(frame.data, frame.width, frame.height, source) : null),
+    [frame, source]
+  );
+
+  const report = useMemo(
+    () => (frame && salience ? analyzeComposition(salience, frame.width, frame.height) : null),
+    [frame, salience]
+  );
+
+  // Crop search on a coarser copy, then the winner rescored at analysis size
+  const suggestion = useMemo(() => {
+    if (!frame || !salience) return null;
+    const { width: W, height: H } = frame;
+    const k = Math.min(1, SEARCH_MAX_SIDE / Math.max(W, H));
+    const w = Math.max(1, Math.round(W * k)), h = Math.max(1, Math.round(H * k));
+    const small = k < 1 ? resampleBilinear(salience, W, H, w, h) : salience;
+    const aspectValue = ASPECTS.find(a => a.id === aspect)?.value ?? null;
+    const best = suggestCrop(small, w, h, { aspect: aspectValue, minScale });
+    const rect: CropRect = {
+      x: Math.round((best.x * W) / w),
+      y: Math.round((best.y * H) / h),
+      w: Math.min(W, Math.round((best.w * W) / w)),
+      h: Math.min(H, Math.round((best.h * H) / h)),
+    };
+    rect.x = Math.min(rect.x, W - rect.w);
+    rect.y = Math.min(rect.y, H - rect.h);
+    return { rect, report: analyzeComposition(salience, W, H, rect), retained: best.retained };
+  }, [frame, salience, aspect, minScale]);
+
+  // Paint image, heat, guides and the suggested crop
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !frame || !salience || !report) return;
+    const { width: W, height: H } = frame;
+    canvas.width = W;
+    canvas.height = H;
+    const ctx = canvas.getContext("2d")!;
+    const img = new ImageData(new Uint8ClampedArray(frame.data), W, H);
+    if (showHeat) blendHeat(img.data, salience, magma, 0.5);
+    ctx.putImageData(img, 0, 0);
+
+    const unit = Math.hypot(W, H) / 600;
+    const guides = composeGuides(W / H);
+    const full = { x: 0, y: 0, w: W, h: H };
+    const shown = overlay === "all" ? guides : guides.filter(g => g.id === (overlay === "best" ? report.best : overlay));
+    for (const g of shown) drawGuide(ctx, g, full, "rgba(255,255,255,0.9)", unit);
+
+    if (showCrop && suggestion) {
+      const { rect, report: cropReport } = suggestion;
+      drawCrop(ctx, rect, W, H, unit);
+      const cropGuide = composeGuides(rect.w / rect.h).find(g => g.id === cropReport.best)!;
+      drawGuide(ctx, cropGuide, rect, "#2dd4bf", unit);
+    }
+  }, [frame, salience, report, suggestion, overlay, showHeat, showCrop, cropping]);
+
+  const handleFile = (file: File) => {
+    if (typeof Image === 'undefined') return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const img = new Image();
+      img.crossOrigin = "anonymous";
+      img.onload = () => {
+        setUploaded(img);
+        setImgPreview(reader.result as string);
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleClipboardImage = (record: any) => {
+    if (typeof Image === 'undefined') return;
+    const url = URL.createObjectURL(record.blob);
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      setUploaded(img);
+      setImgPreview(url);
+      setClipboardOpen(false);
+    };
+    img.src = url;
+  };
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleFile(file);
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  };
+
+  // The Cropper works on the original image, so the suggestion is scaled up to it
+  const cropperRect = useMemo(() => {
+    if (!uploaded || !frame || !suggestion) return undefined;
+    const k = uploaded.naturalWidth / frame.width;
+    const { x, y, w, h } = suggestion.rect;
+    return { x: Math.round(x * k), y: Math.round(y * k), w: Math.round(w * k), h: Math.round(h * k) };
+  }, [uploaded, frame, suggestion]);
+
+  const onCrop = (result: { blob: Blob; dataUrl: string }) => {
+    setCroppedResult({ blob: result.blob, dataUrl: result.dataUrl });
+    setCropping(false);
+  };
+
+  const exportToStudio = async () => {
+    if (!croppedResult) return;
+    try {
+      await saveToClipboard(croppedResult.blob, `composition_cropped_${Date.now()}.png`);
+      alert("✓ Saved to Studio clipboard!");
+      setCroppedResult(null);
+    } catch (err) {
+      console.error("Clipboard error:", err);
+      alert("Failed to save to clipboard");
+    }
+  };
+
+  const pct = (v: number) => `${(100 * v).toFixed(0)}%`;
+
+  return (
+    <div className="min-h-screen w-full bg-[#0D0D0F] text-neutral-200">
+      <ToolHeader />
+      <main className="mx-auto max-w-7xl px-1 py-4 md:py-6">
+        <h1 className="text-2xl md:text-3xl font-medium tracking-wide text-neutral-200 mb-4 md:mb-6">Composition Analyzer</h1>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Left: Input + Controls + Scores */}
+          <div>
+            <div className="rounded-2xl border border-neutral-800 bg-black/40 p-4">
+              <div className="space-y-3">
+                {/* Upload */}
+                <div>
+                  <div className="text-xs text-neutral-300 mb-2">Input Image</div>
+                  <div
+                    onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={onDrop}
+                    className={`group relative rounded-lg border overflow-hidden transition ${
+                      isDragging ? "border-dashed border-teal-400" : "border-neutral-800"
+                    }`}
+                    style={{minHeight: '120px'}}
+                  >
+                    {imgPreview ? (
+                      <img src={imgPreview} alt="preview" className="w-full h-32 object-cover" />
+                    ) : (
+                      <div className="grid place-items-center bg-black/30 p-3" style={{minHeight: '120px'}}>
+                        <div className="text-center">
+                          <div className="text-xs text-neutral-400 mb-2">Drag & drop or upload</div>
+                          <div className="text-[10px] text-neutral-500 mb-2">PNG / JPG</div>
+                          <button
+                            onClick={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              setClipboardOpen(true);
+                            }}
+                            className="text-[11px] text-teal-400 hover:text-teal-300 underline"
+                          >
+                            Choose from Clipboard
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    <label className="absolute inset-0 cursor-pointer" style={{ pointerEvents: imgPreview ? 'auto' : 'none' }}>
+                      <input type="file" accept="image/*" className="hidden" onChange={onFile} />
+                    </label>
+                    {imgPreview && (
+                      <div className="absolute bottom-1.5 right-1.5">
+                        <label className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-black/70 border border-neutral-700 cursor-pointer hover:bg-black/80">
+                          <ImagePlus className="h-3 w-3"/>
+                          <input type="file" accept="image/*" className="hidden" onChange={onFile} />
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Salience source */}
+                <div>
+                  <div className="text-xs text-neutral-300 mb-2">Salience Field</div>
+                  <div className="inline-flex p-0.5 bg-neutral-900/60 rounded-xl border border-neutral-800 w-full">
+                    {SOURCES.map(s => (
+                      <button key={s.id} onClick={() => setSource(s.id)} className={`flex-1 px-2.5 py-1 rounded-lg text-xs transition ${source === s.id ? "bg-neutral-700 text-white" : "text-neutral-400 hover:text-white"}`}>{s.label}</button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Overlay */}
+                <div>
+                  <div className="text-xs text-neutral-300 mb-2">Overlay</div>
+                  <select
+                    value={overlay}
+                    onChange={(e) => setOverlay(e.target.value as typeof overlay)}
+                    className="w-full rounded-lg bg-neutral-900 border border-neutral-800 px-2 py-1.5 text-xs"
+                  >
+                    <option value="best">Best-matching guide</option>
+                    <option value="all">All guides</option>
+                    {composeGuides(1).map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+                  </select>
+                  <div className="mt-2 flex gap-4 text-xs">
+                    <label className="inline-flex items-center gap-2">
+                      <input type="checkbox" checked={showHeat} onChange={(e) => setShowHeat(e.target.checked)} className="accent-teal-400" />
+                      <span className="text-neutral-300">Salience heat</span>
+                    </label>
+                    <label className="inline-flex items-center gap-2">
+                      <input type="checkbox" checked={showCrop} onChange={(e) => setShowCrop(e.target.checked)} className="accent-teal-400" />
+                      <span className="text-neutral-300">Suggested crop</span>
+                    </label>
+                  </div>
+                </div>
+
+                <div className="h-px bg-neutral-800" />
+
+                {/* Crop search */}
+                <div className="grid grid-cols-2 gap-x-3 gap-y-2 text-xs">
+                  <div className="space-y-0.5 col-span-2">
+                    <label className="text-neutral-300">Crop Aspect</label>
+                    <div className="inline-flex p-0.5 bg-neutral-900/60 rounded-xl border border-neutral-800 w-full">
+                      {ASPECTS.map(a => (
+                        <button key={a.id} onClick={() => setAspect(a.id)} className={`flex-1 px-2 py-1 rounded-lg text-xs transition ${aspect === a.id ? "bg-neutral-700 text-white" : "text-neutral-400 hover:text-white"}`}>{a.label}</button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-0.5 col-span-2">
+                    <label className="text-neutral-300">Smallest Crop ({pct(minScale)} of frame)</label>
+                    <input type="range" min={0.3} max={1} step={0.05} value={minScale} onChange={(e) => setMinScale(parseFloat(e.target.value))} className="w-full accent-teal-400" />
+                  </div>
+                </div>
+
+                <div className="h-px bg-neutral-800" />
+
+                {/* Scores */}
+                {report ? (
+                  <div className="text-xs space-y-3">
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="rounded border border-neutral-800 bg-black/30 p-2">
+                        <div className="text-[9px] text-neutral-500">Composition</div>
+                        <div className="text-sm font-semibold text-neutral-200">{report.score.toFixed(3)}</div>
+                      </div>
+                      <div className="rounded border border-neutral-800 bg-black/30 p-2">
+                        <div className="text-[9px] text-neutral-500">Balance</div>
+                        <div className="text-sm font-semibold text-neutral-200">{report.balance.score.toFixed(3)}</div>
+                      </div>
+                      <div className="rounded border border-neutral-800 bg-black/30 p-2">
+                        <div className="text-[9px] text-neutral-500">Weight L / T</div>
+                        <div className="text-sm font-semibold text-neutral-200">{pct(report.balance.left)} / {pct(report.balance.top)}</div>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      {report.guides.map(g => (
+                        <div key={g.id} className="grid grid-cols-[8.5rem_1fr_3rem_3rem] items-center gap-2">
+                          <span className={g.id === report.best ? "text-teal-300" : "text-neutral-400"}>{g.label}</span>
+                          <div className="h-1.5 rounded bg-neutral-800 overflow-hidden">
+                            <div className={`h-full ${g.id === report.best ? "bg-teal-400" : "bg-neutral-500"}`} style={{ width: pct(g.score) }} />
+                          </div>
+                          <span className="text-right tabular-nums text-neutral-300">{g.score.toFixed(2)}</span>
+                          <span className="text-right tabular-nums text-neutral-500" title="Lift: weighted vs. plain mean of the guide kernel">×{g.lift.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {suggestion && (
+                      <div className="rounded border border-neutral-800 bg-black/30 p-2 text-neutral-400">
+                        Suggested crop {suggestion.rect.w}×{suggestion.rect.h} at ({suggestion.rect.x}, {suggestion.rect.y}) ·
+                        score <span className="text-neutral-200">{report.score.toFixed(3)} → {suggestion.report.score.toFixed(3)}</span> ·
+                        {" "}{composeGuides(1).find(g => g.id === suggestion.report.best)?.label} · keeps {pct(suggestion.retained)} of salience
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-xs text-neutral-500">Scores appear once an image is loaded.</div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Right: Output */}
+          <div>
+            <div className="rounded-2xl border border-neutral-800 bg-black/40 p-4 h-full flex flex-col">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-neutral-300">Composition</h3>
+                {uploaded && !cropping && suggestion && (
+                  <button
+                    onClick={() => setCropping(true)}
+                    className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700"
+                  >
+                    ✂️ Crop to Suggestion
+                  </button>
+                )}
+              </div>
+              <div className="relative flex-1 flex items-center justify-center">
+                {cropping && imgPreview ? (
+                  <div className="relative w-full h-full">
+                    <button
+                      onClick={() => setCropping(false)}
+                      className="absolute top-2 right-2 z-10 px-3 py-1 rounded-lg bg-red-800/90 hover:bg-red-700 border border-red-700 text-xs"
+                    >
+                      Cancel
+                    </button>
+                    <Cropper
+                      src={imgPreview}
+                      mode="square"
+                      initialRect={cropperRect}
+                      onCrop={onCrop}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <canvas ref={canvasRef} className="w-full rounded-xl border border-neutral-800 bg-black/40" style={{maxWidth: '100%', height: 'auto'}} />
+                    {!uploaded && (
+                      <div className="absolute inset-0 flex items-center justify-center text-neutral-500 text-sm">
+                        Upload an image to begin
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {/* Export Dialog */}
+      {croppedResult && (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={() => setCroppedResult(null)}>
+          <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 max-w-md w-full" onClick={(e) => e.stopPropagation()}>
+            <h3 className="text-lg font-semibold mb-3">Export Cropped Image</h3>
+            <img src={croppedResult.dataUrl} alt="cropped" className="w-full h-auto rounded-xl border border-neutral-800 mb-4" />
+            <div className="flex gap-3">
+              <button
+                onClick={exportToStudio}
+                className="flex-1 px-4 py-2 rounded-xl bg-emerald-700 hover:bg-emerald-600 border border-emerald-600 text-sm"
+              >
+                📋 Export to Studio
+              </button>
+              <button
+                onClick={() => {
+                  const a = document.createElement("a");
+                  a.href = croppedResult.dataUrl;
+                  a.download = `cropped_${Date.now()}.png`;
+                  a.click();
+                  setCroppedResult(null);
+                }}
+                className="flex-1 px-4 py-2 rounded-xl bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 text-sm"
+              >
+                💾 Download
+              </button>
+              <button
+                onClick={() => setCroppedResult(null)}
+                className="px-4 py-2 rounded-xl bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Clipboard Viewer */}
+      <ClipboardViewer
+        isOpen={clipboardOpen}
+        onClose={() => setClipboardOpen(false)}
+        onImageSelect={handleClipboardImage}
+      />
+
+      {/* Clipboard Button */}
+      <ClipboardButton onClick={() => setClipboardOpen(true)} />
+    </div>
+  );
+}
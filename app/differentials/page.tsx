@@ -6,14 +6,46 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
-import { ArrowLeft, Download, ImagePlus, Maximize2, RefreshCw } from "lucide-react";
+import { ArrowLeft, Download, Film, ImagePlus, Maximize2, Pause, Play, RefreshCw, Video } from "lucide-react";
 import { ToolHeader } from "../../components/ToolHeader";
 import CropperWithMenu, { Cropper } from "../../components/CropperWithMenu";
 import { usePageState } from "../../lib/usePageState";
 import { ClipboardViewer, ClipboardButton, saveToClipboard } from "../../components/ClipboardViewer";
+import { luma, toGrayFloat } from "../../lib/image/grayscale";
+import { centralGradient, gaussianBlur, gradientMagnitude, normalize01, normalizeSymmetric, percentile, sobel } from "../../lib/image/filters";
+import { lineIntegralConvolution, orientationDirections, traceStreamlines, vectorDirections } from "../../lib/image/flow";
+import type { Streamline } from "../../lib/image/flow";
+import { CRITICAL_TYPES, findCriticalPoints } from "../../lib/image/critical";
+import type { CriticalType } from "../../lib/image/critical";
+import { detectBlobs, frangiVesselness, hessianAtScale, scaleRange } from "../../lib/image/hessian";
+import type { BlobPolarity, LinePolarity } from "../../lib/image/hessian";
+import { helmholtzHodge } from "../../lib/image/hodge";
+import { advectParticles, seedParticles } from "../../lib/image/particles";
+import type { ParticleSystem } from "../../lib/image/particles";
+import { buildScaleSpace, trackAcrossScales } from "../../lib/image/scalespace";
+import type { ScaleLevel, ScalePoint } from "../../lib/image/scalespace";
+import { resampleBilinear } from "../../lib/image/pyramid";
+import { structureTensor } from "../../lib/image/tensor";
+import { blueRed, colorize, magma, plasma, turbo, viridis } from "../../lib/image/colormaps";
+import type { Colormap } from "../../lib/image/types";
+import { encodeFloatTiff, encodeNpy, encodeNpyText, fieldsToJSON } from "../../lib/image/rawfield";
+import type { NamedFields } from "../../lib/image/rawfield";
+import { zipStore } from "../../lib/zip";
 
 type Vec2 = { x: number; y: number };
 
+type MapMode = "derivative" | "div" | "curl" | "hodge" | "lic" | "streamlines" | "particles";
+type HodgePart = "curlFree" | "divFree" | "harmonic";
+type FlowTint = "none" | "turbo" | "viridis" | "plasma" | "magma";
+type ParticleFollow = "field" | "perpendicular";
+
+/** Frames in a recorded image sequence (3 s at 30 fps). */
+const PARTICLE_FRAMES = 90;
+/** Fields from rawFields() offered one at a time as .npy; the nth derivative is added per order. */
+const RAW_FIELD_NAMES = ["gx", "gy", "div", "curl", "laplacian", "Jxx", "Jxy", "Jyy", "coherence"] as const;
+
+const TINTS: Record<Exclude<FlowTint, "none">, Colormap> = { turbo, viridis, plasma, magma };
+
 type Field = {
   width: number;
   height: number;
@@ -51,24 +83,12 @@ const Lightbox: React.FC<{ src: string; alt?: string; onClose: () => void }> = (
 
 // -------------------- Core Math: Sobel + Divergence/Curl --------------------
 
-function toGrayscale(img: ImageData): Float32Array {
-  const { data, width, height } = img;
-  const out = new Float32Array(width * height);
-  for (let i = 0; i < width * height; i++) {
-    const r = data[i * 4 + 0];
-    const g = data[i * 4 + 1];
-    const b = data[i * 4 + 2];
-    out[i] = 0.299 * r + 0.587 * g + 0.114 * b;
-  }
-  return out;
-}
-
 function getChannel(img: ImageData, ch: "luma"|"r"|"g"|"b"): Float32Array {
   const { data, width, height } = img;
   const out = new Float32Array(width * height);
   if (ch === "luma") {
     for (let i = 0; i < width * height; i++) {
-      out[i] = 0.299 * data[i*4] + 0.587 * data[i*4+1] + 0.114 * data[i*4+2];
+      out[i] = luma(data[i*4], data[i*4+1], data[i*4+2]);
     }
   } else {
     const offset = ch === "r" ? 0 : ch === "g" ? 1 : 2;
@@ -94,31 +114,9 @@ function nthDerivative(gray: Float32Array, w: number, h: number, order: number):
   return curr;
 }
 
-function sobel(gray: Float32Array, width: number, height: number): { gx: Float32Array; gy: Float32Array } {
-  const gx = new Float32Array(width * height);
-  const gy = new Float32Array(width * height);
-  const kx = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
-  const ky = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      let sx = 0, sy = 0; let idx = 0;
-      for (let j = -1; j <= 1; j++) {
-        for (let i = -1; i <= 1; i++) {
-          const p = gray[(y + j) * width + (x + i)];
-          sx += p * kx[idx];
-          sy += p * ky[idx];
-          idx++;
-        }
-      }
-      gx[y * width + x] = sx; gy[y * width + x] = sy;
-    }
-  }
-  return { gx, gy };
-}
-
 function fieldFromImage(img: ImageData, gain = 1.0, smooth = 0): Field {
   const { width, height } = img;
-  const gray = toGrayscale(img);
+  const gray = toGrayFloat(img.data);
   const { gx, gy } = sobel(gray, width, height);
   const u = new Float32Array(gx);
   const v = new Float32Array(gy);
@@ -140,7 +138,7 @@ function fieldFromImage(img: ImageData, gain = 1.0, smooth = 0): Field {
       }
     }
   }
-  for (let i = 0; i < u.length; i++) { u[i] *= gain / 255; v[i] *= gain / 255; }
+  for (let i = 0; i < u.length; i++) { u[i] *= gain; v[i] *= gain; }
   return { width, height, u, v };
 }
 
@@ -174,43 +172,120 @@ function curlZ(field: Field): Float32Array {
 
 // -------------------- Colormaps --------------------
 
-function turboColor(t: number): [number, number, number] { t = clamp01(t); return [c(turbo(0,t)), c(turbo(1,t)), c(turbo(2,t))]; }
-function turbo(channel: 0|1|2, x:number): number { const c0=[0.13572138,0.09140261,0.10667330][channel]; const c1=[4.61539260,2.19418839,1.97214727][channel]; const c2=[-42.66032258,-4.56418214,-31.29901412][channel]; const c3=[132.13108234,13.13828186,82.00982465][channel]; const c4=[-152.94239396,-27.08917800,-107.94342506][channel]; const c5=[59.28637943,14.66861254,44.98632945][channel]; return c0 + x*(c1 + x*(c2 + x*(c3 + x*(c4 + x*(c5))))); }
-function viridisColor(t:number): [number,number,number] { const a=clamp01(t); return [c(0.2803+0.2499*a-1.1759*a*a+0.9212*a*a*a), c(0.1655+1.1661*a-1.1645*a*a+0.1840*a*a*a), c(0.4762+0.3321*a-0.3041*a*a+0.0550*a*a*a)]; }
-function plasmaColor(t:number): [number,number,number] { const a=clamp01(t); return [c(0.050+2.404*a-2.318*a*a+0.864*a*a*a), c(0.030+0.528*a+0.657*a*a-0.214*a*a*a), c(0.527+0.533*a-0.586*a*a+0.324*a*a*a)]; }
-function blueRedDiverging(t:number): [number,number,number] {
-  const a=clamp01(t);
-  if (a<0.5){ const k=a/0.5; return [c(k), c(k), 255]; } else { const k=(a-0.5)/0.5; return [255, c(1-k), c(1-k)]; }
+function scalarToImage(scalar: Float32Array, width: number, symmetric = false, palette: Colormap = turbo): ImageData {
+  const arr = symmetric ? normalizeSymmetric(scalar) : normalize01(scalar);
+  return new ImageData(colorize(arr, palette), width, scalar.length / width);
 }
-function c(x:number){ return Math.round(255*Math.max(0,Math.min(1,x))); }
-function clamp01(x:number){ return Math.max(0,Math.min(1,x)); }
-
-function normalize(data: Float32Array, symmetric = false): { arr: Float32Array; min: number; max: number } {
-  let min = Infinity, max = -Infinity;
-  if (symmetric) {
-    let amax = 0; for (let i=0;i<data.length;i++) amax = Math.max(amax, Math.abs(data[i]));
-    min = -amax; max = amax;
-  } else {
-    for (let i=0;i<data.length;i++){ const v=data[i]; if(v<min)min=v; if(v>max)max=v; }
+
+// -------------------- Flow (LIC / Streamlines) --------------------
+
+/**
+ * Direction field and strength for the flow modes. "grain" follows the structure-tensor
+ * orientation (along edges) with coherence as strength; "gradient" follows ∇I itself.
+ */
+function flowFromImage(img: ImageData, source: "grain" | "gradient", sigma: number) {
+  const { width: W, height: H } = img;
+  const { gx, gy } = sobel(toGrayFloat(img.data), W, H);
+  if (source === "gradient") {
+    return { dirs: vectorDirections(gx, gy, W, H), strength: normalize01(gradientMagnitude(gx, gy)) };
+  }
+  const tensor = computeStructureTensorCalc(gx, gy, W, H, sigma);
+  return { dirs: orientationDirections(tensor.theta, W, H), strength: tensor.coherence };
+}
+
+/** LIC texture, contrast-stretched between its 2nd and 98th percentiles and optionally tinted by strength. */
+function licToImage(lic: Float32Array, strength: Float32Array, width: number, tint: Colormap | null): ImageData {
+  const lo = percentile(lic, 2), hi = percentile(lic, 98);
+  const d = hi - lo > 1e-9 ? hi - lo : 1;
+  const out = new Uint8ClampedArray(lic.length * 4);
+  for (let i = 0; i < lic.length; i++) {
+    const t = Math.max(0, Math.min(1, (lic[i] - lo) / d));
+    const [r, g, b] = tint ? tint(strength[i]) : [255, 255, 255];
+    out[i * 4] = r * t; out[i * 4 + 1] = g * t; out[i * 4 + 2] = b * t; out[i * 4 + 3] = 255;
   }
-  const out = new Float32Array(data.length);
-  const range = max - min || 1;
-  for (let i=0;i<data.length;i++) out[i] = (data[i] - min) / range;
-  return { arr: out, min, max };
+  return new ImageData(out, width, lic.length / width);
 }
 
-function scalarToImage(scalar: Float32Array, width: number, symmetric = false, palette: (t:number)=>[number,number,number] = turboColor): ImageData {
-  const { arr } = normalize(scalar, symmetric);
-  const img = new ImageData(width, scalar.length / width);
-  for (let i=0;i<arr.length;i++){
-    const [r,g,b] = palette(arr[i]);
-    img.data[i*4+0]=r; img.data[i*4+1]=g; img.data[i*4+2]=b; img.data[i*4+3]=255;
+/** Dimmed luma backdrop for streamlines. */
+function dimmedLuma(img: ImageData, level = 0.35): ImageData {
+  const gray = toGrayFloat(img.data);
+  const out = new Uint8ClampedArray(gray.length * 4);
+  for (let i = 0; i < gray.length; i++) {
+    const g = gray[i] * 255 * level;
+    out[i * 4] = g; out[i * 4 + 1] = g; out[i * 4 + 2] = g; out[i * 4 + 3] = 255;
   }
-  return img;
+  return new ImageData(out, img.width, img.height);
+}
+
+function drawStreamlines(
+  ctx: CanvasRenderingContext2D,
+  lines: Streamline[],
+  strength: Float32Array,
+  width: number,
+  opts: { lineWidth: number; alpha: number; tint: Colormap | null }
+) {
+  ctx.save();
+  ctx.lineWidth = opts.lineWidth; ctx.globalAlpha = opts.alpha; ctx.lineCap = "round"; ctx.lineJoin = "round";
+  for (const line of lines) {
+    const p = line.points;
+    // Colour by strength at the line's midpoint
+    const mid = (line.points.length >> 2) << 1;
+    const [r, g, b] = opts.tint ? opts.tint(strength[(p[mid + 1] | 0) * width + (p[mid] | 0)]) : [255, 255, 255];
+    ctx.strokeStyle = `rgb(${r},${g},${b})`;
+    ctx.beginPath();
+    ctx.moveTo(p[0], p[1]);
+    for (let k = 2; k < p.length; k += 2) ctx.lineTo(p[k], p[k + 1]);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * One animation frame of particle advection: fades the existing trails toward transparent,
+ * then draws each particle's step, batched into a few strength bins for the tint.
+ */
+function drawParticleFrame(
+  ctx: CanvasRenderingContext2D,
+  ps: ParticleSystem,
+  field: Field,
+  opts: { speed: number; lifetime: number; reference: number; fade: number; alpha: number; tint: Colormap | null }
+) {
+  const BINS = 8;
+  ctx.save();
+  ctx.globalCompositeOperation = "destination-out";
+  ctx.fillStyle = `rgba(0,0,0,${opts.fade})`;
+  ctx.fillRect(0, 0, ps.width, ps.height);
+  ctx.restore();
+
+  const bins: number[][] = Array.from({ length: BINS }, () => []);
+  advectParticles(ps, field.u, field.v, opts, (x0, y0, x1, y1, strength) => {
+    bins[Math.min(BINS - 1, Math.floor(strength * BINS))].push(x0, y0, x1, y1);
+  });
+
+  ctx.save();
+  ctx.lineWidth = 1; ctx.lineCap = "round"; ctx.globalAlpha = opts.alpha;
+  bins.forEach((seg, b) => {
+    if (!seg.length) return;
+    const [r, g, bl] = opts.tint ? opts.tint((b + 0.5) / BINS) : [255, 255, 255];
+    ctx.strokeStyle = `rgb(${r},${g},${bl})`;
+    ctx.beginPath();
+    for (let k = 0; k < seg.length; k += 4) { ctx.moveTo(seg[k], seg[k + 1]); ctx.lineTo(seg[k + 2], seg[k + 3]); }
+    ctx.stroke();
+  });
+  ctx.restore();
 }
 
 // -------------------- Canvas Helpers --------------------
 
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 function drawImageDataToCanvas(ctx: CanvasRenderingContext2D, img: ImageData) {
   ctx.canvas.width = img.width; ctx.canvas.height = img.height; ctx.putImageData(img, 0, 0);
 }
@@ -257,6 +332,8 @@ const Phase3CPage: React.FC = () => {
   const [croppedResult, setCroppedResult] = useState<{ blob: Blob; dataUrl: string } | null>(null);
   const [showCropMenu, setShowCropMenu] = useState(false);
   const cropMenuRef = useRef<HTMLDivElement>(null);
+  const [showDataMenu, setShowDataMenu] = useState(false);
+  const dataMenuRef = useRef<HTMLDivElement>(null);
   const [clipboardOpen, setClipboardOpen] = useState(false);
 
   // Persisted controls using localStorage - state is remembered across navigation
@@ -266,12 +343,22 @@ const Phase3CPage: React.FC = () => {
     arrowDensity: 12,
     vectorScale: 6,
     arrowAlpha: 0.9,
-    mapMode: "div" as "derivative"|"div"|"curl",
+    mapMode: "div" as MapMode,
     derivativeOrder: 1,
     channelMode: "luma" as "luma"|"r"|"g"|"b",
     showVectors: true,
     cullThreshold: 0.06,
     divPalette: "turbo" as "turbo"|"viridis"|"plasma"|"diverging",
+    flowSource: "grain" as "grain"|"gradient",
+    flowSigma: 3,
+    flowLength: 20,
+    flowTint: "none" as FlowTint,
+    hodgePart: "curlFree" as HodgePart,
+    particleFollow: "field" as ParticleFollow,
+    particleSpeed: 1.5,
+    particleLifetime: 80,
+    particleCount: 3000,
+    particleFade: 0.06,
   });
 
   const symmetric = true; // Always symmetric normalize
@@ -289,6 +376,16 @@ const Phase3CPage: React.FC = () => {
     showVectors,
     cullThreshold,
     divPalette,
+    flowSource,
+    flowSigma,
+    flowLength,
+    flowTint,
+    hodgePart,
+    particleFollow,
+    particleSpeed,
+    particleLifetime,
+    particleCount,
+    particleFade,
   } = persistedState;
 
   // Setters that update the persisted state
@@ -297,12 +394,43 @@ const Phase3CPage: React.FC = () => {
   const setArrowDensity = (v: number) => setPersistedState(p => ({ ...p, arrowDensity: v }));
   const setVectorScale = (v: number) => setPersistedState(p => ({ ...p, vectorScale: v }));
   const setArrowAlpha = (v: number) => setPersistedState(p => ({ ...p, arrowAlpha: v }));
-  const setMapMode = (v: "derivative"|"div"|"curl") => setPersistedState(p => ({ ...p, mapMode: v }));
+  const setMapMode = (v: MapMode) => setPersistedState(p => ({ ...p, mapMode: v }));
   const setDerivativeOrder = (v: number) => setPersistedState(p => ({ ...p, derivativeOrder: v }));
   const setChannelMode = (v: "luma"|"r"|"g"|"b") => setPersistedState(p => ({ ...p, channelMode: v }));
   const setShowVectors = (v: boolean) => setPersistedState(p => ({ ...p, showVectors: v }));
   const setCullThreshold = (v: number) => setPersistedState(p => ({ ...p, cullThreshold: v }));
   const setDivPalette = (v: "turbo"|"viridis"|"plasma"|"diverging") => setPersistedState(p => ({ ...p, divPalette: v }));
+  const setFlowSource = (v: "grain"|"gradient") => setPersistedState(p => ({ ...p, flowSource: v }));
+  const setFlowSigma = (v: number) => setPersistedState(p => ({ ...p, flowSigma: v }));
+  const setFlowLength = (v: number) => setPersistedState(p => ({ ...p, flowLength: v }));
+  const setFlowTint = (v: FlowTint) => setPersistedState(p => ({ ...p, flowTint: v }));
+  const setHodgePart = (v: HodgePart) => setPersistedState(p => ({ ...p, hodgePart: v }));
+  const setParticleFollow = (v: ParticleFollow) => setPersistedState(p => ({ ...p, particleFollow: v }));
+  const setParticleSpeed = (v: number) => setPersistedState(p => ({ ...p, particleSpeed: v }));
+  const setParticleLifetime = (v: number) => setPersistedState(p => ({ ...p, particleLifetime: v }));
+  const setParticleCount = (v: number) => setPersistedState(p => ({ ...p, particleCount: v }));
+  const setParticleFade = (v: number) => setPersistedState(p => ({ ...p, particleFade: v }));
+
+  const [playing, setPlaying] = useState(true);
+  const [recording, setRecording] = useState<null | "webm" | "frames">(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  // Called after each animation frame while recording, to copy the composited frame out.
+  const captureFrameRef = useRef<(() => void) | null>(null);
+
+  // The decomposition is linear, so it is solved once at unit gain and scaled when drawn.
+  const hodge = useMemo(() => {
+    if (mapMode !== "hodge" || !imageData) return null;
+    const f = fieldFromImage(imageData, 1, smooth);
+    return helmholtzHodge(f, f.width, f.height);
+  }, [mapMode, imageData, smooth]);
+
+  // Field for the particle view: ∇I as in Divergence/Curl, or turned 90° to run along edges.
+  const particleField = useMemo(() => {
+    if (mapMode !== "particles" || !imageData) return null;
+    const f = fieldFromImage(imageData, 1, smooth);
+    const field: Field = particleFollow === "perpendicular" ? { ...f, u: f.v.map(x => -x), v: f.u } : f;
+    return { field, reference: percentile(gradientMagnitude(field.u, field.v), 95) };
+  }, [mapMode, imageData, smooth, particleFollow]);
 
   const baseCanvasRef = useRef<HTMLCanvasElement>(null); // hidden - for processing
   const mapCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -355,14 +483,15 @@ const Phase3CPage: React.FC = () => {
     const overlayCanvas = overlayCanvasRef.current!; const overlayCtx = overlayCanvas.getContext("2d")!;
 
     mapCanvas.width = w; mapCanvas.height = h;
-    overlayCanvas.width = w; overlayCanvas.height = h;
-    overlayCtx.clearRect(0, 0, w, h);
+    if (overlayCanvas.width !== w || overlayCanvas.height !== h) { overlayCanvas.width = w; overlayCanvas.height = h; }
+    // The particle loop owns the overlay in that view; clearing it here would cut the trails.
+    if (mapMode !== "particles") overlayCtx.clearRect(0, 0, w, h);
 
     if (mapMode === "derivative") {
       // Derivative mode - use channel and order
       const channel = getChannel(imageData, channelMode);
       const deriv = nthDerivative(channel, w, h, derivativeOrder);
-      const imgData = scalarToImage(deriv, w, false, turboColor);
+      const imgData = scalarToImage(deriv, w, false, turbo);
       mapCtx.putImageData(imgData, 0, 0);
       
       // Draw vectors if enabled
@@ -373,6 +502,32 @@ const Phase3CPage: React.FC = () => {
         const step = Math.max(4, 54 - arrowDensity); // Invert: higher density = lower step = more arrows
         drawArrows(overlayCtx, field, { step, scale: vectorScale, lineWidth: arrowWidth, alpha: arrowAlpha, cullWeak: cullThreshold > 0, cullThreshold });
       }
+    } else if (mapMode === "hodge") {
+      if (!hodge) return;
+      const part = hodge[hodgePart];
+      // Potential for sources/sinks, stream function for swirl, magnitude for the harmonic rest
+      const scalar = hodgePart === "curlFree" ? hodge.potential : hodgePart === "divFree" ? hodge.stream : gradientMagnitude(part.u, part.v);
+      const palette = divPalette === "turbo" ? turbo : divPalette === "viridis" ? viridis : divPalette === "plasma" ? plasma : blueRed;
+      drawImageDataToCanvas(mapCtx, scalarToImage(scalar, w, hodgePart !== "harmonic", palette));
+
+      const scaled: Field = { width: w, height: h, u: part.u.map(x => x * gain), v: part.v.map(x => x * gain) };
+      const arrowWidth = 0.8 + (vectorScale * 0.05);
+      const step = Math.max(4, 54 - arrowDensity);
+      drawArrows(overlayCtx, scaled, { step, scale: vectorScale, lineWidth: arrowWidth, alpha: arrowAlpha, cullWeak: cullThreshold > 0, cullThreshold });
+    } else if (mapMode === "particles") {
+      // Trails are animated on the overlay by the particle loop below.
+      mapCtx.putImageData(dimmedLuma(imageData), 0, 0);
+    } else if (mapMode === "lic" || mapMode === "streamlines") {
+      const { dirs, strength } = flowFromImage(imageData, flowSource, flowSigma);
+      const tint = flowTint === "none" ? null : TINTS[flowTint];
+      if (mapMode === "lic") {
+        mapCtx.putImageData(licToImage(lineIntegralConvolution(dirs, flowLength), strength, w, tint), 0, 0);
+      } else {
+        mapCtx.putImageData(dimmedLuma(imageData), 0, 0);
+        const spacing = Math.max(4, 54 - arrowDensity);
+        const lines = traceStreamlines(dirs, { spacing, maxLength: flowLength, weight: strength, minWeight: cullThreshold });
+        drawStreamlines(overlayCtx, lines, strength, w, { lineWidth: 1.1, alpha: arrowAlpha, tint });
+      }
     } else {
       // Divergence or Curl mode
       const f = fieldFromImage(imageData, gain, smooth);
@@ -380,10 +535,10 @@ const Phase3CPage: React.FC = () => {
       const curl = curlZ(f);
 
       const paletteFn = mapMode === "div"
-        ? (divPalette === "turbo" ? turboColor : divPalette === "viridis" ? viridisColor : divPalette === "plasma" ? plasmaColor : blueRedDiverging)
-        : turboColor;
+        ? (divPalette === "turbo" ? turbo : divPalette === "viridis" ? viridis : divPalette === "plasma" ? plasma : blueRed)
+        : turbo;
 
-      const divId = scalarToImage(div, f.width, symmetric, divPalette === "diverging" ? blueRedDiverging : paletteFn);
+      const divId = scalarToImage(div, f.width, symmetric, divPalette === "diverging" ? blueRed : paletteFn);
       const curlId = scalarToImage(curl, f.width, symmetric, paletteFn);
 
       drawImageDataToCanvas(mapCtx, mapMode === "div" ? divId : curlId);
@@ -399,10 +554,165 @@ const Phase3CPage: React.FC = () => {
     }
   };
 
-  useEffect(() => { recompute(); /* eslint-disable-next-line */ }, [imageData, gain, smooth, arrowDensity, vectorScale, arrowAlpha, mapMode, cullThreshold, divPalette, derivativeOrder, channelMode, showVectors]);
+  useEffect(() => { recompute(); /* eslint-disable-next-line */ }, [imageData, gain, smooth, arrowDensity, vectorScale, arrowAlpha, mapMode, cullThreshold, divPalette, derivativeOrder, channelMode, showVectors, flowSource, flowSigma, flowLength, flowTint, hodge, hodgePart]);
+
+  // Particles are reseeded (and the trails cleared) only for a new field or count; the
+  // frame loop reads the sliders through a ref so tweaking them keeps the animation going.
+  const particlesRef = useRef<ParticleSystem | null>(null);
+  const particleOptsRef = useRef({ speed: particleSpeed, lifetime: particleLifetime, fade: particleFade, alpha: arrowAlpha, tint: flowTint });
+  useEffect(() => {
+    particleOptsRef.current = { speed: particleSpeed, lifetime: particleLifetime, fade: particleFade, alpha: arrowAlpha, tint: flowTint };
+  }, [particleSpeed, particleLifetime, particleFade, arrowAlpha, flowTint]);
+
+  useEffect(() => {
+    if (!particleField) { particlesRef.current = null; return; }
+    const { width: w, height: h } = particleField.field;
+    particlesRef.current = seedParticles(particleCount, w, h, particleOptsRef.current.lifetime);
+    overlayCanvasRef.current?.getContext("2d")?.clearRect(0, 0, w, h);
+  }, [particleField, particleCount]);
+
+  useEffect(() => {
+    if (!particleField || !playing) return;
+    const { field, reference } = particleField;
+    let raf = 0;
+    const frame = () => {
+      const ctx = overlayCanvasRef.current?.getContext("2d");
+      const ps = particlesRef.current;
+      if (ctx && ps) {
+        const { tint, ...opts } = particleOptsRef.current;
+        drawParticleFrame(ctx, ps, field, { ...opts, reference, tint: tint === "none" ? null : TINTS[tint] });
+        captureFrameRef.current?.();
+      }
+      raf = requestAnimationFrame(frame);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(raf);
+  }, [particleField, playing]);
+
+  // Leaving the particle view ends any recording in progress.
+  useEffect(() => {
+    if (mapMode === "particles") return;
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    captureFrameRef.current = null;
+    setRecording(null);
+  }, [mapMode]);
+
+  /** Offscreen canvas that composites the backdrop and the trails for recording. */
+  function recordingCanvas() {
+    const map = mapCanvasRef.current, overlay = overlayCanvasRef.current;
+    if (!map || !overlay) return null;
+    const rec = document.createElement("canvas");
+    rec.width = map.width; rec.height = map.height;
+    const ctx = rec.getContext("2d")!;
+    const composite = () => { ctx.drawImage(map, 0, 0); ctx.drawImage(overlay, 0, 0); };
+    return { rec, composite };
+  }
+
+  function toggleWebM() {
+    if (recording === "webm") { recorderRef.current?.stop(); return; }
+    if (typeof MediaRecorder === "undefined") { alert("Video recording is not supported in this browser"); return; }
+    const target = recordingCanvas();
+    if (!target) return;
+    const { rec, composite } = target;
+    composite();
+    const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find(t => MediaRecorder.isTypeSupported(t));
+    const recorder = new MediaRecorder(rec.captureStream(30), mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+    recorder.onstop = () => {
+      captureFrameRef.current = null;
+      recorderRef.current = null;
+      setRecording(null);
+      downloadBlob(new Blob(chunks, { type: "video/webm" }), `phase3c_particles_${Date.now()}.webm`);
+    };
+    captureFrameRef.current = composite;
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording("webm");
+  }
+
+  function recordFrames() {
+    const target = recordingCanvas();
+    if (!target || recording) return;
+    const { rec, composite } = target;
+    const frames: Promise<Blob | null>[] = [];
+    captureFrameRef.current = () => {
+      composite();
+      frames.push(new Promise(resolve => rec.toBlob(resolve, "image/png")));
+      if (frames.length < PARTICLE_FRAMES) return;
+      captureFrameRef.current = null;
+      Promise.all(frames).then(async (blobs) => {
+        const entries = await Promise.all(blobs.map(async (b, k) => ({
+          name: `frame_${String(k).padStart(4, "0")}.png`,
+          data: new Uint8Array(b ? await b.arrayBuffer() : new ArrayBuffer(0)),
+        })));
+        downloadBlob(zipStore(entries), `phase3c_particles_${Date.now()}.zip`);
+        setRecording(null);
+      });
+    };
+    setRecording("frames");
+  }
+
+  /** Unnormalized float fields behind the maps, with the settings that produced them. */
+  function rawFields(): { fields: NamedFields; meta: Record<string, unknown> } | null {
+    if (!imageData) return null;
+    const { width: w, height: h } = imageData;
+    const f = fieldFromImage(imageData, gain, smooth);
+    const { gx, gy } = sobel(toGrayFloat(imageData.data), w, h);
+    const J = structureTensor(gx, gy, w, h, flowSigma);
+    const deriv = nthDerivative(getChannel(imageData, channelMode), w, h, derivativeOrder);
+    return {
+      fields: {
+        gx: f.u,
+        gy: f.v,
+        div: divergence(f),
+        curl: curlZ(f),
+        laplacian: computeLaplacianCalc(imageData, 1),
+        Jxx: J.Jxx,
+        Jxy: J.Jxy,
+        Jyy: J.Jyy,
+        coherence: J.coherence,
+        [`derivative_${derivativeOrder}`]: deriv,
+      },
+      meta: {
+        source: "differentials",
+        gain,
+        smooth,
+        tensorSigma: flowSigma,
+        laplacianSigma: 1,
+        channel: channelMode,
+        derivativeOrder,
+        notes: "gx/gy are Sobel gradients of luma in 0..1 (times gain); the derivative uses the selected channel in 0..255",
+      },
+    };
+  }
+
+  /** `field` picks the one array for "npy"; the other formats carry every field. */
+  function exportData(format: "npy" | "npz" | "tiff" | "json", field?: string) {
+    const raw = rawFields();
+    if (!raw || !imageData) return;
+    const { width: w, height: h } = imageData;
+    const { fields, meta } = raw;
+    const names = Object.keys(fields);
+    const metaText = JSON.stringify({ width: w, height: h, dtype: "float32", fields: names, ...meta }, null, 2);
+    if (format === "npy") {
+      if (!field || !fields[field]) return;
+      downloadBlob(new Blob([encodeNpy(fields[field], w, h) as BlobPart], { type: "application/octet-stream" }), `phase3c_${field}.npy`);
+    } else if (format === "npz") {
+      // A zip of .npy files is what np.load reads as an .npz archive; the metadata is a string array too.
+      const entries = names.map(n => ({ name: `${n}.npy`, data: encodeNpy(fields[n], w, h) }));
+      downloadBlob(zipStore([...entries, { name: "metadata.npy", data: encodeNpyText(metaText) }]), "phase3c_fields.npz");
+    } else if (format === "tiff") {
+      const entries = names.map(n => ({ name: `${n}.tif`, data: encodeFloatTiff(fields[n], w, h, JSON.stringify({ field: n, ...meta })) }));
+      downloadBlob(zipStore([...entries, { name: "metadata.json", data: new TextEncoder().encode(metaText) }]), "phase3c_fields_tiff.zip");
+    } else {
+      downloadBlob(new Blob([fieldsToJSON(fields, w, h, meta)], { type: "application/json" }), "phase3c_fields.json");
+    }
+    setShowDataMenu(false);
+  }
 
   function exportPNG(){ const c = mapCanvasRef.current; if(!c) return; const a = document.createElement("a"); a.href=c.toDataURL("image/png"); a.download=`phase3c_${mapMode}.png`; a.click(); }
-  function reset(){ setGain(1.25); setSmooth(1); setArrowDensity(12); setVectorScale(6); setArrowAlpha(0.9); setMapMode("div"); setCullThreshold(0.06); setDivPalette("turbo"); setDerivativeOrder(1); setChannelMode("luma"); setShowVectors(true); }
+  function reset(){ setGain(1.25); setSmooth(1); setArrowDensity(12); setVectorScale(6); setArrowAlpha(0.9); setMapMode("div"); setCullThreshold(0.06); setDivPalette("turbo"); setDerivativeOrder(1); setChannelMode("luma"); setShowVectors(true); setFlowSource("grain"); setFlowSigma(3); setFlowLength(20); setFlowTint("none"); setHodgePart("curlFree"); setParticleFollow("field"); setParticleSpeed(1.5); setParticleLifetime(80); setParticleCount(3000); setParticleFade(0.06); }
 
   // Close crop menu when clicking outside
   useEffect(() => {
@@ -410,6 +720,9 @@ const Phase3CPage: React.FC = () => {
       if (cropMenuRef.current && !cropMenuRef.current.contains(e.target as Node)) {
         setShowCropMenu(false);
       }
+      if (dataMenuRef.current && !dataMenuRef.current.contains(e.target as Node)) {
+        setShowDataMenu(false);
+      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
@@ -474,10 +787,14 @@ const Phase3CPage: React.FC = () => {
 
                   {/* Toggles */}
                   <div className="space-y-2">
-                    <ToggleGroup label="Map" value={mapMode} onChange={(v)=>setMapMode(v as any)} options={[
+                    <Select label="Map" value={mapMode} onChange={(v)=>setMapMode(v as MapMode)} options={[
                       {value:"derivative", label:"Derivative"},
                       {value:"div", label:"Divergence"},
-                      {value:"curl", label:"Curl (z)"}
+                      {value:"curl", label:"Curl (z)"},
+                      {value:"hodge", label:"Helmholtz–Hodge"},
+                      {value:"lic", label:"Flow (LIC)"},
+                      {value:"streamlines", label:"Streamlines"},
+                      {value:"particles", label:"Particles (live)"}
                     ]} />
                     {mapMode === "derivative" && (
                       <>
@@ -490,14 +807,49 @@ const Phase3CPage: React.FC = () => {
                         <Toggle label="Show Vectors" checked={showVectors} onChange={setShowVectors} />
                       </>
                     )}
-                    {mapMode === "div" && (
-                      <ToggleGroup label="Div Colormap" value={divPalette} onChange={(v)=>setDivPalette(v as any)} options={[
+                    {mapMode === "hodge" && (
+                      <ToggleGroup label="Component" value={hodgePart} onChange={(v)=>setHodgePart(v as HodgePart)} options={[
+                        {value:"curlFree", label:"Curl-free"},
+                        {value:"divFree", label:"Div-free"},
+                        {value:"harmonic", label:"Harmonic"}
+                      ]} />
+                    )}
+                    {(mapMode === "div" || mapMode === "hodge") && (
+                      <ToggleGroup label={mapMode === "div" ? "Div Colormap" : "Colormap"} value={divPalette} onChange={(v)=>setDivPalette(v as any)} options={[
                         {value:"turbo", label:"Turbo"},
                         {value:"viridis", label:"Viridis"},
                         {value:"plasma", label:"Plasma"},
                         {value:"diverging", label:"Blue↔Red"}
                       ]} />
                     )}
+                    {mapMode === "particles" && (
+                      <>
+                        <ToggleGroup label="Follow" value={particleFollow} onChange={(v)=>setParticleFollow(v as ParticleFollow)} options={[
+                          {value:"field", label:"Field (gx, gy)"},
+                          {value:"perpendicular", label:"Perpendicular"}
+                        ]} />
+                        <button onClick={() => setPlaying(!playing)} className="inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700">
+                          {playing ? <><Pause className="h-3.5 w-3.5"/>Pause</> : <><Play className="h-3.5 w-3.5"/>Play</>}
+                        </button>
+                      </>
+                    )}
+                    {(mapMode === "lic" || mapMode === "streamlines" || mapMode === "particles") && (
+                      <>
+                        {mapMode !== "particles" && (
+                          <ToggleGroup label="Follow" value={flowSource} onChange={(v)=>setFlowSource(v as any)} options={[
+                            {value:"grain", label:"Grain (tensor)"},
+                            {value:"gradient", label:"Gradient"}
+                          ]} />
+                        )}
+                        <Select label="Tint" value={flowTint} onChange={(v)=>setFlowTint(v as FlowTint)} options={[
+                          {value:"none", label:"None"},
+                          {value:"turbo", label:"Turbo"},
+                          {value:"viridis", label:"Viridis"},
+                          {value:"plasma", label:"Plasma"},
+                          {value:"magma", label:"Magma"}
+                        ]} />
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -517,6 +869,29 @@ const Phase3CPage: React.FC = () => {
                         </>
                       )}
                     </>
+                  ) : mapMode === "particles" ? (
+                    <>
+                      <Slider label={`Smooth (${smooth})`} min={0} max={4} step={1} value={smooth} onChange={setSmooth} />
+                      <Slider label={`Speed (${particleSpeed.toFixed(2)} px/frame)`} min={0.25} max={4} step={0.25} value={particleSpeed} onChange={setParticleSpeed} />
+                      <Slider label={`Lifetime (${particleLifetime} frames)`} min={10} max={300} step={10} value={particleLifetime} onChange={setParticleLifetime} />
+                      <Slider label={`Particles (${particleCount})`} min={500} max={10000} step={500} value={particleCount} onChange={setParticleCount} />
+                      <Slider label={`Trail fade (${particleFade.toFixed(2)})`} min={0.01} max={0.3} step={0.01} value={particleFade} onChange={setParticleFade} />
+                      <Slider label={`Alpha (${arrowAlpha.toFixed(2)})`} min={0.2} max={1} step={0.05} value={arrowAlpha} onChange={setArrowAlpha} />
+                    </>
+                  ) : mapMode === "lic" || mapMode === "streamlines" ? (
+                    <>
+                      {flowSource === "grain" && (
+                        <Slider label={`Tensor σ (${flowSigma.toFixed(1)})`} min={0.5} max={8} step={0.5} value={flowSigma} onChange={setFlowSigma} />
+                      )}
+                      <Slider label={`Length (${flowLength})`} min={4} max={80} step={1} value={flowLength} onChange={setFlowLength} />
+                      {mapMode === "streamlines" && (
+                        <>
+                          <Slider label={`Density (${arrowDensity})`} min={6} max={48} step={2} value={arrowDensity} onChange={setArrowDensity} />
+                          <Slider label={`Alpha (${arrowAlpha.toFixed(2)})`} min={0.2} max={1} step={0.05} value={arrowAlpha} onChange={setArrowAlpha} />
+                          <Slider label={`Min strength (${cullThreshold.toFixed(2)})`} min={0} max={1} step={0.01} value={cullThreshold} onChange={setCullThreshold} />
+                        </>
+                      )}
+                    </>
                   ) : (
                     <>
                       <Slider label={`Gain (${gain.toFixed(2)})`} min={0.25} max={4} step={0.05} value={gain} onChange={setGain} />
@@ -596,6 +971,47 @@ const Phase3CPage: React.FC = () => {
                       </div>
                     )}
                   </div>
+                  <div className="relative" ref={dataMenuRef}>
+                    <button
+                      onClick={() => setShowDataMenu(!showDataMenu)}
+                      disabled={!imageData}
+                      className="inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700 disabled:opacity-50"
+                    >
+                      <Download className="h-3.5 w-3.5"/>Data
+                    </button>
+                    {showDataMenu && (
+                      <div className="absolute right-0 z-50 mt-2 w-56 rounded-xl border border-neutral-800 bg-neutral-900 shadow-xl overflow-hidden">
+                        <div className="px-3 pt-2 pb-1 text-[10px] text-neutral-500">gx, gy, div, curl, Laplacian, structure tensor, derivative</div>
+                        <div className="px-3 py-2">
+                          <div className="text-sm text-neutral-100 mb-1.5">NumPy .npy (one field)</div>
+                          <div className="flex flex-wrap gap-1">
+                            {[...RAW_FIELD_NAMES, `derivative_${derivativeOrder}`].map(n => (
+                              <button key={n} onClick={() => exportData("npy", n)} className="text-[11px] px-1.5 py-0.5 rounded-md bg-neutral-800 border border-neutral-700 text-neutral-200 hover:bg-neutral-700">{n}</button>
+                            ))}
+                          </div>
+                        </div>
+                        <button onClick={() => exportData("npz")} className="w-full text-left px-3 py-2 text-sm text-neutral-100 hover:bg-neutral-800">
+                          NumPy .npz (all fields as .npy + metadata)
+                        </button>
+                        <button onClick={() => exportData("tiff")} className="w-full text-left px-3 py-2 text-sm text-neutral-100 hover:bg-neutral-800">
+                          32-bit float TIFF (.zip)
+                        </button>
+                        <button onClick={() => exportData("json")} className="w-full text-left px-3 py-2 text-sm text-neutral-100 hover:bg-neutral-800">
+                          JSON
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {mapMode === "particles" && (
+                    <>
+                      <button onClick={toggleWebM} disabled={!particleField || !playing || recording === "frames"} className={`inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl border disabled:opacity-50 ${recording === "webm" ? "bg-red-900/60 border-red-700 hover:bg-red-900" : "bg-neutral-800 border-neutral-700 hover:bg-neutral-700"}`}>
+                        <Video className="h-3.5 w-3.5"/>{recording === "webm" ? "Stop" : "WebM"}
+                      </button>
+                      <button onClick={recordFrames} disabled={!particleField || !playing || recording !== null} className="inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700 disabled:opacity-50">
+                        <Film className="h-3.5 w-3.5"/>{recording === "frames" ? "Recording…" : `${PARTICLE_FRAMES} frames`}
+                      </button>
+                    </>
+                  )}
                   <button onClick={exportPNG} className="inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700">
                     <Download className="h-3.5 w-3.5"/>PNG
                   </button>
@@ -622,6 +1038,11 @@ const Phase3CPage: React.FC = () => {
                     <canvas ref={overlayCanvasRef} className="pointer-events-none absolute inset-0 w-full h-full rounded-xl" />
                   </>
                 )}
+                {hodge && !cropMode && (
+                  <div className="absolute top-2 left-2 text-[11px] px-2 py-1 rounded-lg bg-black/60 border border-neutral-700 text-neutral-300">
+                    Energy · curl-free {(hodge.energy.curlFree * 100).toFixed(0)}% · div-free {(hodge.energy.divFree * 100).toFixed(0)}% · harmonic {(hodge.energy.harmonic * 100).toFixed(0)}%
+                  </div>
+                )}
                 {imageData && !cropMode && (
                   <button onClick={() => setShowLightbox(mapCanvasRef.current?.toDataURL("image/png") || "")} className="absolute bottom-2 right-2 inline-flex items-center gap-1.5 text-xs px-2 py-1 rounded-lg bg-black/60 border border-neutral-700 hover:bg-black/70">
                     <Maximize2 className="h-3.5 w-3.5"/> Expand
@@ -722,7 +1143,8 @@ function CalculusLabSection() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   // Controls
-  const [sigma, setSigma] = useState(1.5);
+  const [scaleIndex, setScaleIndex] = useState(DEFAULT_SCALE_INDEX_CALC);
+  const sigma = scaleSigmaCalc(scaleIndex);
   const [topPercent, setTopPercent] = useState(10);
   const [multiscale, setMultiscale] = useState(true);
   const [zPos, setZPos] = useState(1.5);
@@ -739,6 +1161,20 @@ function CalculusLabSection() {
   const [showCenter, setShowCenter] = useState(true);
   const [showSourcesSinks, setShowSourcesSinks] = useState(true);
   const [showTension, setShowTension] = useState(true);
+  const [showLaplacian, setShowLaplacian] = useState(false);
+  const [showLifetimes, setShowLifetimes] = useState(false);
+  const [hessianMap, setHessianMap] = useState<HessianMapCalc>("none");
+  const [linePolarity, setLinePolarity] = useState<LinePolarity>("ridge");
+  const [showBlobs, setShowBlobs] = useState(false);
+  const [blobMethod, setBlobMethod] = useState<"log" | "dog">("log");
+  const [blobPolarity, setBlobPolarity] = useState<BlobPolarity>("both");
+  const [scaleMin, setScaleMin] = useState(2);
+  const [scaleMax, setScaleMax] = useState(16);
+  const [blobThreshold, setBlobThreshold] = useState(0.3);
+  const [showCritical, setShowCritical] = useState(false);
+  const [critSigma, setCritSigma] = useState(3);
+  const [critRotation, setCritRotation] = useState(0);
+  const [critMinStrength, setCritMinStrength] = useState(0.05);
   const [clipboardOpen2, setClipboardOpen2] = useState(false);
 
   function handleFile(file: File) {
@@ -793,49 +1229,91 @@ function CalculusLabSection() {
     setImageData(id);
   }, [imgEl]);
 
-  const metrics = useMemo(() => {
-    if (!imageData) return null;
-    const { width: W, height: H } = imageData;
+  const gray = useMemo(() => (imageData ? toGrayFloat(imageData.data) : null), [imageData]);
 
-    const { Ix, Iy, mag } = computeGradientsCalc(imageData, sigma);
-    const lap = computeLaplacianCalc(imageData, sigma);
-    const logPos = new Float32Array(W * H);
-    for (let i = 0; i < lap.length; i++) logPos[i] = Math.max(0, lap[i]);
+  // Scale space is built once per image; the attention maps once per level and weight set.
+  // Scrubbing σ then only upsamples the chosen level's maps.
+  const space = useMemo(() => {
+    if (!gray || !imageData) return null;
+    return buildScaleSpace({ data: gray, width: imageData.width, height: imageData.height }, SCALE_SPACE_CALC);
+  }, [gray, imageData]);
 
-    const tensor = computeStructureTensorCalc(Ix, Iy, W, H, sigma);
-    const corner = tensor.corner;
+  const stack = useMemo(() => {
+    if (!space) return null;
+    return space.levels.map(level => scaleMapsCalc(level, { w1, w2, w3, w4, w5 }));
+  }, [space, w1, w2, w3, w4, w5]);
 
-    const gradSmooth = gaussianBlurCalc(mag, W, H, sigma);
-    const homogeneity = new Float32Array(W * H);
-    const gnorm = normalize01Calc(gradSmooth);
-    for (let i = 0; i < homogeneity.length; i++) homogeneity[i] = 1 - gnorm[i];
-
-    const colorContrast = normalize01Calc(mag);
-
-    const phi = composeAttentionalPotentialCalc(
-      {
-        grad: normalize01Calc(mag),
-        logPos: normalize01Calc(logPos),
-        corners: normalize01Calc(corner),
-        colorContrast: normalize01Calc(colorContrast),
-        homogeneity: normalize01Calc(homogeneity),
-      },
-      { w1, w2, w3, w4, w5 }
-    );
-
-    return { W, H, mag, Ix, Iy, lap, logPos, corner, homogeneity, colorContrast, phi };
-  }, [imageData, sigma, w1, w2, w3, w4, w5]);
+  const metrics = useMemo(() => {
+    if (!space || !stack) return null;
+    const { width: W, height: H } = space;
+    const k = Math.min(scaleIndex, stack.length - 1);
+    const m = stack[k];
+    const up = (f: FieldCalc) => resampleBilinear(f, m.width, m.height, W, H);
+    const lap = up(m.lap);
+    const logPos = new Float32Array(W * H);
+    for (let i = 0; i < lap.length; i++) logPos[i] = Math.max(0, lap[i]);
+    return {
+      W, H, level: k,
+      mag: up(m.mag), lap, logPos, corner: up(m.corner), homogeneity: up(m.homogeneity), colorContrast: up(m.colorContrast), phi: up(m.phi),
+      // φ one and two octaves coarser, for the multiscale attention center
+      coarser: [k + SCALE_SPACE_CALC.perOctave, k + 2 * SCALE_SPACE_CALC.perOctave].map(j => {
+        const c = stack[Math.min(j, stack.length - 1)];
+        return resampleBilinear(c.phi, c.width, c.height, W, H);
+      }),
+    };
+  }, [space, stack, scaleIndex]);
+
+  // Hotspot maxima at every level, linked across scales; long tracks are robust hotspots.
+  const tracks = useMemo(() => {
+    if (!space || !stack) return null;
+    const features = stack.map((m, k) => hotspotMaximaCalc(m.phi, space.levels[k], { topPercent, nmsRadius: nmsR, maxPoints: maxMarkers }));
+    return trackAcrossScales(space, features, s => Math.max(nmsR, 2 * s), SCALE_SPACE_CALC.perOctave);
+  }, [space, stack, topPercent, nmsR, maxMarkers]);
+
+  // Critical points of ∇φ, turned by the rotation angle: 0° keeps the gradient (sources, sinks,
+  // saddles), 90° follows the iso-contours (centers), in between extrema become spirals.
+  const critical = useMemo(() => {
+    if (!metrics) return null;
+    const { W, H, phi } = metrics;
+    const { gx, gy } = centralGradient(gaussianBlur(phi, W, H, critSigma), W, H);
+    const a = (critRotation * Math.PI) / 180, c = Math.cos(a), s = Math.sin(a);
+    const u = new Float32Array(W * H), v = new Float32Array(W * H);
+    for (let i = 0; i < u.length; i++) {
+      u[i] = c * gx[i] - s * gy[i];
+      v[i] = s * gx[i] + c * gy[i];
+    }
+    return findCriticalPoints(u, v, W, H, { minStrength: critMinStrength, nmsRadius: nmsR, maxPoints: maxMarkers });
+  }, [metrics, critSigma, critRotation, critMinStrength, nmsR, maxMarkers]);
 
   const overlays = useMemo(() => {
-    if (!metrics) return null;
+    if (!metrics || !critical) return null;
     const { W, H, mag, corner, phi } = metrics;
 
-    const center = computeAttentionCenterCalc(phi, W, H, { topPercent, multiscale });
+    const center = computeAttentionCenterCalc(multiscale ? [phi, ...metrics.coarser] : [phi], W, H, { topPercent });
     const ss = findSourcesSinksCalc(phi, W, H, { zPos, zNeg, nmsRadius: nmsR, maxPoints: maxMarkers });
-    const tension = greatestAestheticTensionCalc(mag, corner, phi, W, H, { w1: 0.5, w2: 0.3, w3: 0.2, nmsRadius: nmsR });
+    // Rotation leaves det J unchanged, so the saddles are those of ∇φ at any angle.
+    const saddles = critical.filter(p => p.type === "saddle");
+    const tension = greatestAestheticTensionCalc(mag, corner, phi, W, H, { w1: 0.5, w2: 0.3, w3: 0.2, nmsRadius: nmsR, saddles });
 
     return { center, ss, tension };
-  }, [metrics, topPercent, multiscale, zPos, zNeg, nmsR, maxMarkers]);
+  }, [metrics, critical, topPercent, multiscale, zPos, zNeg, nmsR, maxMarkers]);
+
+  // Second-order features run on their own scale range, independent of the scale σ above.
+  const scales = useMemo(() => scaleRange(scaleMin, Math.max(scaleMin, scaleMax), HESSIAN_LEVELS_CALC), [scaleMin, scaleMax]);
+
+  const hessianField = useMemo(() => {
+    if (!gray || !imageData || hessianMap === "none") return null;
+    const { width: W, height: H } = imageData;
+    if (hessianMap === "vesselness") return normalize01(frangiVesselness(gray, W, H, { scales, polarity: linePolarity }).vesselness);
+    const { l1, l2 } = hessianAtScale(gray, W, H, sigma);
+    return normalizeSymmetric(hessianMap === "l1" ? l1 : l2);
+  }, [gray, imageData, hessianMap, linePolarity, scales, sigma]);
+
+  const blobs = useMemo(() => {
+    if (!gray || !imageData || !showBlobs) return null;
+    const { width: W, height: H } = imageData;
+    return detectBlobs(gray, W, H, { scales, method: blobMethod, polarity: blobPolarity, threshold: blobThreshold, maxBlobs: maxMarkers });
+  }, [gray, imageData, showBlobs, scales, blobMethod, blobPolarity, blobThreshold, maxMarkers]);
 
   useEffect(() => {
     const cvs = canvasRef.current; if (!cvs || !metrics || !imageData) return;
@@ -846,14 +1324,20 @@ function CalculusLabSection() {
     ctx.putImageData(imageData, 0, 0);
 
     if (showEdges) {
-      drawHeatmapCalc(ctx, normalize01Calc(mag), W, H, { alpha: 0.35 });
+      drawHeatmapCalc(ctx, normalize01(mag), W, H, { alpha: 0.35 });
     }
     if (showHotspots) {
-      const thr = percentileCalc(phi, 100 - topPercent);
+      const thr = percentile(phi, 100 - topPercent);
       const mask = new Float32Array(W * H);
       for (let i = 0; i < phi.length; i++) mask[i] = phi[i] >= thr ? phi[i] : 0;
       drawHeatmapCalc(ctx, mask, W, H, { alpha: 0.4 });
     }
+    if (showLaplacian) {
+      drawHeatmapCalc(ctx, normalizeSymmetric(metrics.lap), W, H, { alpha: 0.5, palette: blueRed });
+    }
+    if (hessianField) {
+      drawHeatmapCalc(ctx, hessianField, W, H, { alpha: 0.6, palette: hessianMap === "vesselness" ? turbo : blueRed });
+    }
 
     if (overlays) {
       if (showCenter) drawCrosshairCalc(ctx, overlays.center.x, overlays.center.y, { ringRadius: Math.max(6, overlays.center.radius), color: "#F5C84B" });
@@ -865,7 +1349,29 @@ function CalculusLabSection() {
         drawGlyphsCalc(ctx, [{ x: overlays.tension.x, y: overlays.tension.y, z: overlays.tension.tau }], { color: "#FF3333", shape: "bolt" });
       }
     }
-  }, [metrics, overlays, imageData, showEdges, showHotspots, showCenter, showSourcesSinks, showTension, topPercent]);
+    if (critical && showCritical) {
+      const top = critical.reduce((m, p) => Math.max(m, p.strength), 0) || 1;
+      for (const type of CRITICAL_TYPES) {
+        const pts = critical.filter(p => p.type === type).map(p => ({ x: p.x, y: p.y, z: (3 * p.strength) / top }));
+        drawGlyphsCalc(ctx, pts, CRITICAL_STYLE_CALC[type]);
+      }
+    }
+    if (blobs) {
+      drawGlyphsCalc(ctx, blobs.filter(b => b.response > 0).map(b => ({ x: b.x, y: b.y, r: b.radius })), { color: "#F5C84B", shape: "circle" });
+      drawGlyphsCalc(ctx, blobs.filter(b => b.response < 0).map(b => ({ x: b.x, y: b.y, r: b.radius })), { color: "#A78BFA", shape: "circle" });
+    }
+    if (tracks && showLifetimes) {
+      // Hotspots alive at this scale, brighter the more octaves they persist over
+      const buckets = LIFETIME_STYLE_CALC.map(() => [] as { x: number; y: number; r: number }[]);
+      for (const t of tracks) {
+        if (t.birth > metrics.level || t.death < metrics.level) continue;
+        const b = LIFETIME_STYLE_CALC.reduce((acc, [minLife], j) => (t.lifetime >= minLife ? j : acc), 0);
+        const p = t.points[metrics.level - t.birth];
+        buckets[b].push({ x: p.x, y: p.y, r: Math.max(4, p.sigma * Math.SQRT2) });
+      }
+      buckets.forEach((pts, b) => drawGlyphsCalc(ctx, pts, { color: LIFETIME_STYLE_CALC[b][1], shape: "circle" }));
+    }
+  }, [metrics, overlays, imageData, showEdges, showHotspots, showLaplacian, showCenter, showSourcesSinks, showTension, topPercent, hessianField, hessianMap, blobs, critical, showCritical, tracks, showLifetimes]);
 
   function exportPNG() {
     const c = canvasRef.current;
@@ -876,8 +1382,25 @@ function CalculusLabSection() {
     a.click();
   }
 
+  function exportCritical() {
+    if (!metrics || !critical) return;
+    const payload = {
+      width: metrics.W,
+      height: metrics.H,
+      field: { smoothing: critSigma, rotation: critRotation, minStrength: critMinStrength },
+      points: critical,
+    };
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "critical-points.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
   function reset() {
-    setSigma(1.5);
+    setScaleIndex(DEFAULT_SCALE_INDEX_CALC);
     setTopPercent(10);
     setMultiscale(true);
     setZPos(1.5);
@@ -894,6 +1417,20 @@ function CalculusLabSection() {
     setShowCenter(true);
     setShowSourcesSinks(true);
     setShowTension(true);
+    setShowLaplacian(false);
+    setShowLifetimes(false);
+    setHessianMap("none");
+    setLinePolarity("ridge");
+    setShowBlobs(false);
+    setBlobMethod("log");
+    setBlobPolarity("both");
+    setScaleMin(2);
+    setScaleMax(16);
+    setBlobThreshold(0.3);
+    setShowCritical(false);
+    setCritSigma(3);
+    setCritRotation(0);
+    setCritMinStrength(0.05);
   }
 
   return (
@@ -956,9 +1493,13 @@ function CalculusLabSection() {
                     <div className="text-xs text-neutral-300 mb-1">Overlays</div>
                     <Toggle label="Edges" checked={showEdges} onChange={setShowEdges} />
                     <Toggle label="Hotspots" checked={showHotspots} onChange={setShowHotspots} />
+                    <Toggle label="Laplacian" checked={showLaplacian} onChange={setShowLaplacian} />
+                    <Toggle label="Hotspot lifetimes" checked={showLifetimes} onChange={setShowLifetimes} />
                     <Toggle label="Center" checked={showCenter} onChange={setShowCenter} />
                     <Toggle label="Sources/Sinks" checked={showSourcesSinks} onChange={setShowSourcesSinks} />
                     <Toggle label="Tension" checked={showTension} onChange={setShowTension} />
+                    <Toggle label="Blobs" checked={showBlobs} onChange={setShowBlobs} />
+                    <Toggle label="Critical points" checked={showCritical} onChange={setShowCritical} />
                   </div>
                 </div>
 
@@ -966,7 +1507,7 @@ function CalculusLabSection() {
 
                 {/* Core params */}
                 <div className="grid grid-cols-2 gap-x-3 gap-y-2">
-                  <Slider label={`Smooth σ (${sigma.toFixed(1)})`} min={0.8} max={3.0} step={0.1} value={sigma} onChange={setSigma} />
+                  <Slider label={`Scale σ (${sigma.toFixed(2)})`} min={0} max={SCALE_LEVELS_CALC - 1} step={1} value={scaleIndex} onChange={setScaleIndex} />
                   <Slider label={`Top % (${topPercent})`} min={2} max={20} step={1} value={topPercent} onChange={setTopPercent} />
                   <Slider label={`NMS radius (${nmsR})`} min={3} max={15} step={1} value={nmsR} onChange={setNmsR} />
                   <Slider label={`Max markers (${maxMarkers})`} min={10} max={100} step={5} value={maxMarkers} onChange={setMaxMarkers} />
@@ -974,6 +1515,51 @@ function CalculusLabSection() {
 
                 <div className="h-px bg-neutral-800" />
 
+                {/* Hessian: ridge/valley maps and scale-selected blobs */}
+                <div>
+                  <div className="text-xs text-neutral-300 mb-2">Hessian</div>
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+                    <Select label="Map" value={hessianMap} onChange={(v)=>setHessianMap(v as HessianMapCalc)} options={[
+                      { value: "none", label: "None" },
+                      { value: "l1", label: "λ₁ (along structure)" },
+                      { value: "l2", label: "λ₂ (across structure)" },
+                      { value: "vesselness", label: "Vesselness (Frangi)" },
+                    ]} />
+                    {hessianMap === "vesselness" && (
+                      <ToggleGroup label="Lines" value={linePolarity} onChange={(v)=>setLinePolarity(v as LinePolarity)} options={[
+                        { value: "ridge", label: "Bright" },
+                        { value: "valley", label: "Dark" },
+                      ]} />
+                    )}
+                    <Slider label={`Scale σ min (${scaleMin.toFixed(1)})`} min={1} max={8} step={0.5} value={scaleMin} onChange={setScaleMin} />
+                    <Slider label={`Scale σ max (${scaleMax.toFixed(0)})`} min={4} max={32} step={1} value={scaleMax} onChange={setScaleMax} />
+                    <ToggleGroup label="Blob detector" value={blobMethod} onChange={(v)=>setBlobMethod(v as "log" | "dog")} options={[
+                      { value: "log", label: "LoG" },
+                      { value: "dog", label: "DoG" },
+                    ]} />
+                    <ToggleGroup label="Blob polarity" value={blobPolarity} onChange={(v)=>setBlobPolarity(v as BlobPolarity)} options={[
+                      { value: "bright", label: "Bright" },
+                      { value: "dark", label: "Dark" },
+                      { value: "both", label: "Both" },
+                    ]} />
+                    <Slider label={`Blob threshold (${blobThreshold.toFixed(2)})`} min={0.05} max={0.8} step={0.05} value={blobThreshold} onChange={setBlobThreshold} />
+                  </div>
+                </div>
+
+                <div className="h-px bg-neutral-800" />
+
+                {/* Critical points of the attention gradient */}
+                <div>
+                  <div className="text-xs text-neutral-300 mb-2">Critical Points of ∇φ</div>
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+                    <Slider label={`Field σ (${critSigma.toFixed(1)})`} min={1} max={8} step={0.5} value={critSigma} onChange={setCritSigma} />
+                    <Slider label={`Rotation (${critRotation}°)`} min={0} max={90} step={5} value={critRotation} onChange={setCritRotation} />
+                    <Slider label={`Min strength (${critMinStrength.toFixed(2)})`} min={0} max={0.5} step={0.01} value={critMinStrength} onChange={setCritMinStrength} />
+                  </div>
+                </div>
+
+                <div className="h-px bg-neutral-800" />
+
                 {/* Attention weights */}
                 <div>
                   <div className="text-xs text-neutral-300 mb-2">Attention Weights</div>
@@ -995,16 +1581,54 @@ function CalculusLabSection() {
 
           {/* Right: Output */}
           <div className="space-y-6">
-            <Panel title="Output" right={<button onClick={exportPNG} className="inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700"><Download className="h-3.5 w-3.5"/>PNG</button>}>
+            <Panel title="Output" right={
+              <div className="flex items-center gap-2">
+                <button onClick={exportCritical} disabled={!critical} className="inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700 disabled:opacity-50"><Download className="h-3.5 w-3.5"/>Critical JSON</button>
+                <button onClick={exportPNG} className="inline-flex items-center gap-2 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700"><Download className="h-3.5 w-3.5"/>PNG</button>
+              </div>
+            }>
               <div className="relative">
                 <canvas ref={canvasRef} className="w-full rounded-xl border border-neutral-800 bg-black/40 select-none" style={{maxWidth: '100%', height: 'auto'}} />
                 {metrics && (
                   <div className="mt-2 text-xs text-neutral-500">
                     {metrics.W} × {metrics.H}px
+                    {blobs && <> · {blobs.length} blob{blobs.length === 1 ? "" : "s"} (σ {scales[0].toFixed(1)}–{scales[scales.length - 1].toFixed(1)}, r = σ√2)</>}
+                    {overlays && <> · tension {overlays.tension.fromSaddle ? "at strongest-τ saddle" : "at τ maximum (no saddle)"}</>}
+                  </div>
+                )}
+                {critical && showCritical && (
+                  <div className="mt-1 flex flex-wrap gap-x-3 text-xs">
+                    {CRITICAL_TYPES.map(type => (
+                      <span key={type} style={{ color: CRITICAL_STYLE_CALC[type].color }}>
+                        {type} {critical.filter(p => p.type === type).length}
+                      </span>
+                    ))}
                   </div>
                 )}
               </div>
             </Panel>
+            {tracks && tracks.length > 0 && (
+              <Panel title="Hotspot Lifetimes" right={<span className="text-xs text-neutral-500">{tracks.length} tracks · σ {scaleSigmaCalc(0).toFixed(0)}–{scaleSigmaCalc(SCALE_LEVELS_CALC - 1).toFixed(0)}</span>}>
+                <div className="space-y-1 text-xs">
+                  {tracks.slice(0, 8).map((t, k) => {
+                    const p = t.points[0];
+                    const alive = metrics ? t.birth <= metrics.level && t.death >= metrics.level : false;
+                    return (
+                      <button
+                        key={k}
+                        onClick={() => setScaleIndex(Math.round((t.birth + t.death) / 2))}
+                        className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded-lg border text-left ${alive ? "border-cyan-700 bg-cyan-950/30" : "border-neutral-800 hover:bg-neutral-800/60"}`}
+                      >
+                        <span className="text-neutral-300">({p.x.toFixed(0)}, {p.y.toFixed(0)})</span>
+                        <span className="text-neutral-500">σ {scaleSigmaCalc(t.birth).toFixed(1)}–{scaleSigmaCalc(t.death).toFixed(1)}</span>
+                        <span className="text-neutral-200">{t.lifetime.toFixed(2)} oct</span>
+                      </button>
+                    );
+                  })}
+                  <div className="text-[10px] text-neutral-500 pt-1">Maxima of φ linked level to level; click a track to jump to the middle of its life.</div>
+                </div>
+              </Panel>
+            )}
           </div>
         </div>
       </div>
@@ -1025,78 +1649,31 @@ function CalculusLabSection() {
 // ========== Calculus Lab Math Functions ==========
 
 type FieldCalc = Float32Array;
+type HessianMapCalc = "none" | "l1" | "l2" | "vesselness";
+const HESSIAN_LEVELS_CALC = 8;
+const SCALE_SPACE_CALC = { minSigma: 1, maxSigma: 16, perOctave: 4 };
+const SCALE_LEVELS_CALC = Math.round(Math.log2(SCALE_SPACE_CALC.maxSigma / SCALE_SPACE_CALC.minSigma) * SCALE_SPACE_CALC.perOctave) + 1;
+const scaleSigmaCalc = (k: number) => SCALE_SPACE_CALC.minSigma * 2 ** (k / SCALE_SPACE_CALC.perOctave);
+/** Level closest to the previous default smoothing of σ = 1.5. */
+const DEFAULT_SCALE_INDEX_CALC = Math.round(Math.log2(1.5 / SCALE_SPACE_CALC.minSigma) * SCALE_SPACE_CALC.perOctave);
+/** Lifetime buckets (octaves) and their colors, longest-lived brightest. */
+const LIFETIME_STYLE_CALC: [number, string][] = [[0, "#155E75"], [1, "#22D3EE"], [2, "#CFFAFE"]];
+const CRITICAL_STYLE_CALC: Record<CriticalType, { color: string; shape: GlyphShapeCalc }> = {
+  source: { color: "#34D399", shape: "triangleUp" },
+  sink: { color: "#FB923C", shape: "triangleDown" },
+  saddle: { color: "#E879F9", shape: "cross" },
+  center: { color: "#60A5FA", shape: "ring" },
+  spiral: { color: "#FACC15", shape: "spiral" },
+};
 
-function toGrayscaleCalc(image: ImageData): FieldCalc {
-  const { data, width: W, height: H } = image;
-  const out = new Float32Array(W * H);
-  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
-    const r = data[i], g = data[i + 1], b = data[i + 2];
-    out[j] = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
-  }
-  return out;
-}
-
-function gaussianBlurCalc(src: FieldCalc, W: number, H: number, sigma: number): FieldCalc {
-  if (sigma <= 0) return src.slice() as FieldCalc;
-  const r = Math.max(1, Math.round(sigma * 3));
-  const kernel: number[] = [];
-  const s2 = sigma * sigma;
-  let sum = 0;
-  for (let i = -r; i <= r; i++) { const v = Math.exp(-(i * i) / (2 * s2)); kernel.push(v); sum += v; }
-  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
-
-  const tmp = new Float32Array(W * H);
-  const out = new Float32Array(W * H);
-  for (let y = 0; y < H; y++) {
-    for (let x = 0; x < W; x++) {
-      let acc = 0;
-      for (let k = -r; k <= r; k++) {
-        const xx = Math.min(W - 1, Math.max(0, x + k));
-        acc += src[y * W + xx] * kernel[k + r];
-      }
-      tmp[y * W + x] = acc;
-    }
-  }
-  for (let x = 0; x < W; x++) {
-    for (let y = 0; y < H; y++) {
-      let acc = 0;
-      for (let k = -r; k <= r; k++) {
-        const yy = Math.min(H - 1, Math.max(0, y + k));
-        acc += tmp[yy * W + x] * kernel[k + r];
-      }
-      out[y * W + x] = acc;
-    }
-  }
-  return out;
-}
-
-function computeGradientsCalc(image: ImageData, sigma = 1.0) {
-  const gray = toGrayscaleCalc(image);
+function computeLaplacianCalc(image: ImageData, sigma = 1.0): FieldCalc {
+  const gray = toGrayFloat(image.data);
   const { width: W, height: H } = image;
-  const gx = new Float32Array(W * H);
-  const gy = new Float32Array(W * H);
-
-  const g = gaussianBlurCalc(gray, W, H, sigma);
-  for (let y = 1; y < H - 1; y++) {
-    for (let x = 1; x < W - 1; x++) {
-      const i = y * W + x;
-      gx[i] = (g[i + 1] - g[i - 1]) * 0.5;
-      gy[i] = (g[i + W] - g[i - W]) * 0.5;
-    }
-  }
-  const mag = new Float32Array(W * H);
-  const theta = new Float32Array(W * H);
-  for (let i = 0; i < mag.length; i++) {
-    mag[i] = Math.hypot(gx[i] || 0, gy[i] || 0);
-    theta[i] = Math.atan2(gy[i] || 0, gx[i] || 0);
-  }
-  return { Ix: gx, Iy: gy, mag, theta };
+  return laplacianCalc(gaussianBlur(gray, W, H, sigma), W, H);
 }
 
-function computeLaplacianCalc(image: ImageData, sigma = 1.0): FieldCalc {
-  const gray = toGrayscaleCalc(image);
-  const { width: W, height: H } = image;
-  const g = gaussianBlurCalc(gray, W, H, sigma);
+/** 5-point Laplacian; the border is left at zero. */
+function laplacianCalc(g: FieldCalc, W: number, H: number): FieldCalc {
   const out = new Float32Array(W * H);
   for (let y = 1; y < H - 1; y++) {
     for (let x = 1; x < W - 1; x++) {
@@ -1108,50 +1685,62 @@ function computeLaplacianCalc(image: ImageData, sigma = 1.0): FieldCalc {
 }
 
 function computeStructureTensorCalc(Ix: FieldCalc, Iy: FieldCalc, W: number, H: number, sigma = 1.0) {
-  const Ixx = new Float32Array(W * H);
-  const Iyy = new Float32Array(W * H);
-  const Ixy = new Float32Array(W * H);
-  for (let i = 0; i < Ixx.length; i++) {
-    const ix = Ix[i] || 0, iy = Iy[i] || 0;
-    Ixx[i] = ix * ix; Iyy[i] = iy * iy; Ixy[i] = ix * iy;
-  }
-  const Jxx = gaussianBlurCalc(Ixx, W, H, sigma);
-  const Jyy = gaussianBlurCalc(Iyy, W, H, sigma);
-  const Jxy = gaussianBlurCalc(Ixy, W, H, sigma);
-
-  const coherence = new Float32Array(W * H);
-  const corner = new Float32Array(W * H);
-  const theta = new Float32Array(W * H);
-
-  for (let i = 0; i < coherence.length; i++) {
-    const a = Jxx[i], b = Jxy[i], c = Jxy[i], d = Jyy[i];
-    const tr = a + d;
-    const det = a * d - b * c;
-    const disc = Math.max(0, tr * tr - 4 * det);
-    const l1 = 0.5 * (tr + Math.sqrt(disc));
-    const l2 = 0.5 * (tr - Math.sqrt(disc));
-    coherence[i] = (l1 + l2) > 1e-6 ? (l1 - l2) / (l1 + l2) : 0;
-    corner[i] = l1;
-    theta[i] = 0.5 * Math.atan2(2 * b, a - d);
-  }
-  const cornerN = normalize01Calc(corner);
-  return { coherence, corner: cornerN, theta };
+  const { coherence, l1, theta } = structureTensor(Ix, Iy, W, H, sigma);
+  return { coherence, corner: normalize01(l1), theta };
 }
 
-function normalize01Calc(src: FieldCalc): FieldCalc {
-  let mn = Infinity, mx = -Infinity;
-  for (let i = 0; i < src.length; i++) { const v = src[i]; if (v < mn) mn = v; if (v > mx) mx = v; }
-  const out = new Float32Array(src.length);
-  const den = mx - mn > 1e-9 ? (mx - mn) : 1;
-  for (let i = 0; i < src.length; i++) out[i] = (src[i] - mn) / den;
-  return out;
+/** Attention inputs and φ for one scale-space level, at that level's octave resolution. */
+function scaleMapsCalc(level: ScaleLevel, weights: { w1: number; w2: number; w3: number; w4: number; w5: number }) {
+  const { data: L, width: w, height: h } = level.image;
+  const { gx, gy } = centralGradient(L, w, h);
+  const mag = gradientMagnitude(gx, gy);
+  const lap = laplacianCalc(L, w, h);
+  const logPos = new Float32Array(w * h);
+  for (let i = 0; i < lap.length; i++) logPos[i] = Math.max(0, lap[i]);
+  const corner = computeStructureTensorCalc(gx, gy, w, h, level.sigmaPx).corner;
+  const gnorm = normalize01(gaussianBlur(mag, w, h, level.sigmaPx));
+  const homogeneity = new Float32Array(w * h);
+  for (let i = 0; i < homogeneity.length; i++) homogeneity[i] = 1 - gnorm[i];
+  const colorContrast = normalize01(mag);
+
+  const phi = composeAttentionalPotentialCalc(
+    {
+      grad: normalize01(mag),
+      logPos: normalize01(logPos),
+      corners: normalize01(corner),
+      colorContrast: normalize01(colorContrast),
+      homogeneity: normalize01(homogeneity),
+    },
+    weights
+  );
+  return { width: w, height: h, mag, lap, corner, homogeneity, colorContrast, phi };
 }
 
-function percentileCalc(src: FieldCalc, p: number) {
-  const arr = Array.from(src);
-  arr.sort((a, b) => a - b);
-  const idx = Math.min(arr.length - 1, Math.max(0, Math.floor((p / 100) * arr.length)));
-  return arr[idx];
+/** Local maxima of φ within its top percent at one level, in base-image pixels, strongest first. */
+function hotspotMaximaCalc(
+  phi: FieldCalc, level: ScaleLevel,
+  opts: { topPercent: number; nmsRadius: number; maxPoints: number }
+): ScalePoint[] {
+  const { width: w, height: h } = level.image;
+  const thr = percentile(phi, 100 - opts.topPercent);
+  const pts: ScalePoint[] = [];
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x, v = phi[i];
+      if (v < thr || v <= 0) continue;
+      if (v < phi[i - 1] || v < phi[i + 1] || v < phi[i - w] || v < phi[i + w] ||
+          v < phi[i - w - 1] || v < phi[i - w + 1] || v < phi[i + w - 1] || v < phi[i + w + 1]) continue;
+      pts.push({ x: x * level.stepX, y: y * level.stepY, value: v });
+    }
+  }
+  pts.sort((a, b) => b.value - a.value);
+  const r2 = opts.nmsRadius * opts.nmsRadius;
+  const kept: ScalePoint[] = [];
+  for (const p of pts) {
+    if (kept.length >= opts.maxPoints) break;
+    if (!kept.some(q => (q.x - p.x) ** 2 + (q.y - p.y) ** 2 < r2)) kept.push(p);
+  }
+  return kept;
 }
 
 function zscoreFieldCalc(src: FieldCalc): FieldCalc {
@@ -1164,18 +1753,6 @@ function zscoreFieldCalc(src: FieldCalc): FieldCalc {
   return out;
 }
 
-function gradientCalc(field: FieldCalc, W: number, H: number) {
-  const gx = new Float32Array(W * H); const gy = new Float32Array(W * H);
-  for (let y = 1; y < H - 1; y++) {
-    for (let x = 1; x < W - 1; x++) {
-      const i = y * W + x;
-      gx[i] = (field[i + 1] - field[i - 1]) * 0.5;
-      gy[i] = (field[i + W] - field[i - W]) * 0.5;
-    }
-  }
-  return { gx, gy };
-}
-
 function divergenceCalc(gx: FieldCalc, gy: FieldCalc, W: number, H: number): FieldCalc {
   const out = new Float32Array(W * H);
   for (let y = 1; y < H - 1; y++) {
@@ -1200,19 +1777,18 @@ function composeAttentionalPotentialCalc(
   for (let i = 0; i < N; i++) {
     out[i] = w1 * grad[i] + w2 * logPos[i] + w3 * corners[i] + w4 * colorContrast[i] - w5 * homogeneity[i];
   }
-  return normalize01Calc(out);
+  return normalize01(out);
 }
 
+/** Weighted centroid of the top-percent of each φ (e.g. the same potential at several scales), averaged. */
 function computeAttentionCenterCalc(
-  phi: FieldCalc, W: number, H: number,
-  opts: { topPercent?: number; multiscale?: boolean } = {}
+  phiScales: FieldCalc[], W: number, H: number,
+  opts: { topPercent?: number } = {}
 ): { x: number; y: number; radius: number } {
-  const { topPercent = 10, multiscale = true } = opts;
-  const scales = multiscale ? [1, 2, 4] : [1];
+  const { topPercent = 10 } = opts;
   const pts: { x: number; y: number }[] = [];
-  for (const s of scales) {
-    const phis = s > 1 ? gaussianBlurCalc(phi, W, H, s) : phi;
-    const thr = percentileCalc(phis, 100 - topPercent);
+  for (const phis of phiScales) {
+    const thr = percentile(phis, 100 - topPercent);
     let sx = 0, sy = 0, sw = 0;
     for (let i = 0; i < phis.length; i++) {
       const v = phis[i]; if (v < thr) continue;
@@ -1234,7 +1810,7 @@ function findSourcesSinksCalc(
   opts: { zPos?: number; zNeg?: number; nmsRadius?: number; maxPoints?: number } = {}
 ): { sources: { x: number; y: number; z: number }[]; sinks: { x: number; y: number; z: number }[] } {
   const { zPos = 1.5, zNeg = -1.5, nmsRadius = 7, maxPoints = 50 } = opts;
-  const { gx, gy } = gradientCalc(phi, W, H);
+  const { gx, gy } = centralGradient(phi, W, H);
   const div = divergenceCalc(gx, gy, W, H);
   const z = zscoreFieldCalc(div);
 
@@ -1273,46 +1849,46 @@ function findSourcesSinksCalc(
 
 function greatestAestheticTensionCalc(
   gradMag: FieldCalc, corner: FieldCalc, phi: FieldCalc, W: number, H: number,
-  opts: { w1?: number; w2?: number; w3?: number; nmsRadius?: number } = {}
-): { x: number; y: number; tau: number } {
-  const { w1 = 0.5, w2 = 0.3, w3 = 0.2 } = opts;
-  const { gx, gy } = gradientCalc(phi, W, H);
+  opts: { w1?: number; w2?: number; w3?: number; nmsRadius?: number; saddles?: { x: number; y: number }[] } = {}
+): { x: number; y: number; tau: number; fromSaddle: boolean } {
+  const { w1 = 0.5, w2 = 0.3, w3 = 0.2, saddles = [] } = opts;
+  const { gx, gy } = centralGradient(phi, W, H);
   const gphi = new Float32Array(W * H);
   for (let i = 0; i < gphi.length; i++) gphi[i] = Math.hypot(gx[i] || 0, gy[i] || 0);
 
-  const e = normalize01Calc(gradMag);
-  const k = normalize01Calc(corner);
-  const g = normalize01Calc(gphi);
+  const e = normalize01(gradMag);
+  const k = normalize01(corner);
+  const g = normalize01(gphi);
 
   const tau = new Float32Array(W * H);
   let bestI = 0;
   for (let i = 0; i < tau.length; i++) { tau[i] = w1 * e[i] + w2 * k[i] + w3 * g[i]; if (tau[i] > tau[bestI]) bestI = i; }
 
+  // Tension sits on a saddle of the potential: pick the saddle with the highest τ when there is one.
+  let best: { x: number; y: number; tau: number } | null = null;
+  for (const p of saddles) {
+    const i = Math.min(H - 1, Math.round(p.y)) * W + Math.min(W - 1, Math.round(p.x));
+    if (!best || tau[i] > best.tau) best = { x: p.x, y: p.y, tau: tau[i] };
+  }
+  if (best) return { ...best, fromSaddle: true };
   const bx = bestI % W, by = Math.floor(bestI / W);
-  return { x: bx, y: by, tau: tau[bestI] };
+  return { x: bx, y: by, tau: tau[bestI], fromSaddle: false };
 }
 
 // ========== Calculus Lab Drawing Functions ==========
 
-function turboCalc(u: number) {
-  const r = Math.min(1, Math.max(0, 1.7 * u - 0.3));
-  const g = Math.min(1, Math.max(0, 1.7 * (1 - Math.abs(u - 0.5) * 2)));
-  const b = Math.min(1, Math.max(0, 1.7 * (1 - u) - 0.3));
-  return [r * 255, g * 255, b * 255];
-}
-
 function drawHeatmapCalc(
   ctx: CanvasRenderingContext2D,
   field: Float32Array,
   W: number,
   H: number,
-  opts: { alpha?: number } = {}
+  opts: { alpha?: number; palette?: Colormap } = {}
 ) {
-  const { alpha = 0.35 } = opts;
+  const { alpha = 0.35, palette = turbo } = opts;
   const img = ctx.createImageData(W, H);
   for (let i = 0; i < field.length; i++) {
     const v = Math.max(0, Math.min(1, field[i]));
-    const [r, g, b] = turboCalc(v);
+    const [r, g, b] = palette(v);
     img.data[4 * i + 0] = r;
     img.data[4 * i + 1] = g;
     img.data[4 * i + 2] = b;
@@ -1341,10 +1917,12 @@ function drawCrosshairCalc(
   ctx.restore();
 }
 
+type GlyphShapeCalc = "triangleUp" | "triangleDown" | "bolt" | "circle" | "cross" | "ring" | "spiral";
+
 function drawGlyphsCalc(
   ctx: CanvasRenderingContext2D,
-  pts: { x: number; y: number; z?: number }[],
-  opts: { color?: string; shape?: "triangleUp" | "triangleDown" | "bolt" } = {}
+  pts: { x: number; y: number; z?: number; r?: number }[],
+  opts: { color?: string; shape?: GlyphShapeCalc } = {}
 ) {
   const { color = "#00B3B3", shape = "triangleUp" } = opts;
   ctx.save();
@@ -1372,6 +1950,41 @@ function drawGlyphsCalc(
       ctx.lineTo(p.x - size * 0.15, p.y + size * 0.15);
       ctx.lineTo(p.x + size * 0.1, p.y + size * 0.15);
       ctx.closePath(); ctx.fill();
+    } else if (shape === "circle") {
+      // Outline only, radius from the point (e.g. a blob's scale) so nested circles stay readable.
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, p.r ?? size, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (shape === "cross") {
+      // Saddle: an X along the in- and out-flowing directions
+      const h = size * 0.7;
+      ctx.lineWidth = 2.5;
+      ctx.beginPath();
+      ctx.moveTo(p.x - h, p.y - h); ctx.lineTo(p.x + h, p.y + h);
+      ctx.moveTo(p.x + h, p.y - h); ctx.lineTo(p.x - h, p.y + h);
+      ctx.stroke();
+    } else if (shape === "ring") {
+      // Center: concentric orbits
+      ctx.lineWidth = 1.5;
+      for (const f of [0.4, 0.8]) {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, size * f, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    } else if (shape === "spiral") {
+      // Spiral: two turns of an Archimedean spiral
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      for (let t = 0; t <= 4 * Math.PI; t += 0.25) {
+        const r = (size * t) / (4 * Math.PI);
+        const sx = p.x + r * Math.cos(t), sy = p.y + r * Math.sin(t);
+        if (t === 0) ctx.moveTo(sx, sy); else ctx.lineTo(sx, sy);
+      }
+      ctx.stroke();
     }
   }
   ctx.restore();
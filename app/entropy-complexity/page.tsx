@@ -11,6 +11,10 @@ import { usePageState } from "../../lib/usePageState";
 import { Cropper } from "../../components/CropperWithMenu";
 import dynamic from "next/dynamic";
 import { ClipboardViewer, ClipboardButton, saveToClipboard } from "../../components/ClipboardViewer";
+import { luma, toGrayU8 } from "../../lib/image/grayscale";
+import { sobel } from "../../lib/image/filters";
+import { DEFAULT_ENTROPY_OPTIONS, entropyMetrics, localEntropyMap } from "../../lib/complexity/entropy";
+import { magma, viridis } from "../../lib/image/colormaps";
 
 const ResponsiveContainer = dynamic(() => import("recharts").then(m => m.ResponsiveContainer), { ssr: false });
 const LineChart = dynamic(() => import("recharts").then(m => m.LineChart), { ssr: false });
@@ -23,111 +27,9 @@ const CartesianGrid = dynamic(() => import("recharts").then(m => m.CartesianGrid
 // -------------------------------------------------------------
 // Math / Image Helpers
 // -------------------------------------------------------------
-const LUMA = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
-
 function toGrayscaleUint8(imgData: ImageData) {
   const { data, width, height } = imgData;
-  const out = new Uint8ClampedArray(width * height);
-  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
-    out[j] = Math.max(0, Math.min(255, Math.round(LUMA(data[i], data[i + 1], data[i + 2]))));
-  }
-  return { gray: out, width, height } as const;
-}
-
-function histogram(gray: Uint8ClampedArray, bins: number) {
-  const h = new Float32Array(bins);
-  const binSize = 256 / bins;
-  for (let i = 0; i < gray.length; i++) {
-    const b = Math.min(bins - 1, Math.floor(gray[i] / binSize));
-    h[b]++;
-  }
-  const n = gray.length || 1;
-  for (let i = 0; i < bins; i++) h[i] /= n;
-  return h;
-}
-
-function entropyFromProb(prob: Float32Array) {
-  let H = 0;
-  for (let i = 0; i < prob.length; i++) {
-    const p = prob[i];
-    if (p > 0) H -= p * Math.log2(p);
-  }
-  return H;
-}
-
-function perChannelEntropies(pixels: Uint8ClampedArray, bins = 256) {
-  const rHist = new Float32Array(bins);
-  const gHist = new Float32Array(bins);
-  const bHist = new Float32Array(bins);
-  const n = pixels.length / 4;
-  for (let i = 0; i < pixels.length; i += 4) {
-    rHist[pixels[i]]++;
-    gHist[pixels[i + 1]]++;
-    bHist[pixels[i + 2]]++;
-  }
-  const ent = (hist: Float32Array) => {
-    let H = 0;
-    for (let i = 0; i < bins; i++) if (hist[i] > 0) { const p = hist[i] / n; H -= p * Math.log2(p); }
-    return H;
-  };
-  return { r: ent(rHist), g: ent(gHist), b: ent(bHist), avg: (ent(rHist) + ent(gHist) + ent(bHist)) / 3 };
-}
-
-function localVariance(gray: Uint8ClampedArray, w: number, h: number) {
-  let acc = 0, cnt = 0;
-  const idx = (x: number, y: number) => y * w + x;
-  for (let y = 1; y < h - 1; y++) {
-    for (let x = 1; x < w - 1; x++) {
-      let mean = 0;
-      for (let j = -1; j <= 1; j++)
-        for (let i = -1; i <= 1; i++) mean += gray[idx(x + i, y + j)];
-      mean /= 9;
-      let v = 0;
-      for (let j = -1; j <= 1; j++)
-        for (let i = -1; i <= 1; i++) {
-          const d = gray[idx(x + i, y + j)] - mean;
-          v += d * d;
-        }
-      v /= 9;
-      acc += v;
-      cnt++;
-    }
-  }
-  return acc / Math.max(1, cnt);
-}
-
-function sobel(gray: Uint8ClampedArray, width: number, height: number) {
-  const Gx = new Float32Array(width * height);
-  const Gy = new Float32Array(width * height);
-  const idx = (x: number, y: number) => y * width + x;
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const xm1 = x - 1, xp1 = x + 1, ym1 = y - 1, yp1 = y + 1;
-      const a = gray[idx(xm1, ym1)], b = gray[idx(x, ym1)], c = gray[idx(xp1, ym1)];
-      const d = gray[idx(xm1, y)],   f = gray[idx(xp1, y)];
-      const g = gray[idx(xm1, yp1)], h = gray[idx(x, yp1)], i = gray[idx(xp1, yp1)];
-      const gx = (-a - 2 * d - g + c + 2 * f + i);
-      const gy = (-a - 2 * b - c + g + 2 * h + i);
-      Gx[y * width + x] = gx;
-      Gy[y * width + x] = gy;
-    }
-  }
-  return { Gx, Gy } as const;
-}
-
-function lempelZivComplexity(data: Uint8ClampedArray, windowSize: number) {
-  const n = Math.min(data.length, windowSize);
-  const dict = new Set<string>();
-  let i = 0, s = "";
-  while (i < n) {
-    s += String.fromCharCode(data[i] & 0x0f);
-    if (!dict.has(s)) {
-      dict.add(s);
-      s = "";
-    }
-    i++;
-  }
-  return dict.size;
+  return { gray: toGrayU8(data), width, height } as const;
 }
 
 // Transforms
@@ -182,8 +84,7 @@ function applyPixelSort(imgData: ImageData, ratio: number) {
     for (let x = 0; x < width; x++) {
       const i = (y * width + x) * 4;
       const r = data[i], g = data[i + 1], b = data[i + 2], a = data[i + 3];
-      const luma = LUMA(r, g, b);
-      row.push({ r, g, b, a, luma });
+      row.push({ r, g, b, a, luma: luma(r, g, b) });
     }
     row.sort((a, b) => a.luma - b.luma);
     for (let x = 0; x < width; x++) {
@@ -197,21 +98,6 @@ function applyPixelSort(imgData: ImageData, ratio: number) {
   return new ImageData(out, width, height);
 }
 
-// Colormaps
-function magmaColor(t: number) {
-  const r = Math.min(255, Math.max(0, Math.round(255 * (0.001462 + t * (2.258267 + t * (-3.557995 + t * 5.375986))))));
-  const g = Math.min(255, Math.max(0, Math.round(255 * (0.000466 + t * (0.179190 + t * (4.243327 + t * (-7.437655)))))));
-  const b = Math.min(255, Math.max(0, Math.round(255 * (0.013866 + t * (2.393285 + t * (-5.353797 + t * 3.818268))))));
-  return [r, g, b];
-}
-
-function viridisColor(t: number) {
-  const r = Math.min(255, Math.max(0, Math.round(255 * (0.267004 + t * (-0.119374 + t * (1.855084 + t * (-2.505638)))))));
-  const g = Math.min(255, Math.max(0, Math.round(255 * (0.004874 + t * (1.424487 + t * (-0.660518 + t * 0.028306))))));
-  const b = Math.min(255, Math.max(0, Math.round(255 * (0.329415 + t * (1.780914 + t * (-4.590288 + t * 3.451434))))));
-  return [r, g, b];
-}
-
 export default function EntropyComplexityPage() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const originalRef = useRef<HTMLCanvasElement>(null);
@@ -244,12 +130,7 @@ export default function EntropyComplexityPage() {
 
   // Persisted controls - remembers settings across navigation
   const [persistedState, setPersistedState] = usePageState("entropy-complexity", {
-    bins: 64,
-    patch: 16,
-    stride: 8,
-    fftSize: 128,
-    lzWindow: 1024,
-    localNormalize: false,
+    ...DEFAULT_ENTROPY_OPTIONS,
     downscale: 640,
     quantLevels: 16,
     blurRadius: 0,
@@ -259,11 +140,10 @@ export default function EntropyComplexityPage() {
     showGradMag: false,
     showSpectral: false,
     heatScheme: "magma" as "magma" | "viridis" | "gray",
-    weights: { gray: 0.35, chroma: 0.25, texture: 0.2, edges: 0.2 }
   });
 
   const { 
-    bins, patch, stride, fftSize, lzWindow, localNormalize, downscale,
+    bins, patch, stride, fftSize, lzWindow, lzEstimator, localNormalize, downscale,
     quantLevels, blurRadius, sortRatio, stepDelay,
     showLocalEntropy, showGradMag, showSpectral, heatScheme, weights
   } = persistedState;
@@ -273,6 +153,7 @@ export default function EntropyComplexityPage() {
   const setStride = (v: number) => setPersistedState(p => ({ ...p, stride: v }));
   const setFftSize = (v: number) => setPersistedState(p => ({ ...p, fftSize: v }));
   const setLzWindow = (v: number) => setPersistedState(p => ({ ...p, lzWindow: v }));
+  const setLzEstimator = (v: "phrases" | "deflate") => setPersistedState(p => ({ ...p, lzEstimator: v }));
   const setLocalNormalize = (v: boolean) => setPersistedState(p => ({ ...p, localNormalize: v }));
   const setDownscale = (v: number) => setPersistedState(p => ({ ...p, downscale: v }));
   const setQuantLevels = (v: number) => setPersistedState(p => ({ ...p, quantLevels: v }));
@@ -366,57 +247,18 @@ export default function EntropyComplexityPage() {
 
   // Compute all metrics
   const computeMetrics = (imgData: ImageData) => {
-    const { gray, width, height } = toGrayscaleUint8(imgData);
-    
-    // Global entropy
-    const hist = histogram(gray, bins);
-    const H = entropyFromProb(hist);
-    setGlobalEntropy(H);
-
-    // Chromatic entropy
-    const chroma = perChannelEntropies(imgData.data, bins);
-    setChromaEntropy(chroma.avg);
-
-    // Texture
-    const tex = localVariance(gray, width, height);
-    setTexture(tex);
-
-    // Sobel edges
-    const { Gx, Gy } = sobel(gray, width, height);
-    let edgeSum = 0, gradSum = 0;
-    const gradMags: number[] = [];
-    for (let i = 0; i < Gx.length; i++) {
-      const mag = Math.sqrt(Gx[i] * Gx[i] + Gy[i] * Gy[i]);
-      gradSum += mag;
-      gradMags.push(Math.min(255, mag));
-      if (mag > 20) edgeSum++;
-    }
-    setEdgeDensity(edgeSum / Gx.length);
-    setMeanGradMag(gradSum / Gx.length);
-    
-    // Gradient entropy
-    const gradGray = new Uint8ClampedArray(gradMags);
-    const gradHist = histogram(gradGray, bins);
-    setGradEntropy(entropyFromProb(gradHist));
-
-    // LZ complexity
-    const lz = lempelZivComplexity(gray, lzWindow);
-    setLzComplex(lz);
-
-    // Spectral entropy (simplified - just FFT magnitude entropy)
-    const fftData = gray.slice(0, fftSize * fftSize);
-    const fftHist = histogram(fftData, bins);
-    setSpectralEntropy(entropyFromProb(fftHist));
-
-    // Aesthetic entropy (weighted combination)
-    const Hnorm = H / Math.log2(bins);
-    const Cnorm = chroma.avg / Math.log2(bins);
-    const Tnorm = Math.min(1, tex / 1000);
-    const Enorm = edgeSum / Gx.length;
-    const aesthetic = weights.gray * Hnorm + weights.chroma * Cnorm + weights.texture * Tnorm + weights.edges * Enorm;
-    setAestheticEntropy(aesthetic);
-
-    return { H, chroma: chroma.avg, tex, edgeSum: edgeSum / Gx.length, aesthetic };
+    const m = entropyMetrics(imgData.data, imgData.width, imgData.height, { bins, fftSize, lzWindow, lzEstimator, weights });
+    setGlobalEntropy(m.globalEntropy);
+    setChromaEntropy(m.chromaEntropy);
+    setTexture(m.texture);
+    setEdgeDensity(m.edgeDensity);
+    setMeanGradMag(m.meanGradMag);
+    setGradEntropy(m.gradEntropy);
+    setLzComplex(m.lzComplexity);
+    setSpectralEntropy(m.spectralEntropy);
+    setAestheticEntropy(m.aestheticEntropy);
+
+    return { H: m.globalEntropy, chroma: m.chromaEntropy, tex: m.texture, edgeSum: m.edgeDensity, aesthetic: m.aestheticEntropy };
   };
 
   // Render with overlays
@@ -460,34 +302,12 @@ export default function EntropyComplexityPage() {
       
       if (showLocalEntropy) {
         // Local entropy heatmap
-        const localMap = new Float32Array(w * h);
-        for (let y = 0; y < h; y += stride) {
-          for (let x = 0; x < w; x += stride) {
-            const patchData: number[] = [];
-            for (let py = 0; py < patch && y + py < h; py++) {
-              for (let px = 0; px < patch && x + px < w; px++) {
-                patchData.push(gray[(y + py) * w + (x + px)]);
-              }
-            }
-            const pHist = new Float32Array(bins);
-            const binSize = 256 / bins;
-            for (const v of patchData) pHist[Math.min(bins - 1, Math.floor(v / binSize))]++;
-            for (let i = 0; i < bins; i++) pHist[i] /= patchData.length || 1;
-            let H = 0;
-            for (let i = 0; i < bins; i++) if (pHist[i] > 0) H -= pHist[i] * Math.log2(pHist[i]);
-            const Hnorm = localNormalize ? H / Math.log2(bins) : H / 8;
-            for (let py = 0; py < patch && y + py < h; py++) {
-              for (let px = 0; px < patch && x + px < w; px++) {
-                localMap[(y + py) * w + (x + px)] = Hnorm;
-              }
-            }
-          }
-        }
+        const localMap = localEntropyMap(gray, w, h, { bins, patch, stride, localNormalize });
         
         const overlay = ctx.createImageData(w, h);
         for (let i = 0; i < localMap.length; i++) {
           const t = Math.min(1, Math.max(0, localMap[i]));
-          const [r, g, b] = heatScheme === "viridis" ? viridisColor(t) : heatScheme === "gray" ? [t * 255, t * 255, t * 255] : magmaColor(t);
+          const [r, g, b] = heatScheme === "viridis" ? viridis(t) : heatScheme === "gray" ? [t * 255, t * 255, t * 255] : magma(t);
           overlay.data[i * 4] = r;
           overlay.data[i * 4 + 1] = g;
           overlay.data[i * 4 + 2] = b;
@@ -499,12 +319,12 @@ export default function EntropyComplexityPage() {
       }
 
       if (showGradMag) {
-        const { Gx, Gy } = sobel(gray, w, h);
+        const { gx: Gx, gy: Gy } = sobel(gray, w, h);
         const overlay = ctx.createImageData(w, h);
         for (let i = 0; i < Gx.length; i++) {
           const mag = Math.sqrt(Gx[i] * Gx[i] + Gy[i] * Gy[i]);
           const t = Math.min(1, mag / 100);
-          const [r, g, b] = viridisColor(t);
+          const [r, g, b] = viridis(t);
           overlay.data[i * 4] = r;
           overlay.data[i * 4 + 1] = g;
           overlay.data[i * 4 + 2] = b;
@@ -587,7 +407,7 @@ export default function EntropyComplexityPage() {
   useEffect(() => {
     render();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [uploaded, bins, patch, stride, fftSize, lzWindow, localNormalize, downscale, quantLevels, blurRadius, sortRatio, showLocalEntropy, showGradMag, showSpectral, heatScheme, weights.gray, weights.chroma, weights.texture, weights.edges]);
+  }, [uploaded, bins, patch, stride, fftSize, lzWindow, lzEstimator, localNormalize, downscale, quantLevels, blurRadius, sortRatio, showLocalEntropy, showGradMag, showSpectral, heatScheme, weights.gray, weights.chroma, weights.texture, weights.edges]);
 
   useEffect(() => {
     if (!playing) return;
@@ -714,8 +534,8 @@ export default function EntropyComplexityPage() {
                           <div className="text-[11px] font-semibold text-neutral-200">{aggLabel(gradEntropy)}</div>
                         </div>
                         <div className="rounded border border-neutral-800 bg-black/30 p-1">
-                          <div className="text-[8px] text-neutral-500">LZ</div>
-                          <div className="text-[11px] font-semibold text-neutral-200">{lzComplex}</div>
+                          <div className="text-[8px] text-neutral-500">{lzEstimator === "deflate" ? "LZ K̂" : "LZ"}</div>
+                          <div className="text-[11px] font-semibold text-neutral-200">{lzEstimator === "deflate" ? lzComplex.toFixed(3) : lzComplex}</div>
                         </div>
                         <div className="rounded border border-neutral-800 bg-black/30 p-1">
                           <div className="text-[8px] text-neutral-500">Texture</div>
@@ -768,6 +588,12 @@ export default function EntropyComplexityPage() {
                       <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full transition ${localNormalize?"translate-x-4 bg-teal-400":"bg-neutral-500"}`}></span>
                     </button>
                   </label>
+                  <label className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-neutral-300">LZ deflate</span>
+                    <button onClick={() => setLzEstimator(lzEstimator === "deflate" ? "phrases" : "deflate")} className={`w-10 h-6 rounded-full border transition relative ${lzEstimator === "deflate"?"bg-teal-500/30 border-teal-400":"bg-neutral-800 border-neutral-700"}`}>
+                      <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full transition ${lzEstimator === "deflate"?"translate-x-4 bg-teal-400":"bg-neutral-500"}`}></span>
+                    </button>
+                  </label>
                   <label className="flex items-center justify-between gap-2 text-xs">
                     <span className="text-neutral-300">Auto-record</span>
                     <button onClick={() => setAutoRecord(!autoRecord)} className={`w-10 h-6 rounded-full border transition relative ${autoRecord?"bg-teal-500/30 border-teal-400":"bg-neutral-800 border-neutral-700"}`}>
@@ -5,6 +5,8 @@ import { ImagePlus, Download, RefreshCw, Play, Pause, RotateCcw } from "lucide-r
 import { ToolHeader } from "../../components/ToolHeader";
 import { ClipboardViewer, ClipboardButton, saveToClipboard } from "../../components/ClipboardViewer";
 import { Cropper } from "../../components/CropperWithMenu";
+import { toGrayFloat } from "../../lib/image/grayscale";
+import { gradientMagnitude, sobel } from "../../lib/image/filters";
 
 type Vec2 = { x: number; y: number };
 
@@ -95,36 +97,11 @@ function computeGradMag(img: HTMLImageElement, maxW: number, maxH: number) {
   g.drawImage(img, 0, 0, w, h);
   const { data } = g.getImageData(0, 0, w, h);
 
-  const gray = new Float32Array(w * h);
-  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
-    const r = data[i];
-    const gch = data[i + 1];
-    const b = data[i + 2];
-    gray[j] = 0.2126 * r + 0.7152 * gch + 0.0722 * b;
-  }
-
-  const grad = new Float32Array(w * h);
-  const sobelX = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
-  const sobelY = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
+  const gray = toGrayFloat(data);
+  const { gx, gy } = sobel(gray, w, h);
+  const grad = gradientMagnitude(gx, gy);
   let maxVal = 1e-6;
-  for (let y = 1; y < h - 1; y++) {
-    for (let x = 1; x < w - 1; x++) {
-      let gx = 0;
-      let gy = 0;
-      let k = 0;
-      for (let ky = -1; ky <= 1; ky++) {
-        for (let kx = -1; kx <= 1; kx++) {
-          const v = gray[(y + ky) * w + (x + kx)];
-          gx += v * sobelX[k];
-          gy += v * sobelY[k];
-          k++;
-        }
-      }
-      const mag = Math.hypot(gx, gy);
-      grad[y * w + x] = mag;
-      if (mag > maxVal) maxVal = mag;
-    }
-  }
+  for (let i = 0; i < grad.length; i++) if (grad[i] > maxVal) maxVal = grad[i];
   for (let i = 0; i < grad.length; i++) grad[i] /= maxVal;
   return { w, h, grad };
 }
@@ -5,7 +5,21 @@ import { motion } from "framer-motion";
 import { ImagePlus, Wand2, Pause, RotateCcw, Maximize2, Settings, Save, Upload, Download, X } from "lucide-react";
 import dynamic from "next/dynamic";
 import { ToolHeader } from "../../components/ToolHeader";
-import { drawImageToCanvas, toGrayscaleU8 } from "../../lib/complexity/utils-client";
+import { drawImageToCanvas } from "../../lib/complexity/utils-client";
+import { toGrayU8 } from "../../lib/image/grayscale";
+import { normalize01 } from "../../lib/image/filters";
+import { blendHeat, turbo } from "../../lib/image/colormaps";
+import { defaultComplexityOptions } from "../../lib/complexity/analyze";
+import type { ComplexityMetrics } from "../../lib/complexity/analyze";
+import type { FractalMode } from "../../lib/complexity/fractal";
+import { describeBinarization, isAdaptive } from "../../lib/image/threshold";
+import type { ThresholdMode, ThresholdOptions } from "../../lib/image/threshold";
+import type { SkeletonGraph } from "../../lib/complexity/skeleton";
+import { persistenceSweep } from "../../lib/complexity/persistence";
+import type { PersistenceBar } from "../../lib/complexity/persistence";
+import { compareDiagrams } from "../../lib/complexity/diagram";
+import { DEFAULT_WEIGHTS, aestheticComplexityIndex } from "../../lib/complexity/score";
+import type { ComplexityResult, ComplexityWorkerRequest, ComplexityWorkerResponse } from "../../lib/complexity/protocol";
 import { ClipboardViewer, ClipboardButton, saveToClipboard } from "../../components/ClipboardViewer";
 import { Cropper } from "../../components/CropperWithMenu";
 
@@ -19,23 +33,20 @@ const CartesianGrid = dynamic(() => import("recharts").then(m => m.CartesianGrid
 const ResponsiveContainer = dynamic(() => import("recharts").then(m => m.ResponsiveContainer), { ssr: false });
 
 const BarcodeChart = dynamic(() => import("../../components/BarcodeChart"), { ssr: false });
+const LacunarityChart = dynamic(() => import("../../components/LacunarityChart"), { ssr: false });
+const MultifractalChart = dynamic(() => import("../../components/MultifractalChart"), { ssr: false });
+const OrientationRose = dynamic(() => import("../../components/OrientationRose"), { ssr: false });
+const PersistenceDiagram = dynamic(() => import("../../components/PersistenceDiagram"), { ssr: false });
 const Atlas = dynamic(() => import("../../components/Atlas"), { ssr: false });
 
-const DEFAULT_WEIGHTS = {
-  fractalD: 0.25,
-  lacunarity: 0.15,
-  persistenceSpan: 0.2,
-  skeletonBranching: 0.15,
-  coherence: 0.15,
-  kolmogorov: 0.10,
-};
-
 export default function Phase6Page() {
   const [imgUrl, setImgUrl] = useState<string | null>(null);
   const [imgPreview, setImgPreview] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const downscale = 640; // Fixed at 640px
   const [weights, setWeights] = useState(DEFAULT_WEIGHTS);
+  const [fractalMode, setFractalMode] = useState<FractalMode>("differential");
+  const [binarization, setBinarization] = useState<ThresholdOptions>({ mode: "otsu", value: 128, window: 25 });
   
   const [overlay, setOverlay] = useState({
     fractal: true,
@@ -43,12 +54,15 @@ export default function Phase6Page() {
     skeleton: false,
     persistence: false,
     coherence: false,
+    orientation: false,
+    kolmogorov: false,
   });
   
   const [workerReady, setWorkerReady] = useState(false);
   const [progress, setProgress] = useState<string>("");
   const [running, setRunning] = useState(false);
-  const [results, setResults] = useState<any | null>(null);
+  const [results, setResults] = useState<ComplexityResult | null>(null);
+  const [compare, setCompare] = useState<{ name: string; bars: PersistenceBar[] } | null>(null);
   const [atlasOpen, setAtlasOpen] = useState(false);
   const [fullscreenSrc, setFullscreenSrc] = useState<string | null>(null);
   const [clipboardOpen, setClipboardOpen] = useState(false);
@@ -64,20 +78,20 @@ export default function Phase6Page() {
   
   // Worker boot
   useEffect(() => {
-    const w = new Worker("/workers/complexity.worker.js");
+    const w = new Worker(new URL("../../lib/complexity/complexity.worker.ts", import.meta.url));
     workerRef.current = w;
-    w.onmessage = (e: MessageEvent) => {
-      const { type, data } = e.data || {};
-      if (type === "ready") setWorkerReady(true);
-      if (type === "progress") setProgress(data);
-      if (type === "result") {
-        setResults(data);
+    w.onmessage = (e: MessageEvent<ComplexityWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === "ready") setWorkerReady(true);
+      if (msg.type === "progress") setProgress(msg.data);
+      if (msg.type === "result") {
+        setResults(msg.data);
         setRunning(false);
         setProgress("Done.");
       }
-      if (type === "error") {
+      if (msg.type === "error") {
         setRunning(false);
-        setProgress("Error: " + data);
+        setProgress("Error: " + msg.data);
       }
     };
     return () => {
@@ -165,21 +179,19 @@ export default function Phase6Page() {
     const ctx = canvas.getContext("2d")!;
     const { width: w, height: h } = canvas;
     const img = ctx.getImageData(0, 0, w, h);
-    const gray = toGrayscaleU8(img.data);
+    const gray = toGrayU8(img.data);
     
-    const msg = {
+    const opts = defaultComplexityOptions(w, h);
+    const msg: ComplexityWorkerRequest = {
       type: "analyze",
       payload: {
         width: w,
         height: h,
         rgba: img.data.buffer,
         gray: gray.buffer,
-        weights,
-        fractal: { minBox: 4, maxBox: Math.floor(Math.min(w, h) / 2), steps: 8 },
-        lacunarity: { windowSizes: [5, 9, 17, 33] },
-        persistence: { thresholds: 32 },
-        skeleton: { thinningIters: 30 },
-        orientation: { tile: 32, bins: 9 },
+        ...opts,
+        binarization,
+        fractal: { ...opts.fractal, mode: fractalMode },
       }
     };
     
@@ -211,23 +223,37 @@ export default function Phase6Page() {
     file.text().then((t) => {
       try {
         const obj = JSON.parse(t);
-        if (obj.weights) setWeights(obj.weights);
+        if (obj.weights) setWeights({ ...DEFAULT_WEIGHTS, ...obj.weights });
       } catch {}
     });
   }
   
+  // Second image for topological comparison: same fit and filtration as the main analysis
+  function loadCompareImage(file: File) {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      drawImageToCanvas(img, canvas, downscale, downscale);
+      const { width: w, height: h } = canvas;
+      const gray = toGrayU8(canvas.getContext("2d")!.getImageData(0, 0, w, h).data);
+      const { bars } = persistenceSweep(gray, w, h, { ...defaultComplexityOptions(w, h).persistence, binarization });
+      setCompare({ name: file.name, bars });
+      URL.revokeObjectURL(url);
+    };
+    img.src = url;
+  }
+  
+  const topoDistance = useMemo(() => {
+    if (!results?.persistence || !compare) return null;
+    return compareDiagrams(results.persistence.bars, compare.bars);
+  }, [results, compare]);
+  
   // Derived scores
   const score = useMemo(() => {
     if (!results) return null;
     const r = results.metrics;
-    const ACI =
-      weights.fractalD * norm01(r.fractalD, 0, 2) +
-      weights.lacunarity * (1 - clamp01(r.lacunarityMean)) +
-      weights.persistenceSpan * clamp01(r.persistenceSpanNorm) +
-      weights.skeletonBranching * clamp01(r.skeleton.branchingNorm) +
-      weights.coherence * clamp01(r.orientation.coherenceMean) +
-      weights.kolmogorov * clamp01(r.kolmogorovNorm);
-    return { ...r, ACI: +ACI.toFixed(3) };
+    return { ...r, ACI: aestheticComplexityIndex(r, weights) };
   }, [results, weights]);
   
   // Overlay painter
@@ -236,14 +262,15 @@ export default function Phase6Page() {
     const canvas = canvasRef.current!;
     const ctx = canvas.getContext("2d")!;
     const { width: w, height: h } = canvas;
-    const img = results.baseImage as ImageData | null;
-    if (img) ctx.putImageData(img, 0, 0);
+    ctx.putImageData(results.baseImage, 0, 0);
     
     if (overlay.fractal && results.overlays?.fractalHeat) paintHeat(ctx, results.overlays.fractalHeat, w, h, 0.45);
     if (overlay.lacunarity && results.overlays?.lacunarityHeat) paintHeat(ctx, results.overlays.lacunarityHeat, w, h, 0.45);
     if (overlay.coherence && results.overlays?.coherenceHeat) paintHeat(ctx, results.overlays.coherenceHeat, w, h, 0.45);
+    if (overlay.orientation && results.overlays?.orientationField) drawOrientationField(ctx, results.overlays.orientationField, results.overlays.coherenceHeat, w, h);
+    if (overlay.kolmogorov && results.overlays?.kolmogorovHeat) paintHeat(ctx, results.overlays.kolmogorovHeat, w, h, 0.45);
     if (overlay.persistence && results.overlays?.persistenceHot) paintMask(ctx, results.overlays.persistenceHot, w, h, [255, 64, 64, 160]);
-    if (overlay.skeleton && results.overlays?.skeleton) paintSkeleton(ctx, results.overlays.skeleton, w, h);
+    if (overlay.skeleton && results.skeletonGraph) drawSkeletonGraph(ctx, results.skeletonGraph, w);
   }, [results, overlay, imgUrl]);
   
   return (
@@ -328,16 +355,71 @@ export default function Phase6Page() {
                 
                 <div className="h-px bg-neutral-800" />
                 
+                {/* Fractal mode */}
+                <div className="flex items-center gap-2">
+                  <div className="w-24 text-xs text-neutral-400">Fractal D</div>
+                  <div className="flex gap-1">
+                    {([["differential", "Gray (DBC)"], ["binary", "Binary"]] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setFractalMode(mode)}
+                        className={`rounded-lg border px-2 py-1 text-xs transition ${
+                          fractalMode === mode
+                            ? "border-teal-400/50 bg-teal-500/20 text-teal-300"
+                            : "border-neutral-800 bg-black/40 text-neutral-400"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                
+                {/* Binarization shared by binary fractal D, persistence cut and skeleton */}
+                <div className="flex items-center gap-2">
+                  <div className="w-24 text-xs text-neutral-400">Binarize</div>
+                  <div className="flex gap-1">
+                    {([["otsu", "Otsu"], ["sauvola", "Sauvola"], ["niblack", "Niblack"], ["manual", "Manual"]] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setBinarization({ ...binarization, mode, k: undefined })}
+                        className={`rounded-lg border px-2 py-1 text-xs transition ${
+                          binarization.mode === mode
+                            ? "border-teal-400/50 bg-teal-500/20 text-teal-300"
+                            : "border-neutral-800 bg-black/40 text-neutral-400"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {binarization.mode === "manual" && (
+                  <SliderRow label="Threshold" min={0} max={255} step={1} value={binarization.value ?? 128} digits={0}
+                    onChange={(v) => setBinarization({ ...binarization, value: v })} />
+                )}
+                {isAdaptive(binarization.mode) && (
+                  <>
+                    <SliderRow label="Window" min={5} max={101} step={2} value={binarization.window ?? 25} digits={0}
+                      onChange={(v) => setBinarization({ ...binarization, window: v })} />
+                    <SliderRow label="k" {...K_RANGE[binarization.mode]} step={0.01} value={binarization.k ?? K_RANGE[binarization.mode].initial} digits={2}
+                      onChange={(v) => setBinarization({ ...binarization, k: v })} />
+                  </>
+                )}
+                
+                <div className="h-px bg-neutral-800" />
+                
                 {/* ACI Weights */}
                 <div>
                   <div className="text-xs text-neutral-300 mb-2">ACI Weights</div>
                   <div className="space-y-2">
                     <WeightRow label="Fractal D" value={weights.fractalD} onChange={(v) => setWeights({ ...weights, fractalD: v })} />
+                    <WeightRow label="Δα spectrum" value={weights.multifractalWidth} onChange={(v) => setWeights({ ...weights, multifractalWidth: v })} />
                     <WeightRow label="Lacunarity" value={weights.lacunarity} onChange={(v) => setWeights({ ...weights, lacunarity: v })} />
                     <WeightRow label="Persistence" value={weights.persistenceSpan} onChange={(v) => setWeights({ ...weights, persistenceSpan: v })} />
                     <WeightRow label="Branching" value={weights.skeletonBranching} onChange={(v) => setWeights({ ...weights, skeletonBranching: v })} />
                     <WeightRow label="Coherence" value={weights.coherence} onChange={(v) => setWeights({ ...weights, coherence: v })} />
-                    <WeightRow label="K̂ proxy" value={weights.kolmogorov} onChange={(v) => setWeights({ ...weights, kolmogorov: v })} />
+                    <WeightRow label="K̂ deflate" value={weights.kolmogorov} onChange={(v) => setWeights({ ...weights, kolmogorov: v })} />
                   </div>
                 </div>
                 
@@ -462,13 +544,25 @@ export default function Phase6Page() {
                 <>
                   <div className="grid grid-cols-2 gap-2 mb-4">
                     <MetricBox label="Fractal D" value={score.fractalD} />
+                    <MetricBox label="Δα" value={score.multifractalWidth} />
                     <MetricBox label="Lacunarity" value={score.lacunarityMean} />
+                    <MetricBox label="Λ slope" value={score.lacunaritySlope} />
                     <MetricBox label="Persist" value={score.persistenceSpanNorm} />
                     <MetricBox label="Branching" value={score.skeleton.branchingNorm} />
                     <MetricBox label="Coherence" value={score.orientation.coherenceMean} />
                     <MetricBox label="K̂" value={score.kolmogorovNorm} />
                     <MetricBox label="ACI" value={score.ACI} highlight />
                   </div>
+                  {results?.binarization && (
+                    <div className="text-[11px] text-neutral-500 mb-3 space-y-0.5">
+                      <div>Fractal: {results.binarization.fractal ? describeBinarization(results.binarization.fractal) : "gray surface (no binarization)"}</div>
+                      <div>
+                        Persistence: {describeBinarization(results.binarization.persistence)}
+                        <span className="text-neutral-400"> · β₀ {results.persistence.cut.betti0}, β₁ {results.persistence.cut.betti1} at the cut</span>
+                      </div>
+                      <div>Skeleton: {describeBinarization(results.binarization.skeleton)}</div>
+                    </div>
+                  )}
                   <div className="h-48">
                     {typeof window !== "undefined" && (
                       <ResponsiveContainer width="100%" height="100%">
@@ -488,11 +582,111 @@ export default function Phase6Page() {
               )}
             </div>
             
-            {/* Persistence Barcodes */}
+            {/* Skeleton Graph */}
+            <div className="rounded-2xl border border-neutral-800 bg-black/40 p-4">
+              <h3 className="text-sm font-medium text-neutral-300 mb-3">Skeleton Graph</h3>
+              {results?.skeletonGraph ? (
+                <>
+                  <div className="grid grid-cols-3 gap-2 mb-3">
+                    <MetricBox label="Endpoints" value={results.skeletonGraph.stats.endpoints} digits={0} />
+                    <MetricBox label="Junctions" value={results.skeletonGraph.stats.junctions} digits={0} />
+                    <MetricBox label="Loops" value={results.skeletonGraph.stats.loops} digits={0} />
+                    <MetricBox label="Branches" value={results.skeletonGraph.edges.length} digits={0} />
+                    <MetricBox label="Mean length" value={results.skeletonGraph.stats.meanBranchLength} digits={1} />
+                    <MetricBox label="Strahler" value={results.skeletonGraph.stats.strahlerOrder} digits={0} />
+                  </div>
+                  <div className="flex gap-3 text-[10px] text-neutral-400 mb-2">
+                    {[1, 2, 3, 4].map(d => (
+                      <span key={d}><span className="inline-block h-2 w-2 mr-1 rounded-full" style={{ background: DEGREE_COLORS[d] }} />{d === 4 ? "4+" : d === 1 ? "end" : d}</span>
+                    ))}
+                  </div>
+                  <div className="h-40">
+                    {typeof window !== "undefined" && (
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={results.skeletonGraph.stats.lengthHistogram.map(b => ({ name: `${b.from}–${b.to}`, value: b.count }))} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                          <XAxis dataKey="name" stroke="#aaa" tick={{ fill: "#aaa", fontSize: 10 }} />
+                          <YAxis stroke="#aaa" tick={{ fill: "#aaa" }} />
+                          <Tooltip contentStyle={{ background: "#111", border: "1px solid rgba(255,255,255,0.1)", color: "#fff" }} />
+                          <Bar dataKey="value" name="branches" fill="#22d3ee" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    )}
+                  </div>
+                </>
+              ) : (
+                <div className="text-sm text-neutral-500">No skeleton yet. Run analysis.</div>
+              )}
+            </div>
+            
+            {/* Lacunarity Curve */}
+            <div className="rounded-2xl border border-neutral-800 bg-black/40 p-4">
+              <h3 className="text-sm font-medium text-neutral-300 mb-3">Gliding-Box Lacunarity</h3>
+              {results?.lacunarity ? (
+                <LacunarityChart curve={results.lacunarity} />
+              ) : (
+                <div className="text-sm text-neutral-500">No curve yet. Run analysis.</div>
+              )}
+            </div>
+            
+            {/* Multifractal Spectrum */}
+            <div className="rounded-2xl border border-neutral-800 bg-black/40 p-4">
+              <h3 className="text-sm font-medium text-neutral-300 mb-3">Multifractal Spectrum</h3>
+              {results?.multifractal ? (
+                <MultifractalChart spectrum={results.multifractal} />
+              ) : (
+                <div className="text-sm text-neutral-500">No spectrum yet. Run analysis.</div>
+              )}
+            </div>
+            
+            {/* Orientation Rose */}
+            <div className="rounded-2xl border border-neutral-800 bg-black/40 p-4">
+              <h3 className="text-sm font-medium text-neutral-300 mb-3">Orientation (Structure Tensor)</h3>
+              {results?.orientationRose ? (
+                <OrientationRose rose={results.orientationRose} />
+              ) : (
+                <div className="text-sm text-neutral-500">No orientations yet. Run analysis.</div>
+              )}
+            </div>
+            
+            {/* Persistence Barcodes + Diagram */}
             <div className="rounded-2xl border border-neutral-800 bg-black/40 p-4">
-              <h3 className="text-sm font-medium text-neutral-300 mb-3">Persistence Barcodes</h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-neutral-300">Persistence Barcodes & Diagram</h3>
+                <div className="flex items-center gap-2">
+                  {compare && (
+                    <button onClick={() => setCompare(null)} className="text-[11px] text-neutral-500 hover:text-neutral-300">
+                      Clear B
+                    </button>
+                  )}
+                  <label className="inline-flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-xl bg-neutral-800 border border-neutral-700 hover:bg-neutral-700 cursor-pointer">
+                    <ImagePlus className="h-3.5 w-3.5" /> Compare…
+                    <input type="file" accept="image/*" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) loadCompareImage(f); e.target.value = ""; }} />
+                  </label>
+                </div>
+              </div>
               {results?.persistence ? (
-                <BarcodeChart bars={results.persistence.bars} />
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <BarcodeChart bars={results.persistence.bars} />
+                    <PersistenceDiagram bars={results.persistence.bars} compare={compare?.bars} />
+                  </div>
+                  {compare && (
+                    <div className="mt-3">
+                      <div className="text-xs text-neutral-400 mb-2">
+                        vs <span className="text-neutral-200">{compare.name}</span> <span className="text-neutral-500">(hollow points)</span>
+                      </div>
+                      {topoDistance && (
+                        <div className="grid grid-cols-4 gap-2">
+                          <MetricBox label="H0 bottleneck" value={topoDistance.H0.bottleneck} />
+                          <MetricBox label="H0 W₁" value={topoDistance.H0.wasserstein} />
+                          <MetricBox label="H1 bottleneck" value={topoDistance.H1.bottleneck} />
+                          <MetricBox label="H1 W₁" value={topoDistance.H1.wasserstein} />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </>
               ) : (
                 <div className="text-sm text-neutral-500">No barcode yet. Run analysis.</div>
               )}
@@ -582,17 +776,43 @@ export default function Phase6Page() {
 }
 
 // UI Components
-function MetricBox({ label, value, highlight }: { label: string; value: number; highlight?: boolean }) {
+function MetricBox({ label, value, highlight, digits = 3 }: { label: string; value: number; highlight?: boolean; digits?: number }) {
   return (
     <div className={`rounded-lg border ${highlight ? 'border-teal-400/50 bg-teal-500/10' : 'border-neutral-800'} bg-black/40 p-2`}>
       <div className="text-[10px] text-neutral-500">{label}</div>
       <div className={`text-base font-semibold ${highlight ? 'text-teal-400' : 'text-neutral-200'}`}>
-        {Number.isFinite(value) ? value.toFixed(3) : "—"}
+        {Number.isFinite(value) ? value.toFixed(digits) : "—"}
       </div>
     </div>
   );
 }
 
+// Slider ranges for the adaptive k; Niblack subtracts a fraction of the local deviation
+const K_RANGE: Record<Extract<ThresholdMode, "sauvola" | "niblack">, { min: number; max: number; initial: number }> = {
+  sauvola: { min: 0, max: 0.5, initial: 0.2 },
+  niblack: { min: -0.5, max: 0, initial: -0.2 },
+};
+
+function SliderRow({ label, min, max, step, value, digits, onChange }: { label: string; min: number; max: number; step: number; value: number; digits: number; onChange: (v: number) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="w-24 text-xs text-neutral-400">{label}</div>
+      <div className="flex-1">
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(parseFloat(e.target.value))}
+          className="w-full accent-teal-400"
+        />
+      </div>
+      <div className="w-12 text-right text-xs text-neutral-500">{value.toFixed(digits)}</div>
+    </div>
+  );
+}
+
 function WeightRow({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) {
   return (
     <div className="flex items-center gap-2">
@@ -613,9 +833,10 @@ function WeightRow({ label, value, onChange }: { label: string; value: number; o
   );
 }
 
-function metricPairs(s: any) {
+function metricPairs(s: ComplexityMetrics & { ACI: number }) {
   return [
     { name: "FractalD", value: s.fractalD },
+    { name: "Δα", value: s.multifractalWidth },
     { name: "Lacun", value: s.lacunarityMean },
     { name: "Persist", value: s.persistenceSpanNorm },
     { name: "Branch", value: s.skeleton.branchingNorm },
@@ -625,32 +846,10 @@ function metricPairs(s: any) {
   ];
 }
 
-function clamp01(x: number) {
-  return Math.max(0, Math.min(1, x));
-}
-
-function norm01(x: number, a = 0, b = 1) {
-  return clamp01((x - a) / (b - a || 1));
-}
-
 // Overlay painters
 function paintHeat(ctx: CanvasRenderingContext2D, heat: Float32Array, w: number, h: number, alpha = 0.4) {
   const img = ctx.getImageData(0, 0, w, h);
-  let min = Infinity, max = -Infinity;
-  for (let i = 0; i < heat.length; i++) {
-    const v = heat[i];
-    if (v < min) min = v;
-    if (v > max) max = v;
-  }
-  const rng = max - min || 1;
-  for (let i = 0; i < heat.length; i++) {
-    const v = (heat[i] - min) / rng;
-    const [r, g, b] = turbo(v);
-    const j = i * 4;
-    img.data[j] = Math.round(r * 255 * alpha + img.data[j] * (1 - alpha));
-    img.data[j + 1] = Math.round(g * 255 * alpha + img.data[j + 1] * (1 - alpha));
-    img.data[j + 2] = Math.round(b * 255 * alpha + img.data[j + 2] * (1 - alpha));
-  }
+  blendHeat(img.data, normalize01(heat), turbo, alpha);
   ctx.putImageData(img, 0, 0);
 }
 
@@ -668,24 +867,48 @@ function paintMask(ctx: CanvasRenderingContext2D, mask: Uint8Array, w: number, h
   ctx.putImageData(img, 0, 0);
 }
 
-function paintSkeleton(ctx: CanvasRenderingContext2D, points: Uint8Array, w: number, h: number) {
-  const img = ctx.getImageData(0, 0, w, h);
-  for (let i = 0; i < points.length; i++) {
-    if (points[i]) {
-      const j = i * 4;
-      img.data[j] = 240;
-      img.data[j + 1] = 240;
-      img.data[j + 2] = 240;
-      img.data[j + 3] = 255;
+// Orientation field: a tick along the local structure every `step` px, longer where coherent
+function drawOrientationField(ctx: CanvasRenderingContext2D, orientation: Float32Array, coherence: Float32Array, w: number, h: number, step = 12) {
+  ctx.save();
+  ctx.lineWidth = 1.25;
+  ctx.strokeStyle = "rgba(250,204,21,0.9)";
+  ctx.beginPath();
+  for (let y = step >> 1; y < h; y += step) {
+    for (let x = step >> 1; x < w; x += step) {
+      const i = y * w + x;
+      const len = 0.5 * step * coherence[i];
+      if (len < 1) continue;
+      // Orientation is counter-clockwise on screen; canvas y points down.
+      const dx = Math.cos(orientation[i]) * len, dy = -Math.sin(orientation[i]) * len;
+      ctx.moveTo(x - dx, y - dy);
+      ctx.lineTo(x + dx, y + dy);
     }
   }
-  ctx.putImageData(img, 0, 0);
+  ctx.stroke();
+  ctx.restore();
 }
 
-function turbo(x: number): [number, number, number] {
-  const r = Math.min(1, Math.max(0, 1.0 + 0.0 * x - 1.5 * (x - 0.5) ** 2));
-  const g = Math.min(1, Math.max(0, 1.2 - 4.0 * (x - 0.5) ** 2));
-  const b = Math.min(1, Math.max(0, 1.0 + 0.0 * x - 1.5 * (x - 0.5) ** 2));
-  return [r, g, b];
-}
+// Skeleton graph: branches as polylines, nodes colored by degree
+const DEGREE_COLORS: Record<number, string> = { 1: "#f472b6", 2: "#a3a3a3", 3: "#22d3ee", 4: "#facc15" };
 
+function drawSkeletonGraph(ctx: CanvasRenderingContext2D, graph: SkeletonGraph, w: number) {
+  ctx.save();
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = "rgba(240,240,240,0.9)";
+  ctx.beginPath();
+  for (const e of graph.edges) {
+    e.path.forEach((p, k) => {
+      const x = (p % w) + 0.5, y = Math.floor(p / w) + 0.5;
+      if (k === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+  }
+  ctx.stroke();
+  for (const n of graph.nodes) {
+    ctx.fillStyle = DEGREE_COLORS[Math.min(4, n.degree)] ?? DEGREE_COLORS[2];
+    ctx.beginPath();
+    ctx.arc(n.x + 0.5, n.y + 0.5, n.degree >= 3 ? 3.5 : 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+}
@@ -8,6 +8,8 @@ import { ImagePlus, Download } from "lucide-react";
 import { ToolHeader } from "../../components/ToolHeader";
 import { ClipboardViewer, ClipboardButton, saveToClipboard } from "../../components/ClipboardViewer";
 import { Cropper } from "../../components/CropperWithMenu";
+import { toGrayFloat } from "../../lib/image/grayscale";
+import { boxBlur, normalize01 } from "../../lib/image/filters";
 
 // ========== Types ==========
 
@@ -33,30 +35,6 @@ function lerp(a: number, b: number, t: number) {
   return a + (b - a) * t;
 }
 
-function toGrayscaleLuminosity(img: ImageData): Float32Array {
-  const { width, height, data } = img;
-  const out = new Float32Array(width * height);
-  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
-    const r = data[i] / 255;
-    const g = data[i + 1] / 255;
-    const b = data[i + 2] / 255;
-    out[p] = 0.299 * r + 0.587 * g + 0.114 * b;
-  }
-  return out;
-}
-
-function normalize01(buf: Float32Array) {
-  let min = Infinity, max = -Infinity;
-  for (const v of buf) {
-    if (v < min) min = v;
-    if (v > max) max = v;
-  }
-  const range = max - min || 1;
-  const out = new Float32Array(buf.length);
-  for (let i = 0; i < buf.length; i++) out[i] = (buf[i] - min) / range;
-  return out;
-}
-
 function applyGamma(buf01: Float32Array, gamma: number) {
   const out = new Float32Array(buf01.length);
   const g = Math.max(0.2, Math.min(5, gamma));
@@ -64,42 +42,6 @@ function applyGamma(buf01: Float32Array, gamma: number) {
   return out;
 }
 
-function boxBlurGray(buf01: Float32Array, width: number, height: number, radius: number) {
-  if (radius <= 0) return buf01;
-  const tmp = new Float32Array(buf01.length);
-  const out = new Float32Array(buf01.length);
-  const r = Math.floor(radius);
-  const w = width;
-  const h = height;
-  const kernel = 2 * r + 1;
-  // horizontal
-  for (let y = 0; y < h; y++) {
-    let acc = 0;
-    let idx = y * w;
-    for (let x = -r; x <= r; x++) acc += buf01[idx + clamp(x, 0, w - 1)];
-    tmp[idx] = acc / kernel;
-    for (let x = 1; x < w; x++) {
-      const add = buf01[idx + clamp(x + r, 0, w - 1)];
-      const rem = buf01[idx + clamp(x - r - 1, 0, w - 1)];
-      acc += add - rem;
-      tmp[idx + x] = acc / kernel;
-    }
-  }
-  // vertical
-  for (let x = 0; x < w; x++) {
-    let acc = 0;
-    for (let y = -r; y <= r; y++) acc += tmp[clamp(y, 0, h - 1) * w + x];
-    out[x] = acc / kernel;
-    for (let y = 1; y < h; y++) {
-      const add = tmp[clamp(y + r, 0, h - 1) * w + x];
-      const rem = tmp[clamp(y - r - 1, 0, h - 1) * w + x];
-      acc += add - rem;
-      out[y * w + x] = acc / kernel;
-    }
-  }
-  return out;
-}
-
 function resizeImageData(img: ImageData, targetWidth: number): { img: ImageData; scale: number } {
   const { width, height } = img;
   if (width <= targetWidth) return { img, scale: 1 };
@@ -458,13 +400,13 @@ export default function StereogramPage() {
     let depth01: Float32Array;
     if (depthImgData) {
       const { img: dsmall } = resizeImageData(depthImgData, opts.processingWidth);
-      depth01 = normalize01(toGrayscaleLuminosity(dsmall));
+      depth01 = normalize01(toGrayFloat(dsmall.data));
     } else {
-      depth01 = normalize01(toGrayscaleLuminosity(refSmall));
+      depth01 = normalize01(toGrayFloat(refSmall.data));
     }
 
     depth01 = applyGamma(depth01, opts.gammaDepth);
-    depth01 = boxBlurGray(depth01, refSmall.width, refSmall.height, opts.smoothDepth);
+    depth01 = boxBlur(depth01, refSmall.width, refSmall.height, opts.smoothDepth);
 
     const disparity = depthToDisparity(depth01, refSmall.width, refSmall.height, opts.minDisparity, opts.maxDisparity);
 
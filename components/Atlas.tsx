@@ -1,6 +1,8 @@
 "use client";
 
 import React, { useMemo } from "react";
+import { normalize01 } from "../lib/image/filters";
+import { colorize, turbo } from "../lib/image/colormaps";
 
 interface AtlasProps {
   atlas: {
@@ -42,33 +44,7 @@ function heatToDataURL(heat: Float32Array, w: number, h: number) {
   canvas.height = h;
   const ctx = canvas.getContext("2d")!;
   const img = ctx.createImageData(w, h);
-  
-  let min = Infinity, max = -Infinity;
-  for (let i = 0; i < heat.length; i++) {
-    const v = heat[i];
-    if (v < min) min = v;
-    if (v > max) max = v;
-  }
-  const rng = max - min || 1;
-  
-  for (let i = 0; i < heat.length; i++) {
-    const v = (heat[i] - min) / rng;
-    const j = i * 4;
-    const [r, g, b] = turbo(v);
-    img.data[j] = r;
-    img.data[j + 1] = g;
-    img.data[j + 2] = b;
-    img.data[j + 3] = 255;
-  }
-  
+  img.data.set(colorize(normalize01(heat), turbo));
   ctx.putImageData(img, 0, 0);
   return canvas.toDataURL("image/png");
 }
-
-function turbo(x: number): [number, number, number] {
-  const r = Math.min(255, Math.max(0, 255 * (1.0 - 1.5 * (x - 0.5) ** 2)));
-  const g = Math.min(255, Math.max(0, 255 * (1.2 - 4.0 * (x - 0.5) ** 2)));
-  const b = Math.min(255, Math.max(0, 255 * (1.0 - 1.5 * (x - 0.5) ** 2)));
-  return [r, g, b];
-}
-
@@ -5,6 +5,7 @@ import dynamic from "next/dynamic";
 
 const BarChart = dynamic(() => import("recharts").then(m => m.BarChart), { ssr: false });
 const Bar = dynamic(() => import("recharts").then(m => m.Bar), { ssr: false });
+const Cell = dynamic(() => import("recharts").then(m => m.Cell), { ssr: false });
 const XAxis = dynamic(() => import("recharts").then(m => m.XAxis), { ssr: false });
 const YAxis = dynamic(() => import("recharts").then(m => m.YAxis), { ssr: false });
 const Tooltip = dynamic(() => import("recharts").then(m => m.Tooltip), { ssr: false });
@@ -13,35 +14,61 @@ const ResponsiveContainer = dynamic(() => import("recharts").then(m => m.Respons
 
 interface Bar {
   id: number;
+  dim: 0 | 1;
   birth: number;
   death: number;
 }
 
-export default function BarcodeChart({ bars, onFocus }: { bars: Bar[]; onFocus?: (id: number) => void }) {
-  const data = bars.map(b => ({ name: String(b.id), value: b.death - b.birth }));
+const DIM_COLORS = ["#22d3ee", "#f472b6"];
+
+/** Longest-lived bars as [birth, death] intervals on the gray-level axis, H0 and H1 colored apart. */
+export default function BarcodeChart({ bars, limit = 40, onFocus }: { bars: Bar[]; limit?: number; onFocus?: (id: number) => void }) {
+  const data = [...bars]
+    .sort((a, b) => (b.death - b.birth) - (a.death - a.birth))
+    .slice(0, limit)
+    .map(b => ({ name: String(b.id), dim: b.dim, birth: b.birth, death: b.death, offset: b.birth, span: b.death - b.birth }));
   
   return (
-    <div className="h-56 w-full">
-      {typeof window !== "undefined" && data.length > 0 ? (
-        <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
-            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
-            <XAxis dataKey="name" stroke="#aaa" tick={{ fill: "#aaa" }} />
-            <YAxis stroke="#aaa" tick={{ fill: "#aaa" }} />
-            <Tooltip contentStyle={{ background: "#111", border: "1px solid rgba(255,255,255,0.1)", color: "#fff" }} />
-            <Bar 
-              dataKey="value" 
-              fill="#22d3ee"
-              onClick={(d: any) => onFocus && onFocus(Number(d.name))} 
-            />
-          </BarChart>
-        </ResponsiveContainer>
-      ) : (
-        <div className="h-full grid place-items-center text-neutral-500 text-sm">
-          No barcode data yet
+    <div className="w-full">
+      <div className="h-56 w-full">
+        {typeof window !== "undefined" && data.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} layout="vertical" barCategoryGap={1} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              <XAxis type="number" domain={[0, 255]} stroke="#aaa" tick={{ fill: "#aaa" }} />
+              <YAxis type="category" dataKey="name" hide />
+              <Tooltip
+                contentStyle={{ background: "#111", border: "1px solid rgba(255,255,255,0.1)", color: "#fff" }}
+                formatter={(_v: any, _n: any, item: any) => {
+                  const p = item?.payload;
+                  return p ? [`${p.birth} → ${p.death}`, `H${p.dim}`] : null;
+                }}
+                labelFormatter={() => ""}
+              />
+              <Bar dataKey="offset" stackId="bar" fill="transparent" isAnimationActive={false} legendType="none" tooltipType="none" />
+              <Bar
+                dataKey="span"
+                stackId="bar"
+                isAnimationActive={false}
+                onClick={(d: any) => onFocus && onFocus(Number(d.name))}
+              >
+                {data.map(d => <Cell key={d.name} fill={DIM_COLORS[d.dim]} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full grid place-items-center text-neutral-500 text-sm">
+            No barcode data yet
+          </div>
+        )}
+      </div>
+      {data.length > 0 && (
+        <div className="mt-2 flex gap-4 text-xs text-neutral-400">
+          <span><span className="inline-block h-2 w-3 mr-1 rounded-sm" style={{ background: DIM_COLORS[0] }} />H0 components</span>
+          <span><span className="inline-block h-2 w-3 mr-1 rounded-sm" style={{ background: DIM_COLORS[1] }} />H1 holes</span>
+          <span className="ml-auto">{bars.length} bars · top {data.length}</span>
         </div>
       )}
     </div>
   );
 }
-
@@ -191,6 +191,8 @@ function MenuItem({
 type CropperProps = BaseProps & {
   mode: CropMode;
   overlayEnabled?: boolean; // NEW: hide overlay until user chooses a mode
+  /** Preselected rectangle in image pixels (square/circle modes); Enter accepts it */
+  initialRect?: { x: number; y: number; w: number; h: number };
 };
 
 export const Cropper: React.FC<CropperProps> = ({
@@ -202,6 +204,7 @@ export const Cropper: React.FC<CropperProps> = ({
   writeToSystemClipboard = true,
   showToolbar = true,
   overlayEnabled = true,
+  initialRect,
 }) => {
   const imgRef = useRef<HTMLImageElement | null>(null);
   const overlayRef = useRef<HTMLCanvasElement | null>(null);
@@ -266,6 +269,14 @@ export const Cropper: React.FC<CropperProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [imgLoaded, natural.w, natural.h, dpr, mode, start, end, poly, polyClosed, overlayEnabled]);
 
+  // Show the preselected rectangle once the display scale is known
+  useEffect(() => {
+    if (!imgLoaded || !initialRect || mode === "custom") return;
+    const s = display.scale;
+    setStart({ x: initialRect.x * s, y: initialRect.y * s });
+    setEnd({ x: (initialRect.x + initialRect.w) * s, y: (initialRect.y + initialRect.h) * s });
+  }, [imgLoaded, display.scale, initialRect, mode]);
+
   const onImgLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
     const el = e.currentTarget;
     setNatural({ w: el.naturalWidth, h: el.naturalHeight });
@@ -421,6 +432,16 @@ export const Cropper: React.FC<CropperProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [mode, polyClosed, poly.length, overlayEnabled]);
 
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!overlayEnabled || mode === "custom" || dragging) return;
+      if (e.key === "Enter" && start && end) void finalizeRectOrEllipseCrop();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode, start, end, dragging, overlayEnabled]);
+
   useEffect(() => {
     if (!overlayEnabled) return;
     if (mode === "custom" && polyClosed && poly.length >= 3) {
@@ -602,10 +623,11 @@ export const Cropper: React.FC<CropperProps> = ({
 
   const hint = useMemo(() => {
     if (!overlayEnabled) return "";
+    if (mode === "square" && initialRect) return "Suggested crop shown. Press Enter to accept, or drag a new rectangle.";
     if (mode === "square") return "Drag to draw a rectangle. Release to crop.";
     if (mode === "circle") return "Drag to draw an ellipse/circle. Release to crop.";
     return "Click to place vertices. Double-click or click near the first point to close. Esc cancels, Backspace undoes.";
-  }, [mode, overlayEnabled]);
+  }, [mode, overlayEnabled, initialRect]);
 
   return (
     <div style={{ width }} className="relative select-none">
@@ -0,0 +1,37 @@
+"use client";
+
+import React from "react";
+import dynamic from "next/dynamic";
+import type { LacunarityCurve } from "../lib/complexity/lacunarity";
+
+const LineChart = dynamic(() => import("recharts").then(m => m.LineChart), { ssr: false });
+const Line = dynamic(() => import("recharts").then(m => m.Line), { ssr: false });
+const XAxis = dynamic(() => import("recharts").then(m => m.XAxis), { ssr: false });
+const YAxis = dynamic(() => import("recharts").then(m => m.YAxis), { ssr: false });
+const Tooltip = dynamic(() => import("recharts").then(m => m.Tooltip), { ssr: false });
+const CartesianGrid = dynamic(() => import("recharts").then(m => m.CartesianGrid), { ssr: false });
+const ResponsiveContainer = dynamic(() => import("recharts").then(m => m.ResponsiveContainer), { ssr: false });
+
+/** Gliding-box Λ(r) on log–log axes. */
+export default function LacunarityChart({ curve }: { curve: LacunarityCurve }) {
+  const data = curve.r.map((r, i) => ({ r, Lambda: +curve.Lambda[i].toFixed(4) }));
+  
+  if (typeof window === "undefined" || !data.length) {
+    return <div className="h-48 grid place-items-center text-neutral-500 text-sm">No curve yet</div>;
+  }
+  
+  return (
+    <div className="h-48">
+      <div className="text-[10px] text-neutral-500 mb-1">Λ(r), log–log · slope = {curve.slope.toFixed(3)}</div>
+      <ResponsiveContainer width="100%" height="90%">
+        <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis dataKey="r" type="number" scale="log" domain={["dataMin", "dataMax"]} ticks={curve.r} stroke="#aaa" tick={{ fill: "#aaa" }} />
+          <YAxis scale="log" domain={["auto", "auto"]} stroke="#aaa" tick={{ fill: "#aaa" }} tickFormatter={(v: number) => v.toFixed(2)} />
+          <Tooltip contentStyle={{ background: "#111", border: "1px solid rgba(255,255,255,0.1)", color: "#fff" }} />
+          <Line type="monotone" dataKey="Lambda" stroke="#22d3ee" dot={{ r: 2 }} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import React from "react";
+import dynamic from "next/dynamic";
+import type { MultifractalSpectrum } from "../lib/complexity/multifractal";
+
+const LineChart = dynamic(() => import("recharts").then(m => m.LineChart), { ssr: false });
+const Line = dynamic(() => import("recharts").then(m => m.Line), { ssr: false });
+const XAxis = dynamic(() => import("recharts").then(m => m.XAxis), { ssr: false });
+const YAxis = dynamic(() => import("recharts").then(m => m.YAxis), { ssr: false });
+const Tooltip = dynamic(() => import("recharts").then(m => m.Tooltip), { ssr: false });
+const CartesianGrid = dynamic(() => import("recharts").then(m => m.CartesianGrid), { ssr: false });
+const ResponsiveContainer = dynamic(() => import("recharts").then(m => m.ResponsiveContainer), { ssr: false });
+
+const fmt = (v: number) => +v.toFixed(3);
+
+/** D_q against q, and the f(α) singularity spectrum. */
+export default function MultifractalChart({ spectrum }: { spectrum: MultifractalSpectrum }) {
+  const dq = spectrum.q.map((q, i) => ({ q, Dq: fmt(spectrum.Dq[i]) }));
+  const fa = spectrum.alpha
+    .map((a, i) => ({ alpha: fmt(a), f: fmt(spectrum.f[i]) }))
+    .sort((a, b) => a.alpha - b.alpha);
+  
+  if (typeof window === "undefined" || !dq.length) {
+    return <div className="h-48 grid place-items-center text-neutral-500 text-sm">No spectrum yet</div>;
+  }
+  
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="h-48">
+        <div className="text-[10px] text-neutral-500 mb-1">Generalized dimensions D<sub>q</sub></div>
+        <ResponsiveContainer width="100%" height="90%">
+          <LineChart data={dq} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+            <XAxis dataKey="q" type="number" domain={["dataMin", "dataMax"]} stroke="#aaa" tick={{ fill: "#aaa" }} />
+            <YAxis domain={["auto", "auto"]} stroke="#aaa" tick={{ fill: "#aaa" }} />
+            <Tooltip contentStyle={{ background: "#111", border: "1px solid rgba(255,255,255,0.1)", color: "#fff" }} />
+            <Line type="monotone" dataKey="Dq" stroke="#22d3ee" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="h-48">
+        <div className="text-[10px] text-neutral-500 mb-1">Singularity spectrum f(α) · Δα = {spectrum.width.toFixed(3)}</div>
+        <ResponsiveContainer width="100%" height="90%">
+          <LineChart data={fa} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+            <XAxis dataKey="alpha" type="number" domain={["auto", "auto"]} stroke="#aaa" tick={{ fill: "#aaa" }} />
+            <YAxis domain={["auto", "auto"]} stroke="#aaa" tick={{ fill: "#aaa" }} />
+            <Tooltip contentStyle={{ background: "#111", border: "1px solid rgba(255,255,255,0.1)", color: "#fff" }} />
+            <Line type="monotone" dataKey="f" stroke="#f472b6" dot={{ r: 2 }} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import type { OrientationRose as Rose } from "../lib/complexity/orientation";
+
+const SIZE = 200;
+const R = 86;
+
+/** Axial rose diagram: each bin is drawn twice (θ and θ + 180°), petal radius ∝ √share. */
+export default function OrientationRose({ rose }: { rose: Rose }) {
+  const top = Math.max(...rose.weights, 1e-9);
+  const half = 90 / rose.weights.length;
+  const c = SIZE / 2;
+  // Angles are counter-clockwise on screen, so y flips against SVG's downward axis.
+  const xy = (deg: number, r: number) => {
+    const a = (deg * Math.PI) / 180;
+    return { x: c + r * Math.cos(a), y: c - r * Math.sin(a) };
+  };
+  const point = (deg: number, r: number) => {
+    const p = xy(deg, r);
+    return `${p.x},${p.y}`;
+  };
+  const petal = (mid: number, r: number) =>
+    `M${c},${c} L${point(mid - half, r)} A${r},${r} 0 0 0 ${point(mid + half, r)} Z`;
+  const axis = (deg: number, r: number) => {
+    const a = xy(deg, r), b = xy(deg + 180, r);
+    return { x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+  };
+
+  if (!rose.weights.some(v => v > 0)) {
+    return <div className="h-48 grid place-items-center text-neutral-500 text-sm">No oriented structure</div>;
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="h-48 w-48 shrink-0">
+        {[0.25, 0.5, 0.75, 1].map(f => (
+          <circle key={f} cx={c} cy={c} r={R * f} fill="none" stroke="rgba(255,255,255,0.1)" />
+        ))}
+        {[0, 45, 90, 135].map(d => (
+          <line key={d} {...axis(d, R)} stroke="rgba(255,255,255,0.1)" />
+        ))}
+        {rose.angles.map((a, k) => {
+          const r = R * Math.sqrt(rose.weights[k] / top);
+          if (r < 0.5) return null;
+          return (
+            <g key={a} fill="rgba(34,211,238,0.55)" stroke="#22d3ee" strokeWidth={0.5}>
+              <path d={petal(a, r)} />
+              <path d={petal(a + 180, r)} />
+            </g>
+          );
+        })}
+        <line {...axis(rose.dominant, R + 8)} stroke="#f472b6" strokeWidth={1.5} strokeDasharray="4 3" />
+      </svg>
+      <div className="text-xs text-neutral-400 space-y-1">
+        <div>Dominant: <span className="text-neutral-200">{rose.dominant.toFixed(1)}°</span></div>
+        <div className="text-[10px] text-neutral-500">0° = horizontal, counter-clockwise</div>
+        <div className="text-[10px] text-neutral-500">{rose.weights.length} bins · weighted by λ₁ − λ₂</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import dynamic from "next/dynamic";
+import { diagramPoints } from "../lib/complexity/diagram";
+
+const ScatterChart = dynamic(() => import("recharts").then(m => m.ScatterChart), { ssr: false });
+const Scatter = dynamic(() => import("recharts").then(m => m.Scatter), { ssr: false });
+const XAxis = dynamic(() => import("recharts").then(m => m.XAxis), { ssr: false });
+const YAxis = dynamic(() => import("recharts").then(m => m.YAxis), { ssr: false });
+const Tooltip = dynamic(() => import("recharts").then(m => m.Tooltip), { ssr: false });
+const CartesianGrid = dynamic(() => import("recharts").then(m => m.CartesianGrid), { ssr: false });
+const ResponsiveContainer = dynamic(() => import("recharts").then(m => m.ResponsiveContainer), { ssr: false });
+
+interface Bar {
+  dim: 0 | 1;
+  birth: number;
+  death: number;
+}
+
+const DIM_COLORS = ["#22d3ee", "#f472b6"];
+const DIAGONAL = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+/** Birth vs death scatter; `compare` draws a second diagram as hollow points. */
+export default function PersistenceDiagram({ bars, compare, limit = 300 }: { bars: Bar[]; compare?: Bar[] | null; limit?: number }) {
+  const series = (src: Bar[], dim: 0 | 1) => diagramPoints(src, dim, limit).map(p => ({ x: p.birth, y: p.death }));
+  
+  return (
+    <div className="h-56 w-full">
+      {typeof window !== "undefined" && bars.length > 0 ? (
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+            <XAxis type="number" dataKey="x" name="birth" domain={[0, 255]} stroke="#aaa" tick={{ fill: "#aaa" }} />
+            <YAxis type="number" dataKey="y" name="death" domain={[0, 255]} stroke="#aaa" tick={{ fill: "#aaa" }} />
+            <Scatter data={DIAGONAL} line={{ stroke: "rgba(255,255,255,0.3)" }} shape={() => <g />} legendType="none" tooltipType="none" isAnimationActive={false} />
+            <Tooltip contentStyle={{ background: "#111", border: "1px solid rgba(255,255,255,0.1)", color: "#fff" }} />
+            <Scatter name="H0" data={series(bars, 0)} fill={DIM_COLORS[0]} isAnimationActive={false} />
+            <Scatter name="H1" data={series(bars, 1)} fill={DIM_COLORS[1]} isAnimationActive={false} />
+            {compare && <Scatter name="H0 (B)" data={series(compare, 0)} fill="none" stroke={DIM_COLORS[0]} isAnimationActive={false} />}
+            {compare && <Scatter name="H1 (B)" data={series(compare, 1)} fill="none" stroke={DIM_COLORS[1]} isAnimationActive={false} />}
+          </ScatterChart>
+        </ResponsiveContainer>
+      ) : (
+        <div className="h-full grid place-items-center text-neutral-500 text-sm">
+          No diagram yet
+        </div>
+      )}
+    </div>
+  );
+}
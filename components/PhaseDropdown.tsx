@@ -8,6 +8,7 @@ export type Phase = { label: string; href: string; };
 const PHASES: Phase[] = [
   { label: "Studio", href: "/clipboard" },
   { label: "Charge Field", href: "/charge-field" },
+  { label: "Composition", href: "/composition" },
   { label: "Stereogram Lab", href: "/stereogram" },
   { label: "Differentials", href: "/differentials" },
   { label: "Fractalization", href: "/fractalization" },
@@ -0,0 +1,80 @@
+// Web Worker for the Charge Field pipeline
+// Previews coarse pyramid levels first, then the full-size field (and the A/B variant's).
+
+import { chargeViewSteps } from "./pipeline";
+import type { ChargePayload, ChargeWorkerRequest, ChargeWorkerResponse } from "./protocol";
+import type { TermInput } from "./terms";
+import { toGrayFloat } from "../image/grayscale";
+import { normalize01Joint } from "../image/filters";
+import { resampleBilinear, resizeRGBA } from "../image/pyramid";
+
+const scope = self as unknown as {
+  postMessage(msg: ChargeWorkerResponse, transfer?: Transferable[]): void;
+  onmessage: ((e: MessageEvent<ChargeWorkerRequest>) => void) | null;
+};
+
+/** Coarse levels are previewed only while their short side stays at least this large. */
+const PREVIEW_MIN_SIDE = 96;
+const MAX_PREVIEW_LEVELS = 2;
+
+/** Id of the job allowed to run; anything else is stale. */
+let active: number | null = null;
+
+// A macrotask, so a queued request with newer params gets delivered between stages.
+const breathe = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/** Drives a view's steps, returning null once a newer job has superseded this one. */
+async function runView(id: number, input: TermInput, payload: ChargePayload, stretch = true) {
+  const steps = chargeViewSteps(input, payload.view, payload.params, payload.terms, stretch);
+  for (;;) {
+    await breathe();
+    if (active !== id) return null;
+    const r = steps.next();
+    if (r.done) return r.value;
+  }
+}
+
+async function compute(id: number, payload: ChargePayload) {
+  const { width: W, height: H } = payload;
+  const inputOf = (rgba: Uint8ClampedArray, width: number, height: number): TermInput => ({ width, height, rgba, L: toGrayFloat(rgba) });
+  const rgba = new Uint8ClampedArray(payload.rgba);
+
+  let coarse = 0;
+  while (coarse < MAX_PREVIEW_LEVELS && Math.min(W, H) >> (coarse + 1) >= PREVIEW_MIN_SIDE) coarse++;
+
+  for (let k = coarse; k >= 1; k--) {
+    const w = W >> k, h = H >> k;
+    const field = await runView(id, inputOf(resizeRGBA(rgba, W, H, w, h), w, h), payload);
+    if (!field) return;
+    const up = resampleBilinear(field, w, h, W, H);
+    scope.postMessage({ type: "partial", id, data: { level: k, levels: coarse + 1, field: up.buffer } }, [up.buffer]);
+  }
+
+  // With a B variant both mixes stay unstretched and share one min/max, so B − A is a
+  // change in charge rather than in each image's own normalization.
+  const compare = !!payload.rgbaB;
+  let field = await runView(id, inputOf(rgba, W, H), payload, !compare);
+  if (!field) return;
+  let fieldB: Float32Array | undefined;
+  if (payload.rgbaB) {
+    const b = await runView(id, inputOf(new Uint8ClampedArray(payload.rgbaB), W, H), payload, false);
+    if (!b) return;
+    [field, fieldB] = normalize01Joint([field, b]);
+  }
+  active = null;
+  scope.postMessage(
+    { type: "result", id, data: { field: field.buffer, fieldB: fieldB?.buffer } },
+    fieldB ? [field.buffer, fieldB.buffer] : [field.buffer]
+  );
+}
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  if (msg?.type !== "compute") return;
+
+  active = msg.id;
+  compute(msg.id, msg.payload).catch((err) => {
+    if (active === msg.id) active = null;
+    scope.postMessage({ type: "error", id: msg.id, data: String((err as Error)?.message || err) });
+  });
+};
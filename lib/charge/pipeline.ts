@@ -0,0 +1,65 @@
+// Multi-scale aesthetic charge: the Charge Field pipeline, shared by the page and its worker
+//
+// Charge is the weighted sum of the enabled terms in the registry (lib/charge/terms),
+// squashed with tanh and then smoothed along the image's own edges. Every view is a
+// row-major field at the input's size.
+
+import { blur3x3, centralGradient, normalize01 } from "../image/filters";
+import { CHARGE_TERMS, termSetting } from "./terms";
+import type { ChargeParams, ChargeTermId, TermInput, TermSettings } from "./terms";
+
+/** The mixed charge, or a single term on its own. */
+export type ChargeView = "charge" | ChargeTermId;
+
+export function guidedSmooth(signal: Float32Array, guide: Float32Array, W: number, H: number, strength: number, iters: number): Float32Array {
+  let cur = signal;
+  for (let t = 0; t < iters; t++) {
+    const blur = blur3x3(cur, W, H);
+    const out = new Float32Array(cur.length);
+    const { gx, gy } = centralGradient(guide, W, H);
+    for (let i = 0; i < out.length; i++) {
+      const grad = Math.min(1, Math.hypot(gx[i], gy[i]) * 4.0);
+      const k = strength * (1.0 - grad);
+      out[i] = cur[i] * (1 - k) + blur[i] * k;
+    }
+    cur = out;
+  }
+  return cur;
+}
+
+/**
+ * One view of the pipeline, pausing (`yield`) after each term and before smoothing so a
+ * driver can give up part-way, e.g. when a worker receives newer params. The return
+ * value is the field. With `stretch` off the mix is left on tanh's scale instead of being
+ * stretched to 0..1, so fields of two images can be put on one shared scale.
+ */
+export function* chargeViewSteps(
+  input: TermInput,
+  view: ChargeView,
+  params: ChargeParams,
+  terms: TermSettings,
+  stretch = true
+): Generator<void, Float32Array, void> {
+  const { width: W, height: H, L } = input;
+  if (view !== "charge") return CHARGE_TERMS.find((t) => t.id === view)!.compute(input, params);
+
+  const acc = new Float32Array(W * H);
+  for (const term of CHARGE_TERMS) {
+    const { enabled, weight } = termSetting(terms, term);
+    if (!enabled || weight === 0) continue;
+    const field = term.compute(input, params);
+    for (let i = 0; i < acc.length; i++) acc[i] += weight * field[i];
+    yield;
+  }
+  for (let i = 0; i < acc.length; i++) acc[i] = Math.tanh(params.squash * acc[i]);
+  const smoothed = guidedSmooth(acc, L, W, H, params.smooth, 1);
+  return stretch ? normalize01(smoothed) : smoothed;
+}
+
+/** Runs a view to completion on the calling thread. */
+export function chargeView(input: TermInput, view: ChargeView, params: ChargeParams, terms: TermSettings): Float32Array {
+  const steps = chargeViewSteps(input, view, params, terms);
+  let r = steps.next();
+  while (!r.done) r = steps.next();
+  return r.value;
+}
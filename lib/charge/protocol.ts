@@ -0,0 +1,28 @@
+// Message protocol between the Charge Field page and charge.worker.ts
+//
+// Every request carries a job id. A newer "compute" cancels the running job: the worker
+// stops at its next stage boundary and posts nothing more for the old id.
+
+import type { ChargeView } from "./pipeline";
+import type { ChargeParams, TermSettings } from "./terms";
+
+export type ChargePayload = {
+  width: number;
+  height: number;
+  view: ChargeView;
+  params: ChargeParams;
+  terms: TermSettings;
+  /** RGBA bytes, transferred */
+  rgba: ArrayBufferLike;
+  /** RGBA bytes of an A/B variant at the same size, transferred */
+  rgbaB?: ArrayBufferLike;
+};
+
+export type ChargeWorkerRequest = { type: "compute"; id: number; payload: ChargePayload };
+
+export type ChargeWorkerResponse =
+  /** Preview from a coarse pyramid level, upsampled to full size (Float32, transferred). */
+  | { type: "partial"; id: number; data: { level: number; levels: number; field: ArrayBufferLike } }
+  /** With fieldB, both fields are on one shared 0..1 scale (joint min/max of the raw mixes). */
+  | { type: "result"; id: number; data: { field: ArrayBufferLike; fieldB?: ArrayBufferLike } }
+  | { type: "error"; id: number; data: string };
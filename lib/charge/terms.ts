@@ -0,0 +1,224 @@
+// Registry of charge terms: the cues the Charge Field mixes into aesthetic charge
+//
+// Each term maps an image to a 0..1 field at the image's size. Charge is the weighted sum
+// of the enabled terms, so a new cue only needs an entry here to get a view, a toggle and
+// a weight slider on the page. Geometric priors (center, grids) ignore the pixels.
+
+import { blur3x3, blur3x3Iter, boxBlur, normalize01, sobel } from "../image/filters";
+import { buildPyramid, resampleBilinear } from "../image/pyramid";
+
+export type TermInput = {
+  width: number;
+  height: number;
+  /** RGBA bytes */
+  rgba: Uint8ClampedArray;
+  /** Luma in 0..1 */
+  L: Float32Array;
+};
+
+/** Pipeline settings shared by the terms and the final mix. */
+export type ChargeParams = {
+  levels: number;
+  /** Weight per pyramid level of the multi-scale contrast, finest first. */
+  alpha: number[];
+  squash: number;
+  /** Edge-aware smoothing strength, 0..1. */
+  smooth: number;
+};
+
+export const DEFAULT_CHARGE_PARAMS: ChargeParams = {
+  levels: 4,
+  alpha: [0.6, 0.9, 1.2, 1.4],
+  squash: 1.2,
+  smooth: 0.35,
+};
+
+export type ChargeTerm = {
+  id: string;
+  /** Name in the term list. */
+  label: string;
+  /** Name on the view selector. */
+  short: string;
+  /** Default weight and state. */
+  weight: number;
+  enabled: boolean;
+  compute(input: TermInput, params: ChargeParams): Float32Array;
+};
+
+// ---------- Luminance terms ----------
+
+function axpy(dst: Float32Array, src: Float32Array, a: number = 1) {
+  for (let i = 0; i < dst.length; i++) dst[i] += a * src[i];
+}
+
+function localBandpass3x3(img: Float32Array, W: number, H: number): Float32Array {
+  const blur = blur3x3(img, W, H);
+  const out = new Float32Array(W * H);
+  for (let i = 0; i < out.length; i++) out[i] = Math.abs(img[i] - blur[i]);
+  return normalize01(out);
+}
+
+export function multiScaleContrast(L: Float32Array, W: number, H: number, levels: number, alphas: number[]): Float32Array {
+  const pyr = buildPyramid({ data: L, width: W, height: H }, levels);
+  let acc = new Float32Array(W * H);
+  for (let k = 0; k < pyr.length; k++) {
+    const { data, width: w, height: h } = pyr[k];
+    const band = localBandpass3x3(data, w, h);
+    const up = resampleBilinear(band, w, h, W, H);
+    axpy(acc, up, alphas[k] || 1.0);
+  }
+  return normalize01(acc);
+}
+
+export function globalLuminancePull(L: Float32Array): Float32Array {
+  const sorted = Array.from(L).sort((a, b) => a - b);
+  const med = sorted[(sorted.length / 2) | 0];
+  const out = new Float32Array(L.length);
+  for (let i = 0; i < out.length; i++) out[i] = Math.abs(L[i] - med);
+  return normalize01(out);
+}
+
+export function lowFreqSalience(L: Float32Array, W: number, H: number): Float32Array {
+  const w2 = Math.max(1, (W / 16) | 0), h2 = Math.max(1, (H / 16) | 0);
+  const small = resampleBilinear(L, W, H, w2, h2);
+  const b1 = blur3x3Iter(small, w2, h2, 1);
+  const b2 = blur3x3Iter(small, w2, h2, 3);
+  const dog = new Float32Array(w2 * h2);
+  for (let i = 0; i < dog.length; i++) dog[i] = Math.abs(b1[i] - b2[i]);
+  const up = resampleBilinear(normalize01(dog), w2, h2, W, H);
+  return normalize01(up);
+}
+
+// ---------- Color terms ----------
+
+const srgbToLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+/** CIE L*a*b* (D65) planes from sRGB bytes. */
+function rgbaToLab(rgba: Uint8ClampedArray): [Float32Array, Float32Array, Float32Array] {
+  const n = rgba.length >> 2;
+  const Lp = new Float32Array(n), ap = new Float32Array(n), bp = new Float32Array(n);
+  for (let i = 0, j = 0; i < n; i++, j += 4) {
+    const r = srgbToLinear(rgba[j] / 255), g = srgbToLinear(rgba[j + 1] / 255), b = srgbToLinear(rgba[j + 2] / 255);
+    const fx = labF((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047);
+    const fy = labF(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    const fz = labF((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883);
+    Lp[i] = 116 * fy - 16;
+    ap[i] = 500 * (fx - fy);
+    bp[i] = 200 * (fy - fz);
+  }
+  return [Lp, ap, bp];
+}
+
+/** Two box passes ≈ a Gaussian surround of radius ~r, at O(1) cost per pixel. */
+const surround = (src: Float32Array, W: number, H: number, r: number) => boxBlur(boxBlur(src, W, H, r), W, H, r);
+
+/** Center–surround distance in Lab: a lightly blurred pixel against its neighbourhood's mean color. */
+export function labContrast({ rgba, width: W, height: H }: TermInput): Float32Array {
+  const r = Math.max(2, Math.round(Math.hypot(W, H) / 40));
+  const planes = rgbaToLab(rgba);
+  const out = new Float32Array(W * H);
+  for (const p of planes) {
+    const center = blur3x3(p, W, H);
+    const around = surround(p, W, H, r);
+    for (let i = 0; i < out.length; i++) out[i] += (center[i] - around[i]) ** 2;
+  }
+  for (let i = 0; i < out.length; i++) out[i] = Math.sqrt(out[i]);
+  return normalize01(out);
+}
+
+const smoothstep = (a: number, b: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - a) / (b - a)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Skin-tone likelihood in CbCr (around the Chai–Ngan skin cluster), faded out in deep
+ * shadow and blown highlights, then pooled so face-sized patches beat scattered pixels.
+ * A color prior only; it does not detect faces.
+ */
+export function skinPrior({ rgba, L, width: W, height: H }: TermInput): Float32Array {
+  const out = new Float32Array(W * H);
+  for (let i = 0, j = 0; i < out.length; i++, j += 4) {
+    const R = rgba[j], G = rgba[j + 1], B = rgba[j + 2];
+    const cb = 128 - 0.168736 * R - 0.331264 * G + 0.5 * B;
+    const cr = 128 + 0.5 * R - 0.418688 * G - 0.081312 * B;
+    const d2 = ((cb - 102) / 15) ** 2 + ((cr - 153) / 12) ** 2;
+    out[i] = Math.exp(-0.5 * d2) * smoothstep(0.1, 0.25, L[i]) * (1 - smoothstep(0.92, 1, L[i]));
+  }
+  return normalize01(surround(out, W, H, Math.max(1, Math.round(Math.hypot(W, H) / 80))));
+}
+
+// ---------- Structure terms ----------
+
+/** Share of edge pixels (Sobel magnitude above twice its mean) in a local window. */
+export function edgeDensity({ L, width: W, height: H }: TermInput): Float32Array {
+  const { gx, gy } = sobel(L, W, H);
+  const mag = new Float32Array(W * H);
+  let mean = 0;
+  for (let i = 0; i < mag.length; i++) mean += mag[i] = Math.hypot(gx[i], gy[i]);
+  mean /= mag.length;
+  const edges = new Float32Array(W * H);
+  for (let i = 0; i < edges.length; i++) edges[i] = mag[i] > 2 * mean ? 1 : 0;
+  return normalize01(surround(edges, W, H, Math.max(2, Math.round(Math.hypot(W, H) / 60))));
+}
+
+// ---------- Geometric priors ----------
+
+/** Anisotropic Gaussian at the frame center, σ = 30% of each side. */
+export function centerBias({ width: W, height: H }: TermInput): Float32Array {
+  const out = new Float32Array(W * H);
+  const sx = 0.3 * W, sy = 0.3 * H, cx = (W - 1) / 2, cy = (H - 1) / 2;
+  for (let y = 0, i = 0; y < H; y++) {
+    const ey = ((y - cy) / sy) ** 2;
+    for (let x = 0; x < W; x++, i++) out[i] = Math.exp(-0.5 * (((x - cx) / sx) ** 2 + ey));
+  }
+  return out;
+}
+
+/** Soft grid at fractions `t` and 1 − `t` of each side: lines at half strength, their crossings at full. */
+export function gridPrior(W: number, H: number, t: number): Float32Array {
+  const s = 0.03 * Math.min(W, H);
+  const lineX = [t * (W - 1), (1 - t) * (W - 1)], lineY = [t * (H - 1), (1 - t) * (H - 1)];
+  const near = (n: number, lines: number[]) =>
+    Float32Array.from({ length: n }, (_, v) => Math.max(...lines.map((c) => Math.exp(-0.5 * ((v - c) / s) ** 2))));
+  const gx = near(W, lineX), gy = near(H, lineY);
+  const out = new Float32Array(W * H);
+  for (let y = 0, i = 0; y < H; y++) {
+    for (let x = 0; x < W; x++, i++) out[i] = 0.5 * Math.max(gx[x], gy[y]) + 0.5 * gx[x] * gy[y];
+  }
+  return out;
+}
+
+const PHI_FRACTION = 1 / (1 + (1 + Math.sqrt(5)) / 2); // ≈ 0.382
+
+// ---------- Registry ----------
+
+export const CHARGE_TERMS = [
+  {
+    id: "ms", label: "Multi-Scale Contrast", short: "Multi-Scale", weight: 1, enabled: true,
+    compute: ({ L, width, height }, p) => multiScaleContrast(L, width, height, p.levels, p.alpha),
+  },
+  { id: "gl", label: "Global Luminance", short: "Global", weight: 0.8, enabled: true, compute: ({ L }) => globalLuminancePull(L) },
+  { id: "lf", label: "Low-Freq Salience", short: "Low-Freq", weight: 0.5, enabled: true, compute: ({ L, width, height }) => lowFreqSalience(L, width, height) },
+  { id: "lab", label: "Lab Color Contrast", short: "Color", weight: 0.6, enabled: false, compute: labContrast },
+  { id: "edges", label: "Edge Density", short: "Edges", weight: 0.4, enabled: false, compute: edgeDensity },
+  { id: "skin", label: "Skin / Face Prior", short: "Skin", weight: 0.5, enabled: false, compute: skinPrior },
+  { id: "center", label: "Center Bias", short: "Center", weight: 0.3, enabled: false, compute: centerBias },
+  { id: "thirds", label: "Rule-of-Thirds Grid", short: "Thirds", weight: 0.3, enabled: false, compute: ({ width, height }) => gridPrior(width, height, 1 / 3) },
+  { id: "phi", label: "Golden-Ratio Grid", short: "Phi", weight: 0.3, enabled: false, compute: ({ width, height }) => gridPrior(width, height, PHI_FRACTION) },
+] as const satisfies readonly ChargeTerm[];
+
+export type ChargeTermId = (typeof CHARGE_TERMS)[number]["id"];
+
+export type TermSetting = { enabled: boolean; weight: number };
+/** Per-term user settings; terms missing here (e.g. added since they were saved) use their defaults. */
+export type TermSettings = Partial<Record<ChargeTermId, TermSetting>>;
+
+export const DEFAULT_TERM_SETTINGS: TermSettings = Object.fromEntries(
+  CHARGE_TERMS.map((t) => [t.id, { enabled: t.enabled, weight: t.weight }])
+);
+
+export function termSetting(settings: TermSettings, term: ChargeTerm & { id: ChargeTermId }): TermSetting {
+  return settings[term.id] ?? { enabled: term.enabled, weight: term.weight };
+}
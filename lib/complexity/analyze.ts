@@ -0,0 +1,148 @@
+// Runs the full Multi-Scale complexity suite on one image
+
+import { boxCountFractal } from "./fractal";
+import { DEFAULT_MULTIFRACTAL_OPTIONS, multifractalSpectrum } from "./multifractal";
+import type { MultifractalSpectrum } from "./multifractal";
+import { lacunarityMap } from "./lacunarity";
+import type { LacunarityCurve } from "./lacunarity";
+import { persistenceSweep } from "./persistence";
+import { skeletonize } from "./skeleton";
+import type { SkeletonGraph } from "./skeleton";
+import { orientationCoherence } from "./orientation";
+import type { OrientationRose } from "./orientation";
+import { DEFAULT_KOLMOGOROV_OPTIONS, kolmogorovEstimate } from "./kolmogorov";
+import type { BinarizationInfo, ThresholdOptions } from "../image/threshold";
+
+export type ComplexityOptions = {
+  /** Shared foreground selection for the fractal (binary mode), persistence and skeleton metrics. */
+  binarization: ThresholdOptions;
+  fractal: Parameters<typeof boxCountFractal>[3];
+  multifractal: Parameters<typeof multifractalSpectrum>[3];
+  lacunarity: Parameters<typeof lacunarityMap>[3];
+  persistence: Parameters<typeof persistenceSweep>[3];
+  skeleton: Parameters<typeof skeletonize>[3];
+  orientation: Parameters<typeof orientationCoherence>[3];
+  kolmogorov: Parameters<typeof kolmogorovEstimate>[3];
+};
+
+export type ComplexityMetrics = {
+  fractalD: number;
+  multifractalWidth: number;
+  lacunarityMean: number;
+  lacunaritySlope: number;
+  persistenceSpanNorm: number;
+  skeleton: { branchingNorm: number; loops: number; strahlerOrder: number; meanBranchLength: number };
+  orientation: { coherenceMean: number };
+  kolmogorovNorm: number;
+};
+
+export type ComplexityOverlays = {
+  fractalHeat: Float32Array;
+  lacunarityHeat: Float32Array;
+  persistenceHot: Uint8Array;
+  skeleton: Uint8Array;
+  coherenceHeat: Float32Array;
+  /** Dominant structure orientation per pixel, radians in [0, π). */
+  orientationField: Float32Array;
+  kolmogorovHeat: Float32Array;
+};
+
+export type AtlasTile = { name: string; heat: Float32Array; w: number; h: number };
+
+export type ComplexityAnalysis = {
+  metrics: ComplexityMetrics;
+  overlays: ComplexityOverlays;
+  persistence: Pick<ReturnType<typeof persistenceSweep>, "bars" | "regionMasks" | "cut">;
+  /** The binarization each metric actually ran on (fractal is null in gray-surface mode). */
+  binarization: { fractal: BinarizationInfo | null; persistence: BinarizationInfo; skeleton: BinarizationInfo };
+  multifractal: MultifractalSpectrum;
+  lacunarity: LacunarityCurve;
+  skeletonGraph: SkeletonGraph;
+  orientationRose: OrientationRose;
+  atlas: { tiles: AtlasTile[] };
+};
+
+/** The defaults the Multi-Scale page uses for a w×h image. */
+export function defaultComplexityOptions(w: number, h: number): ComplexityOptions {
+  return {
+    binarization: { mode: "otsu", window: 25 },
+    fractal: { minBox: 4, maxBox: Math.floor(Math.min(w, h) / 2), steps: 8, mode: "differential", window: 33 },
+    multifractal: DEFAULT_MULTIFRACTAL_OPTIONS,
+    lacunarity: { windowSizes: [2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 64] },
+    persistence: { thresholds: 32 },
+    skeleton: { thinningIters: 30 },
+    orientation: { sigma: 4, bins: 36 },
+    kolmogorov: DEFAULT_KOLMOGOROV_OPTIONS,
+  };
+}
+
+export function analyzeComplexity(
+  rgba: Uint8ClampedArray,
+  gray: Uint8Array,
+  w: number,
+  h: number,
+  opts: ComplexityOptions,
+  onProgress: (stage: string) => void = () => {}
+): ComplexityAnalysis {
+  onProgress("Fractal D…");
+  const fractal = boxCountFractal(gray, w, h, { binarization: opts.binarization, ...opts.fractal });
+
+  onProgress("Multifractal spectrum…");
+  const mf = multifractalSpectrum(gray, w, h, opts.multifractal);
+
+  onProgress("Lacunarity…");
+  const lac = lacunarityMap(gray, w, h, opts.lacunarity);
+
+  onProgress("Persistence sweep…");
+  const pers = persistenceSweep(gray, w, h, { binarization: opts.binarization, ...opts.persistence });
+
+  onProgress("Skeletonizing…");
+  const skel = skeletonize(gray, w, h, { binarization: opts.binarization, ...opts.skeleton });
+
+  onProgress("Orientation coherence…");
+  const coh = orientationCoherence(gray, w, h, opts.orientation);
+
+  onProgress("Compression estimate…");
+  const kolmo = kolmogorovEstimate(rgba, w, h, opts.kolmogorov);
+
+  return {
+    metrics: {
+      fractalD: fractal.D,
+      multifractalWidth: mf.width,
+      lacunarityMean: lac.mean,
+      lacunaritySlope: lac.curve.slope,
+      persistenceSpanNorm: pers.spanNorm,
+      skeleton: {
+        branchingNorm: skel.branchingNorm,
+        loops: skel.graph.stats.loops,
+        strahlerOrder: skel.graph.stats.strahlerOrder,
+        meanBranchLength: skel.graph.stats.meanBranchLength,
+      },
+      orientation: { coherenceMean: coh.mean },
+      kolmogorovNorm: kolmo.norm,
+    },
+    overlays: {
+      fractalHeat: fractal.heat,
+      lacunarityHeat: lac.heat,
+      persistenceHot: pers.hot,
+      skeleton: skel.points,
+      coherenceHeat: coh.heat,
+      orientationField: coh.orientation,
+      kolmogorovHeat: kolmo.heat,
+    },
+    persistence: { bars: pers.bars, regionMasks: pers.regionMasks, cut: pers.cut },
+    binarization: { fractal: fractal.binarization, persistence: pers.binarization, skeleton: skel.binarization },
+    multifractal: mf,
+    lacunarity: lac.curve,
+    skeletonGraph: skel.graph,
+    orientationRose: coh.rose,
+    atlas: {
+      tiles: [
+        { name: "Fractal", heat: fractal.heat, w, h },
+        { name: "Lacunarity", heat: lac.heat, w, h },
+        { name: "Coherence", heat: coh.heat, w, h },
+        { name: "Kolmogorov", heat: kolmo.heat, w, h },
+      ],
+    },
+  };
+}
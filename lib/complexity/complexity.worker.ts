@@ -0,0 +1,41 @@
+// Web Worker for the Multi-Scale complexity suite
+// Bundled by Next from lib/complexity, so it always runs the same code as everything else.
+
+import { analyzeComplexity } from "./analyze";
+import type { ComplexityResult, ComplexityWorkerRequest, ComplexityWorkerResponse } from "./protocol";
+
+const scope = self as unknown as {
+  postMessage(msg: ComplexityWorkerResponse, transfer?: Transferable[]): void;
+  onmessage: ((e: MessageEvent<ComplexityWorkerRequest>) => void) | null;
+};
+
+scope.postMessage({ type: "ready" });
+
+scope.onmessage = (e) => {
+  const { type, payload } = e.data || {};
+  if (type !== "analyze") return;
+
+  try {
+    const { width: w, height: h } = payload;
+    const rgba = new Uint8ClampedArray(payload.rgba);
+    const gray = new Uint8Array(payload.gray);
+    const baseImage = new ImageData(new Uint8ClampedArray(rgba), w, h);
+
+    const analysis = analyzeComplexity(rgba, gray, w, h, payload, (stage) =>
+      scope.postMessage({ type: "progress", data: stage })
+    );
+    const result: ComplexityResult = { ...analysis, baseImage };
+
+    scope.postMessage({ type: "result", data: result }, [
+      result.overlays.fractalHeat.buffer,
+      result.overlays.lacunarityHeat.buffer,
+      result.overlays.coherenceHeat.buffer,
+      result.overlays.orientationField.buffer,
+      result.overlays.kolmogorovHeat.buffer,
+      result.overlays.persistenceHot.buffer,
+      result.overlays.skeleton.buffer,
+    ]);
+  } catch (err) {
+    scope.postMessage({ type: "error", data: String((err as Error)?.message || err) });
+  }
+};
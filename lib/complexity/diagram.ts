@@ -0,0 +1,160 @@
+// Persistence diagram distances (bottleneck and 1-Wasserstein) between two images' barcodes
+//
+// Points are (birth, death) pairs on the 0..255 gray scale with the L∞ ground metric; any
+// point may instead be matched to the diagonal at cost (death − birth) / 2. Both distances
+// are exact on the diagrams they are given — `compareDiagrams` keeps the `maxPoints` most
+// persistent points per dimension, so short noise bars beyond that are ignored.
+
+import type { PersistenceBar } from "./persistence";
+
+export type DiagramPoint = { birth: number; death: number };
+
+export type DiagramDistance = { bottleneck: number; wasserstein: number; points: [number, number] };
+
+const BIG = 1e9;
+
+export function diagramPoints(bars: Pick<PersistenceBar, "dim" | "birth" | "death">[], dim: 0 | 1, maxPoints = Infinity): DiagramPoint[] {
+  return bars
+    .filter(b => b.dim === dim && b.death > b.birth)
+    .sort((a, b) => (b.death - b.birth) - (a.death - a.birth))
+    .slice(0, maxPoints)
+    .map(({ birth, death }) => ({ birth, death }));
+}
+
+/**
+ * Square cost matrix of size n+m: rows are A's points then B's diagonal projections,
+ * columns are B's points then A's diagonal projections. Disallowed pairs cost BIG.
+ */
+function augmentedCosts(a: DiagramPoint[], b: DiagramPoint[]) {
+  const n = a.length, m = b.length, N = n + m;
+  const C = new Float64Array(N * N);
+  for (let i = 0; i < N; i++) {
+    for (let j = 0; j < N; j++) {
+      let c: number;
+      if (i < n && j < m) c = Math.max(Math.abs(a[i].birth - b[j].birth), Math.abs(a[i].death - b[j].death));
+      else if (i < n) c = j - m === i ? (a[i].death - a[i].birth) / 2 : BIG;
+      else if (j < m) c = i - n === j ? (b[j].death - b[j].birth) / 2 : BIG;
+      else c = 0;
+      C[i * N + j] = c;
+    }
+  }
+  return { C, N };
+}
+
+/** Hungarian algorithm (shortest augmenting paths with potentials), O(N³). Returns the minimum total cost. */
+function minCostAssignment(C: Float64Array, N: number) {
+  const u = new Float64Array(N + 1), v = new Float64Array(N + 1);
+  const p = new Int32Array(N + 1), way = new Int32Array(N + 1);
+  const minv = new Float64Array(N + 1);
+  const used = new Uint8Array(N + 1);
+  for (let i = 1; i <= N; i++) {
+    p[0] = i;
+    let j0 = 0;
+    minv.fill(Infinity);
+    used.fill(0);
+    do {
+      used[j0] = 1;
+      const i0 = p[j0];
+      let delta = Infinity, j1 = 0;
+      for (let j = 1; j <= N; j++) {
+        if (used[j]) continue;
+        const cur = C[(i0 - 1) * N + (j - 1)] - u[i0] - v[j];
+        if (cur < minv[j]) { minv[j] = cur; way[j] = j0; }
+        if (minv[j] < delta) { delta = minv[j]; j1 = j; }
+      }
+      for (let j = 0; j <= N; j++) {
+        if (used[j]) { u[p[j]] += delta; v[j] -= delta; }
+        else minv[j] -= delta;
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+  let total = 0;
+  for (let j = 1; j <= N; j++) total += C[(p[j] - 1) * N + (j - 1)];
+  return total;
+}
+
+/** Hopcroft–Karp: is there a perfect matching using only edges with cost ≤ eps? */
+function hasPerfectMatching(C: Float64Array, N: number, eps: number) {
+  const adj: number[][] = Array.from({ length: N }, (_, i) => {
+    const row: number[] = [];
+    for (let j = 0; j < N; j++) if (C[i * N + j] <= eps) row.push(j);
+    return row;
+  });
+  const matchL = new Int32Array(N).fill(-1), matchR = new Int32Array(N).fill(-1);
+  const dist = new Int32Array(N);
+
+  const bfs = () => {
+    const queue: number[] = [];
+    let found = false;
+    for (let i = 0; i < N; i++) {
+      if (matchL[i] < 0) { dist[i] = 0; queue.push(i); }
+      else dist[i] = -1;
+    }
+    for (let k = 0; k < queue.length; k++) {
+      const i = queue[k];
+      for (const j of adj[i]) {
+        const i2 = matchR[j];
+        if (i2 < 0) found = true;
+        else if (dist[i2] < 0) { dist[i2] = dist[i] + 1; queue.push(i2); }
+      }
+    }
+    return found;
+  };
+  const dfs = (i: number): boolean => {
+    for (const j of adj[i]) {
+      const i2 = matchR[j];
+      if (i2 < 0 || (dist[i2] === dist[i] + 1 && dfs(i2))) {
+        matchL[i] = j;
+        matchR[j] = i;
+        return true;
+      }
+    }
+    dist[i] = -1;
+    return false;
+  };
+
+  let matched = 0;
+  while (bfs()) {
+    for (let i = 0; i < N; i++) if (matchL[i] < 0 && dfs(i)) matched++;
+  }
+  return matched === N;
+}
+
+export function wassersteinDistance(a: DiagramPoint[], b: DiagramPoint[]) {
+  if (!a.length && !b.length) return 0;
+  const { C, N } = augmentedCosts(a, b);
+  return minCostAssignment(C, N);
+}
+
+/** Smallest eps admitting a perfect matching, by binary search over the distinct edge costs. */
+export function bottleneckDistance(a: DiagramPoint[], b: DiagramPoint[]) {
+  if (!a.length && !b.length) return 0;
+  const { C, N } = augmentedCosts(a, b);
+  const candidates = Array.from(new Set(Array.from(C).filter(c => c < BIG))).sort((x, y) => x - y);
+  let lo = 0, hi = candidates.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (hasPerfectMatching(C, N, candidates[mid])) hi = mid;
+    else lo = mid + 1;
+  }
+  return candidates[lo];
+}
+
+/** Per-dimension distances between two barcodes, on the 0..255 gray scale. */
+export function compareDiagrams(
+  barsA: Pick<PersistenceBar, "dim" | "birth" | "death">[],
+  barsB: Pick<PersistenceBar, "dim" | "birth" | "death">[],
+  maxPoints = 150
+): Record<"H0" | "H1", DiagramDistance> {
+  const dist = (dim: 0 | 1): DiagramDistance => {
+    const a = diagramPoints(barsA, dim, maxPoints), b = diagramPoints(barsB, dim, maxPoints);
+    return { bottleneck: bottleneckDistance(a, b), wasserstein: wassersteinDistance(a, b), points: [a.length, b.length] };
+  };
+  return { H0: dist(0), H1: dist(1) };
+}
@@ -0,0 +1,199 @@
+// Entropy & Exhaustion metrics (shared by the Entropy page and /api/analyze/entropy)
+
+import { toGrayU8 } from "../image/grayscale";
+import { sobel } from "../image/filters";
+import { compressionRatio, pngFilterScanlines } from "./kolmogorov";
+
+export type EntropyOptions = {
+  bins: number;
+  fftSize: number;
+  lzWindow: number;
+  /** "phrases": LZ76 phrase count over the first lzWindow bytes; "deflate": whole-image compression ratio (0..1). */
+  lzEstimator: "phrases" | "deflate";
+  weights: { gray: number; chroma: number; texture: number; edges: number };
+};
+
+export type LocalEntropyOptions = {
+  bins: number;
+  patch: number;
+  stride: number;
+  /** Divide by log2(bins) instead of the fixed 8-bit maximum */
+  localNormalize: boolean;
+};
+
+export const DEFAULT_ENTROPY_OPTIONS: EntropyOptions & LocalEntropyOptions = {
+  bins: 64,
+  patch: 16,
+  stride: 8,
+  fftSize: 128,
+  lzWindow: 1024,
+  lzEstimator: "phrases",
+  localNormalize: false,
+  weights: { gray: 0.35, chroma: 0.25, texture: 0.2, edges: 0.2 },
+};
+
+export type EntropyMetrics = {
+  globalEntropy: number;
+  chromaEntropy: number;
+  texture: number;
+  edgeDensity: number;
+  meanGradMag: number;
+  gradEntropy: number;
+  /** Phrase count under "phrases", a 0..1 compression ratio under "deflate". */
+  lzComplexity: number;
+  /** Which estimator produced lzComplexity. */
+  lzEstimator: EntropyOptions["lzEstimator"];
+  spectralEntropy: number;
+  aestheticEntropy: number;
+};
+
+export function histogram(gray: ArrayLike<number>, bins: number) {
+  const h = new Float32Array(bins);
+  const binSize = 256 / bins;
+  for (let i = 0; i < gray.length; i++) {
+    const b = Math.min(bins - 1, Math.floor(gray[i] / binSize));
+    h[b]++;
+  }
+  const n = gray.length || 1;
+  for (let i = 0; i < bins; i++) h[i] /= n;
+  return h;
+}
+
+export function entropyFromProb(prob: Float32Array) {
+  let H = 0;
+  for (let i = 0; i < prob.length; i++) {
+    const p = prob[i];
+    if (p > 0) H -= p * Math.log2(p);
+  }
+  return H;
+}
+
+export function perChannelEntropies(pixels: Uint8ClampedArray, bins = 256) {
+  const rHist = new Float32Array(bins);
+  const gHist = new Float32Array(bins);
+  const bHist = new Float32Array(bins);
+  const n = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    rHist[pixels[i]]++;
+    gHist[pixels[i + 1]]++;
+    bHist[pixels[i + 2]]++;
+  }
+  const ent = (hist: Float32Array) => {
+    let H = 0;
+    for (let i = 0; i < bins; i++) if (hist[i] > 0) { const p = hist[i] / n; H -= p * Math.log2(p); }
+    return H;
+  };
+  return { r: ent(rHist), g: ent(gHist), b: ent(bHist), avg: (ent(rHist) + ent(gHist) + ent(bHist)) / 3 };
+}
+
+export function localVariance(gray: Uint8Array, w: number, h: number) {
+  let acc = 0, cnt = 0;
+  const idx = (x: number, y: number) => y * w + x;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      let mean = 0;
+      for (let j = -1; j <= 1; j++)
+        for (let i = -1; i <= 1; i++) mean += gray[idx(x + i, y + j)];
+      mean /= 9;
+      let v = 0;
+      for (let j = -1; j <= 1; j++)
+        for (let i = -1; i <= 1; i++) {
+          const d = gray[idx(x + i, y + j)] - mean;
+          v += d * d;
+        }
+      v /= 9;
+      acc += v;
+      cnt++;
+    }
+  }
+  return acc / Math.max(1, cnt);
+}
+
+export function lempelZivComplexity(data: Uint8Array, windowSize: number) {
+  const n = Math.min(data.length, windowSize);
+  const dict = new Set<string>();
+  let i = 0, s = "";
+  while (i < n) {
+    s += String.fromCharCode(data[i] & 0x0f);
+    if (!dict.has(s)) {
+      dict.add(s);
+      s = "";
+    }
+    i++;
+  }
+  return dict.size;
+}
+
+export function entropyMetrics(rgba: Uint8ClampedArray, width: number, height: number, opts: EntropyOptions): EntropyMetrics {
+  const { bins, fftSize, lzWindow, lzEstimator, weights } = opts;
+  const gray = toGrayU8(rgba);
+
+  const globalEntropy = entropyFromProb(histogram(gray, bins));
+  const chroma = perChannelEntropies(rgba, bins);
+  const texture = localVariance(gray, width, height);
+
+  const { gx, gy } = sobel(gray, width, height);
+  let edgeSum = 0, gradSum = 0;
+  const gradMags = new Uint8ClampedArray(gx.length);
+  for (let i = 0; i < gx.length; i++) {
+    const mag = Math.sqrt(gx[i] * gx[i] + gy[i] * gy[i]);
+    gradSum += mag;
+    gradMags[i] = Math.min(255, mag);
+    if (mag > 20) edgeSum++;
+  }
+  const edgeDensity = edgeSum / gx.length;
+
+  // Spectral entropy (simplified - just FFT magnitude entropy)
+  const fftData = gray.slice(0, fftSize * fftSize);
+
+  const Hnorm = globalEntropy / Math.log2(bins);
+  const Cnorm = chroma.avg / Math.log2(bins);
+  const Tnorm = Math.min(1, texture / 1000);
+
+  return {
+    globalEntropy,
+    chromaEntropy: chroma.avg,
+    texture,
+    edgeDensity,
+    meanGradMag: gradSum / gx.length,
+    gradEntropy: entropyFromProb(histogram(gradMags, bins)),
+    lzComplexity: lzEstimator === "deflate"
+      ? compressionRatio(pngFilterScanlines(gray, width, height, 1))
+      : lempelZivComplexity(gray, lzWindow),
+    lzEstimator,
+    spectralEntropy: entropyFromProb(histogram(fftData, bins)),
+    aestheticEntropy: weights.gray * Hnorm + weights.chroma * Cnorm + weights.texture * Tnorm + weights.edges * edgeDensity,
+  };
+}
+
+/** Patch-wise Shannon entropy, normalized to roughly 0..1. */
+export function localEntropyMap(gray: Uint8Array, w: number, h: number, opts: LocalEntropyOptions): Float32Array {
+  const { bins, patch, stride, localNormalize } = opts;
+  const localMap = new Float32Array(w * h);
+  const binSize = 256 / bins;
+  const pHist = new Float32Array(bins);
+  for (let y = 0; y < h; y += stride) {
+    for (let x = 0; x < w; x += stride) {
+      pHist.fill(0);
+      let n = 0;
+      for (let py = 0; py < patch && y + py < h; py++) {
+        for (let px = 0; px < patch && x + px < w; px++) {
+          pHist[Math.min(bins - 1, Math.floor(gray[(y + py) * w + (x + px)] / binSize))]++;
+          n++;
+        }
+      }
+      let H = 0;
+      for (let i = 0; i < bins; i++) {
+        const p = pHist[i] / (n || 1);
+        if (p > 0) H -= p * Math.log2(p);
+      }
+      const Hnorm = localNormalize ? H / Math.log2(bins) : H / 8;
+      for (let py = 0; py < patch && y + py < h; py++) {
+        for (let px = 0; px < patch && x + px < w; px++) {
+          localMap[(y + py) * w + (x + px)] = Hnorm;
+        }
+      }
+    }
+  }
+  return localMap;
+}
@@ -1,70 +1,135 @@
 // Box-counting fractal dimension calculation
+//
+// "binary" counts occupied boxes of the binarized image (dark foreground, see image/threshold).
+// "differential" is Sarkar & Chaudhuri's differential box counting on the gray surface;
+// its surface dimension (2..3) is reported as the profile dimension D − 1 so both modes
+// share the 1..2 range. `heat` is a per-pixel local D field on the same scale.
 
-export function boxCountFractal(gray: Uint8Array, w: number, h: number, opts: { minBox: number; maxBox: number; steps: number }) {
+import { boxBlur, maxFilter, minFilter } from "../image/filters";
+import { leastSquaresSlope } from "../image/stats";
+import { binarizationInfo, binarize } from "../image/threshold";
+import type { BinarizationInfo, ThresholdOptions } from "../image/threshold";
+
+export type FractalMode = "binary" | "differential";
+
+export type FractalOptions = {
+  minBox: number;
+  maxBox: number;
+  steps: number;
+  mode?: FractalMode;
+  /** Foreground selection for "binary" mode; a fixed cut at 250 when omitted. */
+  binarization?: ThresholdOptions;
+  /** Side of the sliding window used for the local D map. */
+  window?: number;
+};
+
+const GRAY_LEVELS = 256;
+
+export function boxCountFractal(gray: Uint8Array, w: number, h: number, opts: FractalOptions) {
+  const { minBox, maxBox, steps, mode = "differential", window = 33 } = opts;
+  const bin = mode === "binary" ? binarize(gray, w, h, opts.binarization ?? { mode: "manual", value: 250 }) : null;
   const sizes: number[] = [];
   const counts: number[] = [];
-  const heat = new Float32Array(w * h);
-  const { minBox, maxBox, steps } = opts;
-  
+  const M = Math.min(w, h);
+
   for (let s = 0; s < steps; s++) {
     const box = Math.max(2, Math.round(minBox * Math.pow(maxBox / minBox, s / (steps - 1))));
+    if (sizes.includes(box)) continue;
     sizes.push(box);
+    // Box height on the gray axis keeps the s : M ratio of the spatial grid.
+    const boxH = (box * GRAY_LEVELS) / M;
     let c = 0;
-    
-    for (let y = 0; y < h; y += box) {
-      for (let x = 0; x < w; x += box) {
-        let filled = false;
-        for (let j = y; j < Math.min(h, y + box) && !filled; j++) {
-          for (let i = x; i < Math.min(w, x + box) && !filled; i++) {
-            if (gray[j * w + i] < 250) filled = true;
+
+    // Full boxes only: partial ones at the right/bottom edges would count as whole boxes
+    // and inflate N(s) at large s, e.g. pulling a flat image's D below 1. The count is
+    // then scaled from the tiled area back to the whole image.
+    for (let y = 0; y + box <= h; y += box) {
+      for (let x = 0; x + box <= w; x += box) {
+        let lo = 255, hi = 0, occupied = 0;
+        for (let j = y; j < y + box; j++) {
+          for (let i = x; i < x + box; i++) {
+            const v = gray[j * w + i];
+            if (v < lo) lo = v;
+            if (v > hi) hi = v;
+            if (bin) occupied |= bin.mask[j * w + i];
           }
         }
-        if (filled) {
-          c++;
-          for (let j = y; j < Math.min(h, y + box); j++) {
-            for (let i = x; i < Math.min(w, x + box); i++) {
-              heat[j * w + i] += 1;
-            }
-          }
+        if (bin) {
+          c += occupied;
+        } else {
+          c += Math.floor(hi / boxH) - Math.floor(lo / boxH) + 1;
         }
       }
     }
-    counts.push(c);
+    const tiled = Math.floor(w / box) * Math.floor(h / box) * box * box;
+    counts.push(tiled > 0 ? (c * w * h) / tiled : c);
   }
-  
+
   // log–log slope (least squares)
   const xs = sizes.map(s => Math.log(1 / s));
   const ys = counts.map(c => Math.log(c + 1e-9));
-  const D = slope(xs, ys);
-  
-  // normalize heat
-  let max = 0;
+  // Least-squares noise can leave the fit slightly outside the documented 1..2 range.
+  const D = bin ? leastSquaresSlope(xs, ys) : Math.max(1, Math.min(2, leastSquaresSlope(xs, ys) - 1));
+
+  const heat = bin ? localMassRadiusD(bin.mask, w, h, window) : localDifferentialD(gray, w, h, window);
+
+  // The gray-surface mode never binarizes, so it has nothing to report.
+  const binarization: BinarizationInfo | null = bin && binarizationInfo(bin);
+  return { D, heat, binarization };
+}
+
+/** Window radii 1, 2, 4, … up to half the window. */
+function localRadii(window: number) {
+  const radii: number[] = [];
+  for (let r = 1; 2 * r <= Math.max(2, window >> 1); r *= 2) radii.push(r);
+  return radii;
+}
+
+/**
+ * Mass–radius dimension per pixel: slope of log(foreground mass in a (2r+1)² box)
+ * against log(2r+1). Pixels with no foreground anywhere in the largest box get 0.
+ */
+function localMassRadiusD(bin: Uint8Array, w: number, h: number, window: number) {
+  const radii = localRadii(window);
+  const xs = radii.map(r => Math.log(2 * r + 1));
+  const masses = radii.map(r => boxBlur(bin, w, h, r));
+  const heat = new Float32Array(w * h);
+  const ys = new Array<number>(radii.length);
   for (let i = 0; i < heat.length; i++) {
-    if (heat[i] > max) max = heat[i];
-  }
-  if (max > 0) {
-    for (let i = 0; i < heat.length; i++) {
-      heat[i] /= max;
+    if (masses[masses.length - 1][i] <= 0) continue;
+    for (let k = 0; k < radii.length; k++) {
+      const side = 2 * radii[k] + 1;
+      ys[k] = Math.log(Math.max(masses[k][i] * side * side, 0.5));
     }
+    heat[i] = Math.max(0, Math.min(2, leastSquaresSlope(xs, ys)));
   }
-  
-  return { D, heat };
+  return heat;
 }
 
-function slope(x: number[], y: number[]) {
-  const n = x.length;
-  const mx = mean(x);
-  const my = mean(y);
-  let num = 0, den = 0;
-  for (let i = 0; i < n; i++) {
-    const dx = x[i] - mx;
-    num += dx * (y[i] - my);
-    den += dx * dx;
-  }
-  return den ? num / den : 0;
-}
+/**
+ * Sliding-window differential box counting: at each scale the per-pixel box count
+ * n = ⌊max/h′⌋ − ⌊min/h′⌋ + 1 over a (2r+1)² neighbourhood is averaged across the
+ * window, and the slope of log n against log(1/s) gives D_surface − 2 = D − 1.
+ */
+function localDifferentialD(gray: Uint8Array, w: number, h: number, window: number) {
+  const radii = localRadii(window);
+  const avgR = window >> 1;
+  const xs = radii.map(r => Math.log(1 / (2 * r + 1)));
+  const counts = radii.map(r => {
+    const side = 2 * r + 1;
+    const boxH = (side * GRAY_LEVELS) / window;
+    const hi = maxFilter(gray, w, h, r);
+    const lo = minFilter(gray, w, h, r);
+    const n = new Float32Array(w * h);
+    for (let i = 0; i < n.length; i++) n[i] = Math.floor(hi[i] / boxH) - Math.floor(lo[i] / boxH) + 1;
+    return boxBlur(n, w, h, avgR);
+  });
 
-function mean(a: number[]) {
-  return a.reduce((p, c) => p + c, 0) / (a.length || 1);
+  const heat = new Float32Array(w * h);
+  const ys = new Array<number>(radii.length);
+  for (let i = 0; i < heat.length; i++) {
+    for (let k = 0; k < radii.length; k++) ys[k] = Math.log(counts[k][i]);
+    heat[i] = Math.max(1, Math.min(2, 1 + leastSquaresSlope(xs, ys)));
+  }
+  return heat;
 }
-
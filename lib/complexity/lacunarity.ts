@@ -1,44 +1,60 @@
 // Lacunarity analysis for spatial distribution
+//
+// Gliding-box lacunarity (Allain & Cloitre) on the darkness mass 255 − gray: every r×r box
+// position contributes its mass M, and Λ(r) = E[M²] / E[M]². Box sums come from a
+// summed-area table, so each scale costs O(w·h) regardless of r.
+
+import { boxSum, summedAreaTable } from "../image/filters";
+import { logLogSlope } from "../image/stats";
+
+export type LacunarityCurve = { r: number[]; Lambda: number[]; slope: number };
 
 export function lacunarityMap(gray: Uint8Array, w: number, h: number, opts: { windowSizes: number[] }) {
+  const mass = new Float32Array(w * h);
+  const mass2 = new Float32Array(w * h);
+  for (let i = 0; i < mass.length; i++) {
+    mass[i] = 255 - gray[i];
+    mass2[i] = mass[i] * mass[i];
+  }
+  const S = summedAreaTable(mass, w, h);
+  const S2 = summedAreaTable(mass2, w, h);
+
+  const sizes = opts.windowSizes.filter(r => r >= 1 && r <= Math.min(w, h));
   const heat = new Float32Array(w * h);
-  const means: number[] = [];
-  
-  for (const win of opts.windowSizes) {
-    let sumL = 0, sumN = 0;
-    for (let y = 0; y < h; y += win) {
-      for (let x = 0; x < w; x += win) {
-        let m = 0, cnt = 0;
-        for (let j = y; j < Math.min(h, y + win); j++) {
-          for (let i = x; i < Math.min(w, x + win); i++) {
-            m += 255 - gray[j * w + i];
-            cnt++;
-          }
-        }
-        const mean = m / (cnt || 1);
-        let varsum = 0;
-        for (let j = y; j < Math.min(h, y + win); j++) {
-          for (let i = x; i < Math.min(w, x + win); i++) {
-            const v = (255 - gray[j * w + i]) - mean;
-            varsum += v * v;
-          }
-        }
-        const lambda = varsum / (cnt || 1) / ((mean || 1) ** 2 + 1e-9);
-        sumL += lambda;
-        sumN++;
-        for (let j = y; j < Math.min(h, y + win); j++) {
-          for (let i = x; i < Math.min(w, x + win); i++) {
-            heat[j * w + i] += lambda;
-          }
-        }
+  const r: number[] = [], Lambda: number[] = [];
+
+  for (const win of sizes) {
+    // Global Λ(r) over all gliding positions
+    let m1 = 0, m2 = 0, n = 0;
+    for (let y = 0; y + win <= h; y++) {
+      for (let x = 0; x + win <= w; x++) {
+        const M = boxSum(S, w, x, y, x + win, y + win);
+        m1 += M;
+        m2 += M * M;
+        n++;
+      }
+    }
+    const mean = m1 / (n || 1);
+    r.push(win);
+    Lambda.push(mean > 0 ? (m2 / n) / (mean * mean) : 1);
+
+    // Local λ = var / mean² of the pixel masses in the box centred on each pixel
+    const half = win >> 1;
+    for (let y = 0; y < h; y++) {
+      const y0 = Math.max(0, y - half), y1 = Math.min(h, y0 + win);
+      for (let x = 0; x < w; x++) {
+        const x0 = Math.max(0, x - half), x1 = Math.min(w, x0 + win);
+        const cnt = (x1 - x0) * (y1 - y0);
+        const mu = boxSum(S, w, x0, y0, x1, y1) / cnt;
+        const v = boxSum(S2, w, x0, y0, x1, y1) / cnt - mu * mu;
+        heat[y * w + x] += Math.max(0, v) / ((mu || 1) ** 2 + 1e-9);
       }
     }
-    means.push(sumN ? sumL / sumN : 0);
   }
-  
+
   // Average across scales
   for (let i = 0; i < heat.length; i++) {
-    heat[i] = heat[i] / (opts.windowSizes.length || 1);
+    heat[i] = heat[i] / (sizes.length || 1);
   }
   
   // Normalize
@@ -52,7 +68,10 @@ export function lacunarityMap(gray: Uint8Array, w: number, h: number, opts: { wi
     }
   }
   
-  const meanL = means.reduce((a, b) => a + b, 0) / (means.length || 1);
-  return { heat, mean: meanL };
+  // Mean of Λ − 1 (the old per-tile var/mean²), and the log Λ vs log r slope:
+  // near 0 for homogeneous texture, steeply negative when gaps close up with scale.
+  const meanL = Lambda.reduce((a, b) => a + (b - 1), 0) / (Lambda.length || 1);
+  const slope = logLogSlope(r, Lambda);
+  const curve: LacunarityCurve = { r, Lambda, slope };
+  return { heat, mean: meanL, curve };
 }
-
@@ -0,0 +1,92 @@
+// Multifractal spectrum: generalized dimensions D_q and the singularity spectrum f(α)
+//
+// The measure is image darkness (255 − gray, as in lacunarity), box-summed on dyadic grids.
+// f(α) uses the Chhabra–Jensen direct method, so no Legendre transform of noisy D_q is needed.
+
+import { leastSquaresSlope } from "../image/stats";
+
+export type MultifractalOptions = {
+  qMin: number;
+  qMax: number;
+  qStep: number;
+  minBox: number;
+  maxBox: number;
+};
+
+export type MultifractalSpectrum = {
+  q: number[];
+  Dq: number[];
+  alpha: number[];
+  f: number[];
+  /** Spectrum width α_max − α_min: 0 for a monofractal, larger for more heterogeneous texture. */
+  width: number;
+};
+
+export const DEFAULT_MULTIFRACTAL_OPTIONS: MultifractalOptions = { qMin: -5, qMax: 5, qStep: 0.5, minBox: 2, maxBox: 64 };
+
+/** Normalized box measures μ_i for each box size (empty boxes dropped). */
+function boxMeasures(gray: Uint8Array, w: number, h: number, box: number) {
+  const nx = Math.floor(w / box), ny = Math.floor(h / box);
+  const sums = new Float64Array(nx * ny);
+  let total = 0;
+  for (let y = 0; y < ny * box; y++) {
+    const row = Math.floor(y / box) * nx;
+    for (let x = 0; x < nx * box; x++) {
+      const m = 255 - gray[y * w + x];
+      sums[row + Math.floor(x / box)] += m;
+      total += m;
+    }
+  }
+  const mu: number[] = [];
+  if (total > 0) for (const s of sums) if (s > 0) mu.push(s / total);
+  return mu;
+}
+
+export function multifractalSpectrum(gray: Uint8Array, w: number, h: number, opts: MultifractalOptions): MultifractalSpectrum {
+  const { qMin, qMax, qStep, minBox } = opts;
+  const maxBox = Math.min(opts.maxBox, Math.floor(Math.min(w, h) / 4));
+  const M = Math.min(w, h);
+
+  const boxes: number[] = [];
+  for (let b = Math.max(1, minBox); b <= maxBox; b *= 2) boxes.push(b);
+  const qs: number[] = [];
+  for (let q = qMin; q <= qMax + 1e-9; q += qStep) qs.push(+q.toFixed(6));
+
+  const empty = { q: qs, Dq: qs.map(() => 0), alpha: [], f: [], width: 0 };
+  if (boxes.length < 2) return empty;
+
+  const logEps = boxes.map(b => Math.log(b / M));
+  const measures = boxes.map(b => boxMeasures(gray, w, h, b));
+  if (measures.some(mu => !mu.length)) return empty;
+
+  const Dq: number[] = [], alpha: number[] = [], f: number[] = [];
+  for (const q of qs) {
+    const yD: number[] = [], yA: number[] = [], yF: number[] = [];
+    for (const mu of measures) {
+      // Σ μ^q in log space to survive large negative q.
+      let maxLog = -Infinity;
+      for (const m of mu) maxLog = Math.max(maxLog, q * Math.log(m));
+      let z = 0;
+      for (const m of mu) z += Math.exp(q * Math.log(m) - maxLog);
+      const logZ = maxLog + Math.log(z);
+
+      let a = 0, fa = 0, ent = 0;
+      for (const m of mu) {
+        const lm = Math.log(m);
+        const p = Math.exp(q * lm - logZ);
+        a += p * lm;
+        fa += p * Math.log(p);
+        ent += m * lm;
+      }
+      yA.push(a);
+      yF.push(fa);
+      yD.push(Math.abs(q - 1) < 1e-9 ? ent : logZ / (q - 1));
+    }
+    Dq.push(leastSquaresSlope(logEps, yD));
+    alpha.push(leastSquaresSlope(logEps, yA));
+    f.push(leastSquaresSlope(logEps, yF));
+  }
+
+  const width = Math.max(...alpha) - Math.min(...alpha);
+  return { q: qs, Dq, alpha, f, width };
+}
@@ -1,71 +1,58 @@
-// Orientation coherence analysis
+// Orientation coherence from the structure tensor
+//
+// Per pixel: coherence (λ1 − λ2)/(λ1 + λ2) of the Gaussian-smoothed tensor and the dominant
+// structure orientation (along edges and lines, in [0, π) counter-clockwise from horizontal
+// as seen on screen). The rose histogram weights each
+// pixel's orientation by its oriented energy λ1 − λ2, so flat and isotropic areas don't vote.
 
-export function orientationCoherenceHeat(gray: Uint8Array, w: number, h: number, opts: { tile: number; bins: number }) {
-  const heat = new Float32Array(w * h);
-  const tile = Math.max(8, opts.tile | 0);
-  const bins = Math.max(6, opts.bins | 0);
-  
-  const Gx = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
-  const Gy = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
-  const idx = (x: number, y: number) => y * w + x;
-  const mag = new Float32Array(w * h);
-  const ang = new Float32Array(w * h);
-  
-  for (let y = 1; y < h - 1; y++) {
-    for (let x = 1; x < w - 1; x++) {
-      let sx = 0, sy = 0, k = 0;
-      for (let j = -1; j <= 1; j++) {
-        for (let i = -1; i <= 1; i++, k++) {
-          const v = gray[idx(x + i, y + j)];
-          sx += v * Gx[k];
-          sy += v * Gy[k];
-        }
-      }
-      const m = Math.hypot(sx, sy);
-      mag[idx(x, y)] = m;
-      ang[idx(x, y)] = Math.atan2(sy, sx);
-    }
-  }
-  
-  let meanC = 0, tiles = 0;
-  for (let ty = 0; ty < h; ty += tile) {
-    for (let tx = 0; tx < w; tx += tile) {
-      const hist = new Float32Array(bins);
-      let sum = 0;
-      
-      for (let y = ty; y < Math.min(h, ty + tile); y++) {
-        for (let x = tx; x < Math.min(w, tx + tile); x++) {
-          const m = mag[idx(x, y)];
-          if (m > 0) {
-            const a = (ang[idx(x, y)] + Math.PI) / (2 * Math.PI);
-            const bIdx = Math.min(bins - 1, Math.floor(a * bins));
-            hist[bIdx] += m;
-            sum += m;
-          }
-        }
-      }
-      
-      if (sum === 0) continue;
-      const mean = hist.reduce((a, b) => a + b, 0) / bins;
-      let varsum = 0;
-      for (let i = 0; i < bins; i++) {
-        const d = hist[i] - mean;
-        varsum += d * d;
-      }
-      const coh = Math.sqrt(varsum) / (sum || 1);
-      const val = 1 - Math.min(1, coh * 2);
-      meanC += val;
-      tiles++;
-      
-      for (let y = ty; y < Math.min(h, ty + tile); y++) {
-        for (let x = tx; x < Math.min(w, tx + tile); x++) {
-          heat[idx(x, y)] = val;
-        }
-      }
-    }
+import { sobel } from "../image/filters";
+import { structureTensor } from "../image/tensor";
+
+export type OrientationOptions = {
+  /** Integration scale of the tensor, in pixels. */
+  sigma: number;
+  /** Rose bins over [0°, 180°). */
+  bins: number;
+};
+
+export type OrientationRose = {
+  /** Bin centres in degrees. */
+  angles: number[];
+  /** Share of oriented energy per bin (sums to 1 unless the image is flat). */
+  weights: number[];
+  /** Circular (axial) mean orientation in degrees. */
+  dominant: number;
+};
+
+export function orientationCoherence(gray: Uint8Array, w: number, h: number, opts: OrientationOptions) {
+  const bins = Math.max(4, opts.bins | 0);
+  const { gx, gy } = sobel(gray, w, h);
+  const J = structureTensor(gx, gy, w, h, Math.max(0.5, opts.sigma));
+
+  const orientation = new Float32Array(w * h);
+  const hist = new Float64Array(bins);
+  let oriented = 0, energy = 0, c2 = 0, s2 = 0;
+  for (let i = 0; i < orientation.length; i++) {
+    // θ is the gradient direction in image (y-down) coordinates; flip it and turn 90°.
+    let a = Math.PI / 2 - J.theta[i];
+    if (a >= Math.PI) a -= Math.PI;
+    orientation[i] = a;
+    const e = J.l1[i] - J.l2[i];
+    oriented += e;
+    energy += J.l1[i] + J.l2[i];
+    hist[Math.min(bins - 1, Math.floor((a / Math.PI) * bins))] += e;
+    c2 += e * Math.cos(2 * a);
+    s2 += e * Math.sin(2 * a);
   }
-  
-  const mean = tiles ? meanC / tiles : 0;
-  return { heat, mean };
-}
 
+  const angles = Array.from({ length: bins }, (_, k) => ((k + 0.5) * 180) / bins);
+  const weights = Array.from(hist, v => (oriented > 0 ? v / oriented : 0));
+  // Rounded to 0.1° first so a near-horizontal mean lands on 0°, not 180°.
+  const dominant = ((+((Math.atan2(s2, c2) / 2) * (180 / Math.PI)).toFixed(1) % 180) + 180) % 180;
+
+  const rose: OrientationRose = { angles, weights, dominant };
+
+  // Per-pixel coherence averaged with weight λ1 + λ2 (gradient energy).
+  const mean = energy > 0 ? oriented / energy : 0;
+  return { heat: J.coherence, orientation, mean, rose };
+}
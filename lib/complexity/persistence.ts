@@ -1,78 +1,192 @@
 // Persistence homology for topological analysis
+//
+// Sublevel-set filtration of the grayscale image (dark pixels enter first), tracked with
+// union-find and the elder rule:
+//   H0 — 4-connected components of {gray ≤ t}; when two merge, the younger one dies.
+//   H1 — holes, computed by duality as 8-connected components of {gray > t} swept from the
+//        top down; a hole is born when its enclosing ring closes and dies when it fills in.
+// With an adaptive binarization the filtration runs on gray minus the local threshold, so
+// the cut sits at mid-gray everywhere and shading no longer decides which blobs merge.
 
-export function persistenceSweep(gray: Uint8Array, w: number, h: number, opts: { thresholds: number }) {
-  const T = Math.max(8, opts.thresholds | 0);
-  const bars: { id: number; birth: number; death: number }[] = [];
-  const regionMasks: Record<number, Uint8Array> = {};
-  const ids = new Int32Array(w * h);
-  let nextId = 1;
-  const lifespans = new Map<number, { birth: number; death: number }>();
-  const hot = new Uint8Array(w * h);
-  
-  for (let t = 0; t < T; t++) {
-    const thr = Math.round((t / (T - 1)) * 255);
-    const bin = new Uint8Array(w * h);
-    for (let i = 0; i < w * h; i++) {
-      bin[i] = gray[i] < thr ? 1 : 0;
+import { binarizationInfo, binarize, isAdaptive, localThresholds } from "../image/threshold";
+import type { BinarizationInfo, ThresholdOptions } from "../image/threshold";
+
+export type PersistenceBar = {
+  id: number;
+  dim: 0 | 1;
+  birth: number;
+  death: number;
+  /** Pixel that creates the class: the component's minimum (H0) or the hole's maximum (H1). */
+  pixel: number;
+};
+
+export type PersistenceOptions = {
+  thresholds: number;
+  /** Where the binarized image sits in the filtration; Otsu when omitted. */
+  binarization?: ThresholdOptions;
+};
+
+/** Betti numbers of the binarized foreground, read off the barcode at its cut. */
+export type PersistenceCut = { level: number; betti0: number; betti1: number };
+
+const LEVELS = 255;
+const MAX_REGIONS = 10;
+const MID = 128;
+
+function find(parent: Int32Array, i: number) {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+/** Pixel indices ordered by value (counting sort, ties by index). */
+function orderByValue(f: Uint8Array, descending: boolean) {
+  const counts = new Int32Array(LEVELS + 2);
+  for (let i = 0; i < f.length; i++) counts[(descending ? LEVELS - f[i] : f[i]) + 1]++;
+  for (let v = 1; v < counts.length; v++) counts[v] += counts[v - 1];
+  const order = new Int32Array(f.length);
+  for (let i = 0; i < f.length; i++) order[counts[descending ? LEVELS - f[i] : f[i]]++] = i;
+  return order;
+}
+
+function sublevelH0(f: Uint8Array, w: number, h: number) {
+  const n = w * h;
+  const parent = new Int32Array(n).fill(-1);
+  const birthPx = new Int32Array(n);
+  const bars: Omit<PersistenceBar, "id">[] = [];
+  const order = orderByValue(f, false);
+
+  for (let k = 0; k < n; k++) {
+    const p = order[k];
+    parent[p] = p;
+    birthPx[p] = p;
+    const x = p % w, y = (p / w) | 0;
+    const nbrs = [x > 0 ? p - 1 : -1, x < w - 1 ? p + 1 : -1, y > 0 ? p - w : -1, y < h - 1 ? p + w : -1];
+    for (const q of nbrs) {
+      if (q < 0 || parent[q] < 0) continue;
+      const a = find(parent, p), b = find(parent, q);
+      if (a === b) continue;
+      // Elder rule: the component with the later birth (higher minimum) dies here.
+      const [old, young] = f[birthPx[a]] <= f[birthPx[b]] ? [a, b] : [b, a];
+      if (f[birthPx[young]] < f[p]) bars.push({ dim: 0, birth: f[birthPx[young]], death: f[p], pixel: birthPx[young] });
+      parent[young] = old;
     }
-    
-    ids.fill(0);
-    for (let y = 0; y < h; y++) {
-      for (let x = 0; x < w; x++) {
-        const idx = y * w + x;
-        if (!bin[idx] || ids[idx]) continue;
-        const id = nextId++;
-        const q = [idx];
-        ids[idx] = id;
-        
-        while (q.length) {
-          const p = q.pop()!;
-          const px = p % w, py = (p / w) | 0;
-          const nbr = [p - 1, p + 1, p - w, p + w];
-          for (const n of nbr) {
-            if (n < 0 || n >= w * h) continue;
-            const nx = n % w, ny = (n / w) | 0;
-            if (Math.abs(nx - px) + Math.abs(ny - py) !== 1) continue;
-            if (bin[n] && !ids[n]) {
-              ids[n] = id;
-              q.push(n);
-            }
-          }
-        }
-        if (!lifespans.has(id)) {
-          lifespans.set(id, { birth: thr, death: thr });
-        }
+  }
+
+  // The oldest component never dies; close it at the top of the range.
+  const essential = n ? { dim: 0 as const, birth: f[order[0]], death: LEVELS, pixel: order[0] } : null;
+  return { bars, essential };
+}
+
+function sublevelH1(f: Uint8Array, w: number, h: number) {
+  const n = w * h;
+  const OUTSIDE = n;
+  const parent = new Int32Array(n + 1).fill(-1);
+  const birthPx = new Int32Array(n + 1);
+  parent[OUTSIDE] = OUTSIDE;
+  birthPx[OUTSIDE] = -1;
+  const bars: Omit<PersistenceBar, "id">[] = [];
+  const order = orderByValue(f, true);
+  // Superlevel "age": higher max = older; the image exterior is oldest of all.
+  const top = (r: number) => (birthPx[r] < 0 ? LEVELS + 1 : f[birthPx[r]]);
+
+  const union = (p: number, q: number) => {
+    const a = find(parent, p), b = find(parent, q);
+    if (a === b) return;
+    const [old, young] = top(a) >= top(b) ? [a, b] : [b, a];
+    // A background region cut off from the rest is a hole in {gray ≤ t}: it opens at f[p]
+    // (when the last enclosing pixel enters) and fills at its own maximum.
+    if (f[p] < top(young)) bars.push({ dim: 1, birth: f[p], death: top(young), pixel: birthPx[young] });
+    parent[young] = old;
+  };
+
+  for (let k = 0; k < n; k++) {
+    const p = order[k];
+    parent[p] = p;
+    birthPx[p] = p;
+    const x = p % w, y = (p / w) | 0;
+    if (x === 0 || y === 0 || x === w - 1 || y === h - 1) union(p, OUTSIDE);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (!dx && !dy) continue;
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+        const q = ny * w + nx;
+        if (parent[q] >= 0) union(p, q);
       }
     }
-    
-    for (let i = 0; i < w * h; i++) {
-      if (ids[i]) {
-        const rec = lifespans.get(ids[i])!;
-        rec.death = thr;
+  }
+  return bars;
+}
+
+/** Flood fill of the region a bar describes, just before it dies. */
+function barRegion(f: Uint8Array, w: number, h: number, bar: PersistenceBar) {
+  const mask = new Uint8Array(w * h);
+  const inside = bar.dim === 0 ? (v: number) => v < bar.death : (v: number) => v > bar.birth;
+  const stack = [bar.pixel];
+  mask[bar.pixel] = 1;
+  while (stack.length) {
+    const p = stack.pop()!;
+    const x = p % w, y = (p / w) | 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if ((!dx && !dy) || (bar.dim === 0 && dx && dy)) continue;
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+        const q = ny * w + nx;
+        if (!mask[q] && inside(f[q])) {
+          mask[q] = 1;
+          stack.push(q);
+        }
       }
     }
   }
-  
-  lifespans.forEach((v, k) => {
-    bars.push({ id: k, birth: v.birth, death: v.death });
-  });
-  bars.sort((a, b) => (b.death - b.birth) - (a.death - a.birth));
-  
-  const top = bars.slice(0, Math.min(10, bars.length));
-  for (const b of top) {
-    const thr = Math.round((b.birth + b.death) / 2);
-    const mask = new Uint8Array(w * h);
-    for (let i = 0; i < w * h; i++) {
-      if (gray[i] < thr) mask[i] = 1;
-    }
+  return mask;
+}
+
+/**
+ * `thresholds` quantizes the filtration to that many gray levels, which merges bars
+ * shorter than one step (sensor noise) without changing the topology of the rest.
+ * Births and deaths are reported on the 0..255 gray scale.
+ */
+export function persistenceSweep(gray: Uint8Array, w: number, h: number, opts: PersistenceOptions) {
+  const T = Math.max(8, opts.thresholds | 0);
+  const binOpts = opts.binarization ?? { mode: "otsu" };
+  const local = isAdaptive(binOpts.mode) ? localThresholds(gray, w, h, binOpts) : null;
+  const f = new Uint8Array(w * h);
+  for (let i = 0; i < f.length; i++) {
+    const v = local ? Math.max(0, Math.min(LEVELS, gray[i] - local[i] + MID)) : gray[i];
+    f[i] = Math.round(Math.round((v / LEVELS) * (T - 1)) * LEVELS / (T - 1));
+  }
+
+  const h0 = sublevelH0(f, w, h);
+  const finite: PersistenceBar[] = [...h0.bars, ...sublevelH1(f, w, h)].map((b, id) => ({ id: id + 1, ...b }));
+  finite.sort((a, b) => (b.death - b.birth) - (a.death - a.birth));
+
+  // The essential H0 class spans the whole range by construction, so it leads the barcode
+  // but is left out of the regions and the span metric.
+  const bars = h0.essential ? [{ id: 0, ...h0.essential }, ...finite] : finite;
+
+  const regionMasks: Record<number, Uint8Array> = {};
+  const hot = new Uint8Array(w * h);
+  for (const b of finite.slice(0, MAX_REGIONS)) {
+    const mask = barRegion(f, w, h, b);
     regionMasks[b.id] = mask;
     for (let i = 0; i < mask.length; i++) {
       if (mask[i]) hot[i] = 1;
     }
   }
-  
-  const spanMax = 255;
-  const spanNorm = top.length ? Math.min(1, (top[0].death - top[0].birth) / spanMax) : 0;
-  return { bars, regionMasks, hot, spanNorm };
-}
 
+  const spanNorm = finite.length ? Math.min(1, (finite[0].death - finite[0].birth) / LEVELS) : 0;
+
+  // Foreground is {value < cut}: a class is alive there when birth < cut ≤ death.
+  const bin = binarize(gray, w, h, binOpts);
+  const level = local ? MID : bin.threshold;
+  const alive = (dim: 0 | 1) => bars.filter(b => b.dim === dim && b.birth < level && level <= b.death).length;
+  const cut: PersistenceCut = { level, betti0: alive(0), betti1: alive(1) };
+  const binarization: BinarizationInfo = binarizationInfo(bin);
+
+  return { bars, regionMasks, hot, spanNorm, cut, binarization };
+}
@@ -0,0 +1,22 @@
+// Message protocol between the Multi-Scale page and complexity.worker.ts
+
+import type { ComplexityAnalysis, ComplexityOptions } from "./analyze";
+
+export type AnalyzePayload = ComplexityOptions & {
+  width: number;
+  height: number;
+  /** RGBA bytes, transferred */
+  rgba: ArrayBufferLike;
+  /** Luma bytes (lib/image toGrayU8), transferred */
+  gray: ArrayBufferLike;
+};
+
+export type ComplexityWorkerRequest = { type: "analyze"; payload: AnalyzePayload };
+
+export type ComplexityResult = ComplexityAnalysis & { baseImage: ImageData };
+
+export type ComplexityWorkerResponse =
+  | { type: "ready" }
+  | { type: "progress"; data: string }
+  | { type: "result"; data: ComplexityResult }
+  | { type: "error"; data: string };
@@ -0,0 +1,46 @@
+// Aesthetic Complexity Index (ACI): weighted composite of the suite metrics
+
+import type { ComplexityMetrics } from "./analyze";
+
+export type ComplexityWeights = {
+  fractalD: number;
+  multifractalWidth: number;
+  lacunarity: number;
+  persistenceSpan: number;
+  skeletonBranching: number;
+  coherence: number;
+  kolmogorov: number;
+};
+
+export const DEFAULT_WEIGHTS: ComplexityWeights = {
+  fractalD: 0.25,
+  // Off by default so existing ACI scores stay comparable; raise it on the Multi-Scale page.
+  multifractalWidth: 0,
+  lacunarity: 0.15,
+  persistenceSpan: 0.2,
+  skeletonBranching: 0.15,
+  coherence: 0.15,
+  kolmogorov: 0.10,
+};
+
+export function clamp01(x: number) {
+  return Math.max(0, Math.min(1, x));
+}
+
+export function norm01(x: number, a = 0, b = 1) {
+  return clamp01((x - a) / (b - a || 1));
+}
+
+export function aestheticComplexityIndex(m: ComplexityMetrics, weights: ComplexityWeights = DEFAULT_WEIGHTS) {
+  // lacunarityMean is Λ − 1, unbounded above; l / (1 + l) maps it into [0, 1) without saturating.
+  const lac = Math.max(0, m.lacunarityMean);
+  const ACI =
+    weights.fractalD * norm01(m.fractalD, 0, 2) +
+    weights.multifractalWidth * norm01(m.multifractalWidth, 0, 2) +
+    weights.lacunarity * (1 - lac / (1 + lac)) +
+    weights.persistenceSpan * clamp01(m.persistenceSpanNorm) +
+    weights.skeletonBranching * clamp01(m.skeleton.branchingNorm) +
+    weights.coherence * clamp01(m.orientation.coherenceMean) +
+    weights.kolmogorov * clamp01(m.kolmogorovNorm);
+  return +ACI.toFixed(3);
+}
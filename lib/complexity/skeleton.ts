@@ -1,36 +1,338 @@
-// Skeleton extraction using Zhang-Suen thinning
+// Skeleton extraction using Zhang-Suen thinning, and its graph of branches
+//
+// Nodes are endpoints (one skeleton neighbour) and junctions (three or more; touching
+// junction pixels merge into one node). Edges are the 8-connected pixel paths between
+// nodes. Closed rings with no node get one on the ring so they still appear as a loop.
 
-export function skeletonize(gray: Uint8Array, w: number, h: number, opts: { thinningIters: number }) {
-  const bin = new Uint8Array(w * h);
-  const thr = 180;
-  for (let i = 0; i < w * h; i++) {
-    bin[i] = gray[i] < thr ? 1 : 0;
+import { binarizationInfo, binarize } from "../image/threshold";
+import type { ThresholdOptions } from "../image/threshold";
+
+export type SkeletonNode = { id: number; x: number; y: number; degree: number };
+
+export type SkeletonEdge = {
+  a: number;
+  b: number;
+  /** Path length in pixels (diagonal steps count √2). */
+  length: number;
+  /** Pixel indices from node a to node b. */
+  path: number[];
+  /** Strahler order of the branch within its component's spanning tree (0 for loop-closing edges). */
+  order: number;
+};
+
+export type SkeletonStats = {
+  endpoints: number;
+  junctions: number;
+  loops: number;
+  components: number;
+  meanBranchLength: number;
+  strahlerOrder: number;
+  /** Branch-length histogram with power-of-two bins [1,2), [2,4), … */
+  lengthHistogram: { from: number; to: number; count: number }[];
+};
+
+export type SkeletonGraph = { nodes: SkeletonNode[]; edges: SkeletonEdge[]; stats: SkeletonStats };
+
+export type SkeletonOptions = {
+  thinningIters: number;
+  /** Foreground (dark) selection to thin; a fixed cut at 180 when omitted. */
+  binarization?: ThresholdOptions;
+};
+
+export function skeletonize(gray: Uint8Array, w: number, h: number, opts: SkeletonOptions) {
+  const bin = binarize(gray, w, h, opts.binarization ?? { mode: "manual", value: 180 });
+
+  const skel = pruneStaircases(zhangSuen(bin.mask, w, h, opts.thinningIters || 30), w, h);
+  const graph = skeletonGraph(skel, w, h);
+
+  // Branching: extra branches spawned at junctions per terminal branch. A line or a plain
+  // ring scores 0, a large bifurcating tree approaches 1, and junctions with no ends at all
+  // (a θ, a closed mesh) saturate it.
+  const excess = graph.nodes.reduce((s, n) => s + Math.max(0, n.degree - 2), 0);
+  const ends = graph.stats.endpoints;
+  const branchingNorm = ends ? Math.min(1, excess / ends) : excess ? 1 : 0;
+  return { points: skel, branchingNorm, graph, binarization: binarizationInfo(bin) };
+}
+
+const NBR_DX = [-1, 0, 1, -1, 1, -1, 0, 1];
+const NBR_DY = [-1, -1, -1, 0, 0, 1, 1, 1];
+
+export function skeletonGraph(skel: Uint8Array, w: number, h: number): SkeletonGraph {
+  const n = w * h;
+  const neighbours = (p: number) => {
+    const out: number[] = [];
+    const x = p % w, y = (p / w) | 0;
+    for (let k = 0; k < 8; k++) {
+      const nx = x + NBR_DX[k], ny = y + NBR_DY[k];
+      if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+      const q = ny * w + nx;
+      if (skel[q]) out.push(q);
+    }
+    return out;
+  };
+  const step = (p: number, q: number) => (p % w !== q % w && ((p / w) | 0) !== ((q / w) | 0) ? Math.SQRT2 : 1);
+
+  // Node pixels: anything that isn't a plain path pixel (exactly two neighbours)
+  const nodeOf = new Int32Array(n).fill(-1);
+  const nodes: SkeletonNode[] = [];
+  for (let p = 0; p < n; p++) {
+    if (!skel[p] || nodeOf[p] >= 0 || neighbours(p).length === 2) continue;
+    const id = nodes.length;
+    let sx = 0, sy = 0, count = 0;
+    const stack = [p];
+    nodeOf[p] = id;
+    while (stack.length) {
+      const c = stack.pop()!;
+      sx += c % w; sy += (c / w) | 0; count++;
+      if (neighbours(c).length < 3) continue; // endpoints and isolated pixels don't cluster
+      for (const q of neighbours(c)) {
+        if (nodeOf[q] < 0 && neighbours(q).length >= 3) {
+          nodeOf[q] = id;
+          stack.push(q);
+        }
+      }
+    }
+    nodes.push({ id, x: sx / count, y: sy / count, degree: 0 });
+  }
+
+  const edges: Omit<SkeletonEdge, "order">[] = [];
+  const visited = new Uint8Array(n);
+  const direct = new Set<string>();
+
+  const trace = (start: number, first: number) => {
+    const a = nodeOf[start];
+    const path = [start];
+    let prev = start, cur = first, length = step(start, first);
+    while (nodeOf[cur] < 0) {
+      visited[cur] = 1;
+      path.push(cur);
+      const next = neighbours(cur).find(q => q !== prev && !visited[q]);
+      if (next === undefined) return; // ran into an already-traced path
+      length += step(cur, next);
+      prev = cur;
+      cur = next;
+    }
+    path.push(cur);
+    const b = nodeOf[cur];
+    // A single pixel bridging two pixels of the same junction is not a loop
+    if (a === b && path.length <= 3) return;
+    edges.push({ a, b, length, path });
+  };
+
+  for (let p = 0; p < n; p++) {
+    if (nodeOf[p] < 0) continue;
+    for (const q of neighbours(p)) {
+      if (nodeOf[q] === nodeOf[p]) continue;
+      if (nodeOf[q] >= 0) {
+        const key = `${Math.min(nodeOf[p], nodeOf[q])}-${Math.max(nodeOf[p], nodeOf[q])}`;
+        if (direct.has(key)) continue;
+        direct.add(key);
+        edges.push({ a: nodeOf[p], b: nodeOf[q], length: step(p, q), path: [p, q] });
+      } else if (!visited[q]) {
+        trace(p, q);
+      }
+    }
+  }
+
+  // Rings of path pixels with no node on them
+  for (let p = 0; p < n; p++) {
+    if (!skel[p] || visited[p] || nodeOf[p] >= 0) continue;
+    const id = nodes.length;
+    nodes.push({ id, x: p % w, y: (p / w) | 0, degree: 0 });
+    nodeOf[p] = id;
+    trace(p, neighbours(p)[0]);
+  }
+
+  for (const e of edges) {
+    nodes[e.a].degree++;
+    nodes[e.b].degree++;
+  }
+
+  const { orders, components, maxOrder } = strahler(nodes, edges);
+  const withOrder: SkeletonEdge[] = edges.map((e, i) => ({ ...e, order: orders[i] }));
+  const lengths = edges.map(e => e.length);
+
+  return {
+    nodes,
+    edges: withOrder,
+    stats: {
+      endpoints: nodes.filter(nd => nd.degree === 1).length,
+      junctions: nodes.filter(nd => nd.degree >= 3).length,
+      // Cycle rank of the graph: independent loops
+      loops: edges.length - nodes.length + components,
+      components,
+      meanBranchLength: lengths.length ? lengths.reduce((s, l) => s + l, 0) / lengths.length : 0,
+      strahlerOrder: maxOrder,
+      lengthHistogram: lengthHistogram(lengths),
+    },
+  };
+}
+
+type SpanningTree = { order: number[]; parentEdge: Map<number, number> };
+
+/**
+ * Strahler order on a BFS spanning tree of each component. The root is the outlet: the
+ * endpoint that gives the highest order (the longest terminal branch among ties), or the
+ * highest-degree node when the component has no endpoints.
+ */
+function strahler(nodes: SkeletonNode[], edges: Omit<SkeletonEdge, "order">[]) {
+  const adj: { to: number; edge: number }[][] = nodes.map(() => []);
+  edges.forEach((e, i) => {
+    if (e.a === e.b) return;
+    adj[e.a].push({ to: e.b, edge: i });
+    adj[e.b].push({ to: e.a, edge: i });
+  });
+  const other = (edge: number, v: number) => (edges[edge].a === v ? edges[edge].b : edges[edge].a);
+
+  // Length of each endpoint's one branch (−1 for other nodes)
+  const terminal = new Array<number>(nodes.length).fill(-1);
+  for (const e of edges) {
+    if (e.a === e.b) continue;
+    if (nodes[e.a].degree === 1) terminal[e.a] = e.length;
+    if (nodes[e.b].degree === 1) terminal[e.b] = e.length;
+  }
+
+  const orders = new Array<number>(edges.length).fill(0);
+  const seen = new Uint8Array(nodes.length);
+  let components = 0, maxOrder = 0;
+  const byDegree = [...nodes].sort((p, q) => q.degree - p.degree);
+
+  for (const start of byDegree) {
+    if (seen[start.id]) continue;
+    components++;
+    const first = spanningTree(start.id, adj);
+    for (const v of first.order) seen[v] = 1;
+    const root = outlet(first, terminal, other);
+    const { order, parentEdge } = root === start.id ? first : spanningTree(root, adj);
+
+    // Fold children into parents in reverse BFS order
+    const childOrders = new Map<number, number[]>();
+    for (let k = order.length - 1; k >= 0; k--) {
+      const v = order[k];
+      const s = strahlerOf(childOrders.get(v) ?? []);
+      const pe = parentEdge.get(v);
+      if (pe === undefined) {
+        maxOrder = Math.max(maxOrder, s);
+        continue;
+      }
+      orders[pe] = s;
+      const parent = other(pe, v);
+      if (!childOrders.has(parent)) childOrders.set(parent, []);
+      childOrders.get(parent)!.push(s);
+    }
+  }
+  return { orders, components, maxOrder };
+}
+
+/** Leaves are order 1; a parent takes the max child order, +1 when that max is shared. */
+function strahlerOf(childOrders: number[]) {
+  if (!childOrders.length) return 1;
+  const top = Math.max(...childOrders);
+  return childOrders.filter(c => c === top).length > 1 ? top + 1 : top;
+}
+
+function spanningTree(root: number, adj: { to: number; edge: number }[][]): SpanningTree {
+  const order = [root];
+  const parentEdge = new Map<number, number>();
+  const seen = new Set(order);
+  for (let k = 0; k < order.length; k++) {
+    for (const { to, edge } of adj[order[k]]) {
+      if (seen.has(to)) continue;
+      seen.add(to);
+      parentEdge.set(to, edge);
+      order.push(to);
+    }
+  }
+  return { order, parentEdge };
+}
+
+/**
+ * Best outlet of one component. Rerooting: the order of each subtree below a node (down),
+ * then of the rest of the tree seen from it (up), give every node's order as root in O(n).
+ */
+function outlet(tree: SpanningTree, terminal: number[], other: (edge: number, v: number) => number) {
+  const { order, parentEdge } = tree;
+  const parent = new Map<number, number>();
+  const kids = new Map<number, number[]>(order.map(v => [v, []]));
+  for (const v of order) {
+    const pe = parentEdge.get(v);
+    if (pe === undefined) continue;
+    parent.set(v, other(pe, v));
+    kids.get(other(pe, v))!.push(v);
+  }
+  const down = new Map<number, number>();
+  for (let k = order.length - 1; k >= 0; k--) {
+    const v = order[k];
+    down.set(v, strahlerOf(kids.get(v)!.map(c => down.get(c)!)));
+  }
+  const up = new Map<number, number>();
+  for (const v of order) {
+    const p = parent.get(v);
+    if (p === undefined) continue;
+    const rest = kids.get(p)!.filter(c => c !== v).map(c => down.get(c)!);
+    if (up.has(p)) rest.push(up.get(p)!);
+    up.set(v, strahlerOf(rest));
   }
-  
-  const skel = zhangSuen(bin, w, h, opts.thinningIters || 30);
-  
-  // Branching metric: count junctions (>2 neighbors)
-  let junctions = 0, pixels = 0;
-  const idx = (x: number, y: number) => y * w + x;
-  
+
+  let best = order[0], bestOrder = -1;
+  for (const v of order) {
+    if (terminal[v] < 0) continue;
+    const around = kids.get(v)!.map(c => down.get(c)!);
+    if (up.has(v)) around.push(up.get(v)!);
+    const s = strahlerOf(around);
+    if (s > bestOrder || (s === bestOrder && terminal[v] > terminal[best])) {
+      best = v;
+      bestOrder = s;
+    }
+  }
+  return best;
+}
+
+function lengthHistogram(lengths: number[]) {
+  const hist: SkeletonStats["lengthHistogram"] = [];
+  if (!lengths.length) return hist;
+  const top = Math.max(...lengths);
+  for (let from = 1; from <= top; from *= 2) {
+    hist.push({ from, to: from * 2, count: lengths.filter(l => l >= from && l < from * 2).length });
+  }
+  return hist;
+}
+
+/**
+ * Zhang–Suen leaves "staircase" corners where a pixel's two neighbours already touch
+ * diagonally, which would read as junctions. Remove pixels whose neighbours form a single
+ * 8-connected group (so connectivity is kept), except endpoints and interior pixels.
+ */
+function pruneStaircases(P: Uint8Array, w: number, h: number) {
+  // 8-neighbour ring, clockwise from north
+  const RX = [0, 1, 1, 1, 0, -1, -1, -1];
+  const RY = [-1, -1, 0, 1, 1, 1, 0, -1];
   for (let y = 1; y < h - 1; y++) {
     for (let x = 1; x < w - 1; x++) {
-      if (skel[idx(x, y)]) {
-        pixels++;
-        const n = +skel[idx(x - 1, y)] + +skel[idx(x + 1, y)] + +skel[idx(x, y - 1)] + +skel[idx(x, y + 1)] +
-                  +skel[idx(x - 1, y - 1)] + +skel[idx(x + 1, y - 1)] + +skel[idx(x - 1, y + 1)] + +skel[idx(x + 1, y + 1)];
-        if (n >= 3) junctions++;
+      if (!P[y * w + x]) continue;
+      const ring = RX.map((dx, k) => P[(y + RY[k]) * w + x + dx]);
+      const count = ring.reduce((a, b) => a + b, 0);
+      if (count < 2 || (ring[0] && ring[2] && ring[4] && ring[6])) continue;
+      // Groups of set neighbours: runs around the ring, where diagonal (odd) cells also
+      // bridge two orthogonal cells that are themselves adjacent.
+      let groups = 0;
+      for (let k = 0; k < 8; k++) {
+        const prev = (k + 7) % 8;
+        if (!ring[k] || ring[prev]) continue;
+        // An orthogonal cell two steps after another orthogonal cell touches it diagonally
+        if (k % 2 === 0 && ring[(k + 6) % 8]) continue;
+        groups++;
       }
+      if (groups === 0 && count) groups = 1;
+      if (groups === 1) P[y * w + x] = 0;
     }
   }
-  
-  const branchingNorm = Math.min(1, junctions / Math.max(1, pixels / 50));
-  return { points: skel, branchingNorm };
+  return P;
 }
 
 function zhangSuen(img: Uint8Array, w: number, h: number, maxIter: number) {
   const P = img.slice();
-  
+
   const N = (x: number, y: number) => {
     let c = 0;
     for (let j = -1; j <= 1; j++) {
@@ -40,7 +342,7 @@ function zhangSuen(img: Uint8Array, w: number, h: number, maxIter: number) {
     }
     return c;
   };
-  
+
   const S = (x: number, y: number) => {
     const p = [
       P[(y - 1) * w + x], P[(y - 1) * w + (x + 1)], P[y * w + (x + 1)], P[(y + 1) * w + (x + 1)],
@@ -52,33 +354,36 @@ function zhangSuen(img: Uint8Array, w: number, h: number, maxIter: number) {
     }
     return t;
   };
-  
+
   let changed = true, iter = 0;
   while (changed && iter < maxIter) {
     changed = false;
     iter++;
-    const toRemove: number[] = [];
-    
-    for (let y = 1; y < h - 1; y++) {
-      for (let x = 1; x < w - 1; x++) {
-        const p = P[y * w + x];
-        if (!p) continue;
-        const n = N(x, y);
-        if (n < 2 || n > 6) continue;
-        if (S(x, y) !== 1) continue;
-        if (P[(y - 1) * w + x] * P[y * w + (x + 1)] * P[(y + 1) * w + x] === 0 &&
-            P[y * w + (x + 1)] * P[(y + 1) * w + x] * P[y * w + (x - 1)] === 0) {
-          toRemove.push(y * w + x);
+    // Two sub-iterations: the first peels south-east boundaries, the second north-west
+    for (let pass = 0; pass < 2; pass++) {
+      const toRemove: number[] = [];
+
+      for (let y = 1; y < h - 1; y++) {
+        for (let x = 1; x < w - 1; x++) {
+          const p = P[y * w + x];
+          if (!p) continue;
+          const n = N(x, y);
+          if (n < 2 || n > 6) continue;
+          if (S(x, y) !== 1) continue;
+          const up = P[(y - 1) * w + x], right = P[y * w + (x + 1)], down = P[(y + 1) * w + x], left = P[y * w + (x - 1)];
+          const ok = pass === 0
+            ? up * right * down === 0 && right * down * left === 0
+            : up * right * left === 0 && up * down * left === 0;
+          if (ok) toRemove.push(y * w + x);
         }
       }
-    }
-    
-    if (toRemove.length) {
-      changed = true;
-      for (const i of toRemove) P[i] = 0;
+
+      if (toRemove.length) {
+        changed = true;
+        for (const i of toRemove) P[i] = 0;
+      }
     }
   }
-  
+
   return P;
 }
-
@@ -0,0 +1,196 @@
+// Composition scoring of a salience field against the guides, and crop suggestion
+//
+// Each guide becomes a soft kernel over the frame: Gaussian ridges along its lines and
+// blobs on its points. A guide's lift is the salience-weighted mean of its kernel divided
+// by the plain mean, so 1 means "no better than salience spread evenly" and 2 means twice
+// as much weight sits on the guide. Kernels live on a small normalized grid per aspect,
+// which makes scoring any crop a single pass over its pixels.
+
+import { composeGuides } from "./guides";
+import type { Guide, GuideId } from "./guides";
+
+/** Same shape as the Cropper's `rect` output: pixels in the analysed field. */
+export type CropRect = { x: number; y: number; w: number; h: number };
+
+export type GuideScore = {
+  id: GuideId;
+  label: string;
+  lift: number;
+  /**
+   * How far the weighted mean sits from the plain mean toward the kernel's peak, clamped
+   * at 0: 0 for no alignment, 1 when all weight lies exactly on the guide. Unlike lift this
+   * doesn't favour guides that cover little of the frame.
+   */
+  score: number;
+};
+
+export type Balance = {
+  /** Center of visual weight in normalized frame coordinates. */
+  cx: number;
+  cy: number;
+  /** Share of the weight in the left and top halves. */
+  left: number;
+  top: number;
+  /** 1 when the weight is centered, 0 when it sits in a corner. */
+  score: number;
+};
+
+export type CompositionReport = {
+  guides: GuideScore[];
+  best: GuideId;
+  balance: Balance;
+  /** Best guide's score weighted 3:1 with balance. */
+  score: number;
+};
+
+export type CropSearchOptions = {
+  /** Width / height of the crop; null keeps the frame's own. */
+  aspect: number | null;
+  /** Smallest crop, as a fraction of the largest that fits. */
+  minScale: number;
+};
+
+export type CropSuggestion = CropRect & {
+  report: CompositionReport;
+  /** Share of the frame's salience kept inside the crop. */
+  retained: number;
+};
+
+/** Kernel grid resolution and widths, in normalized units. */
+const GRID = 96;
+const LINE_SIGMA = 0.03;
+const POINT_SIGMA = 0.06;
+const BALANCE_WEIGHT = 0.25;
+
+type Kernel = { lut: Float32Array; mean: number };
+type Kernels = { guides: Guide[]; kernels: Kernel[] };
+
+function segmentDistance(px: number, py: number, ax: number, ay: number, bx: number, by: number) {
+  const dx = bx - ax, dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len2)) : 0;
+  return Math.hypot(px - ax - t * dx, py - ay - t * dy);
+}
+
+/** Lines at half strength plus points, or lines alone for guides without points. Peaks at 1. */
+function guideKernel(g: Guide): Kernel {
+  const lut = new Float32Array(GRID * GRID);
+  // Segments flattened as ax, ay, bx, by
+  const segs = g.lines.flatMap((line) => line.slice(1).flatMap((b, s) => [...line[s], ...b]));
+  for (let j = 0, i = 0; j < GRID; j++) {
+    for (let k = 0; k < GRID; k++, i++) {
+      const px = (k + 0.5) / GRID, py = (j + 0.5) / GRID;
+      let dl = Infinity, dp = Infinity;
+      for (let s = 0; s < segs.length; s += 4) dl = Math.min(dl, segmentDistance(px, py, segs[s], segs[s + 1], segs[s + 2], segs[s + 3]));
+      for (const [qx, qy] of g.points) dp = Math.min(dp, Math.hypot(px - qx, py - qy));
+      const kl = Math.exp(-0.5 * (dl / LINE_SIGMA) ** 2);
+      lut[i] = g.points.length ? 0.5 * kl + 0.5 * Math.exp(-0.5 * (dp / POINT_SIGMA) ** 2) : kl;
+    }
+  }
+  return { lut, mean: lut.reduce((s, v) => s + v, 0) / lut.length };
+}
+
+// Keyed by guide id, plus the aspect for guides whose geometry depends on it
+const kernelCache = new Map<string, Kernel>();
+
+function kernelsFor(aspect: number): Kernels {
+  const guides = composeGuides(aspect);
+  const kernels = guides.map((g) => {
+    const key = g.aspectDependent ? `${g.id}@${aspect.toFixed(3)}` : g.id;
+    let k = kernelCache.get(key);
+    if (!k) kernelCache.set(key, (k = guideKernel(g)));
+    return k;
+  });
+  return { guides, kernels };
+}
+
+/** Salience mass, its kernel-weighted sums and moments inside `rect`. */
+function accumulate(S: ArrayLike<number>, W: number, rect: CropRect, kernels: Kernels) {
+  const { x, y, w, h } = rect;
+  const luts = kernels.kernels.map((k) => k.lut);
+  const n = luts.length;
+  const weighted = new Float64Array(n);
+  let mass = 0, mx = 0, my = 0, left = 0, top = 0;
+  for (let yy = 0; yy < h; yy++) {
+    const v = (yy + 0.5) / h;
+    const row = Math.min(GRID - 1, (v * GRID) | 0) * GRID;
+    for (let xx = 0; xx < w; xx++) {
+      const s = S[(y + yy) * W + x + xx];
+      if (s <= 0) continue;
+      const u = (xx + 0.5) / w;
+      const cell = row + Math.min(GRID - 1, (u * GRID) | 0);
+      for (let g = 0; g < n; g++) weighted[g] += s * luts[g][cell];
+      mass += s;
+      mx += s * u;
+      my += s * v;
+      if (u < 0.5) left += s;
+      if (v < 0.5) top += s;
+    }
+  }
+  return { mass, weighted, mx, my, left, top };
+}
+
+function report(acc: ReturnType<typeof accumulate>, kernels: Kernels): CompositionReport {
+  const { mass, weighted } = acc;
+  const guides = kernels.guides.map((g, k): GuideScore => {
+    const { mean } = kernels.kernels[k];
+    const e = mass > 0 ? weighted[k] / mass : mean;
+    return { id: g.id, label: g.label, lift: e / mean, score: Math.max(0, (e - mean) / (1 - mean)) };
+  });
+  const best = guides.reduce((a, b) => (b.score > a.score ? b : a));
+  const cx = mass > 0 ? acc.mx / mass : 0.5, cy = mass > 0 ? acc.my / mass : 0.5;
+  const balance: Balance = {
+    cx,
+    cy,
+    left: mass > 0 ? acc.left / mass : 0.5,
+    top: mass > 0 ? acc.top / mass : 0.5,
+    score: 1 - Math.hypot(cx - 0.5, cy - 0.5) / Math.SQRT1_2,
+  };
+  return { guides, best: best.id, balance, score: (1 - BALANCE_WEIGHT) * best.score + BALANCE_WEIGHT * balance.score };
+}
+
+/** Scores a salience field (any non-negative map) in the whole frame or in `rect`. */
+export function analyzeComposition(S: ArrayLike<number>, W: number, H: number, rect: CropRect = { x: 0, y: 0, w: W, h: H }): CompositionReport {
+  const kernels = kernelsFor(rect.w / rect.h);
+  return report(accumulate(S, W, rect, kernels), kernels);
+}
+
+/**
+ * Searches crops of the requested aspect over a range of sizes and positions. Crops are
+ * ranked by composition score times √(salience retained), so the search can't win by
+ * zooming in on a single hotspot.
+ */
+export function suggestCrop(S: ArrayLike<number>, W: number, H: number, opts: CropSearchOptions): CropSuggestion {
+  const aspect = opts.aspect ?? W / H;
+  // Largest crop of this aspect that fits the frame
+  const fullW = Math.min(W, H * aspect), fullH = fullW / aspect;
+  let total = 0;
+  for (let i = 0; i < W * H; i++) total += Math.max(0, S[i]);
+
+  const SCALES = 6, POSITIONS = 7;
+  let best: CropSuggestion | null = null, bestObjective = -Infinity;
+  for (let si = 0; si < SCALES; si++) {
+    const scale = 1 - (si / Math.max(1, SCALES - 1)) * (1 - opts.minScale);
+    const w = Math.max(8, Math.round(fullW * scale)), h = Math.max(8, Math.round(fullH * scale));
+    const kernels = kernelsFor(aspect);
+    const xs = new Set<number>(), ys = new Set<number>();
+    for (let p = 0; p < POSITIONS; p++) {
+      xs.add(Math.round(((W - w) * p) / (POSITIONS - 1)));
+      ys.add(Math.round(((H - h) * p) / (POSITIONS - 1)));
+    }
+    for (const y of ys) {
+      for (const x of xs) {
+        const rect = { x, y, w, h };
+        const acc = accumulate(S, W, rect, kernels);
+        const r = report(acc, kernels);
+        const retained = total > 0 ? acc.mass / total : 0;
+        const objective = r.score * Math.sqrt(retained);
+        if (objective > bestObjective) {
+          bestObjective = objective;
+          best = { ...rect, report: r, retained };
+        }
+      }
+    }
+  }
+  return best!;
+}
@@ -0,0 +1,108 @@
+// Composition guides in normalized frame coordinates (u, v ∈ 0..1, v down)
+//
+// Rule-of-thirds and phi grids, the golden spiral in four orientations, and the baroque
+// and sinister diagonals of dynamic symmetry with their reciprocals. Reciprocals are
+// perpendicular to the diagonal in pixels, so geometry depends on the frame's aspect
+// (width / height). Overlays and scoring both use these shapes.
+
+export type GuideId = "thirds" | "phi" | "spiral-tl" | "spiral-tr" | "spiral-bl" | "spiral-br" | "baroque" | "sinister";
+
+export type Point = [number, number];
+
+export type Guide = {
+  id: GuideId;
+  label: string;
+  /** Polylines in normalized coordinates. */
+  lines: Point[][];
+  /** Power points / spiral eye in normalized coordinates. */
+  points: Point[];
+  /** Whether the geometry changes with the frame's aspect. */
+  aspectDependent: boolean;
+};
+
+export const PHI = (1 + Math.sqrt(5)) / 2;
+
+function grid(t: number): Omit<Guide, "id" | "label"> {
+  const at = [t, 1 - t];
+  return {
+    lines: [...at.map((u): Point[] => [[u, 0], [u, 1]]), ...at.map((v): Point[] => [[0, v], [1, v]])],
+    points: at.flatMap((u) => at.map((v): Point => [u, v])),
+    aspectDependent: false,
+  };
+}
+
+/**
+ * Golden spiral from quarter arcs through the squares cut from a golden rectangle
+ * (left, top, right, bottom, inward), stretched to the unit frame. It starts at the
+ * bottom-left corner and winds clockwise to its eye near (0.72, 0.72).
+ */
+function goldenSpiral(): { path: Point[]; eye: Point } {
+  let x = 0, y = 0, w = 1, h = 1 / PHI;
+  const path: Point[] = [];
+  const ARC_STEPS = 16;
+  for (let k = 0; k < 10; k++) {
+    const side = k % 4;
+    const s = side % 2 === 0 ? h : w;
+    // Arc center and start angle for a square cut from the left, top, right, bottom
+    const [cx, cy, a0] =
+      side === 0 ? [x + s, y + s, Math.PI] :
+      side === 1 ? [x, y + s, 1.5 * Math.PI] :
+      side === 2 ? [x + w - s, y, 0] :
+      [x + w, y + h - s, 0.5 * Math.PI];
+    for (let j = path.length ? 1 : 0; j <= ARC_STEPS; j++) {
+      const a = a0 + (j / ARC_STEPS) * (Math.PI / 2);
+      path.push([cx + s * Math.cos(a), (cy + s * Math.sin(a)) * PHI]);
+    }
+    if (side === 0) { x += s; w -= s; }
+    else if (side === 1) { y += s; h -= s; }
+    else if (side === 2) w -= s;
+    else h -= s;
+  }
+  return { path, eye: [x + w / 2, (y + h / 2) * PHI] };
+}
+
+const SPIRAL = goldenSpiral();
+
+function spiral(flipU: boolean, flipV: boolean): Omit<Guide, "id" | "label"> {
+  const f = ([u, v]: Point): Point => [flipU ? 1 - u : u, flipV ? 1 - v : v];
+  return { lines: [SPIRAL.path.map(f)], points: [f(SPIRAL.eye)], aspectDependent: false };
+}
+
+/** Segment from a corner along direction (du, dv) to where it leaves the unit frame. */
+function ray([u, v]: Point, du: number, dv: number): Point[] {
+  const tu = du > 0 ? (1 - u) / du : du < 0 ? -u / du : Infinity;
+  const tv = dv > 0 ? (1 - v) / dv : dv < 0 ? -v / dv : Infinity;
+  const t = Math.min(tu, tv);
+  return [[u, v], [u + t * du, v + t * dv]];
+}
+
+/**
+ * A diagonal plus the reciprocals from the two other corners. In pixels the diagonal runs
+ * along (W, ±H), so a perpendicular is (H, ∓W), i.e. (1/a, ∓a) in normalized units.
+ */
+function diagonal(rising: boolean, aspect: number): Omit<Guide, "id" | "label"> {
+  const a = aspect, s = rising ? 1 : -1;
+  // Rising (baroque): bottom-left → top-right; reciprocals from top-left and bottom-right.
+  const main: Point[] = rising ? [[0, 1], [1, 0]] : [[0, 0], [1, 1]];
+  const c1: Point = rising ? [0, 0] : [0, 1];
+  const c2: Point = rising ? [1, 1] : [1, 0];
+  return {
+    lines: [main, ray(c1, 1 / a, s * a), ray(c2, -1 / a, -s * a)],
+    points: [],
+    aspectDependent: true,
+  };
+}
+
+/** Every guide for a frame of the given aspect (width / height). */
+export function composeGuides(aspect: number): Guide[] {
+  return [
+    { id: "thirds", label: "Rule of Thirds", ...grid(1 / 3) },
+    { id: "phi", label: "Phi Grid", ...grid(1 / (1 + PHI)) },
+    { id: "spiral-tl", label: "Spiral ↖", ...spiral(true, true) },
+    { id: "spiral-tr", label: "Spiral ↗", ...spiral(false, true) },
+    { id: "spiral-bl", label: "Spiral ↙", ...spiral(true, false) },
+    { id: "spiral-br", label: "Spiral ↘", ...spiral(false, false) },
+    { id: "baroque", label: "Baroque Diagonal", ...diagonal(true, aspect) },
+    { id: "sinister", label: "Sinister Diagonal", ...diagonal(false, aspect) },
+  ];
+}
@@ -0,0 +1,45 @@
+// PNG / JPEG decode and encode for Node callers (CLI, API routes).
+// Browser code goes through canvas instead.
+
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import type { RGB } from "./types";
+import { normalize01 } from "./filters";
+import { colorize, turbo } from "./colormaps";
+
+export type RGBAImage = { data: Uint8ClampedArray; width: number; height: number };
+
+export class UnsupportedImageError extends Error {
+  constructor(message = "Unsupported image format (expected PNG or JPEG)") {
+    super(message);
+    this.name = "UnsupportedImageError";
+  }
+}
+
+const isPNG = (b: Uint8Array) => b.length > 8 && b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47;
+const isJPEG = (b: Uint8Array) => b.length > 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff;
+
+/** Decodes PNG or JPEG bytes (sniffed from the header, not the file name) to RGBA. */
+export function decodeImage(buf: Uint8Array): RGBAImage {
+  const bytes = Buffer.from(buf.buffer, buf.byteOffset, buf.byteLength);
+  if (isPNG(bytes)) {
+    const png = PNG.sync.read(bytes);
+    return { data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length), width: png.width, height: png.height };
+  }
+  if (isJPEG(bytes)) {
+    const jpg = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+    return { data: new Uint8ClampedArray(jpg.data.buffer, jpg.data.byteOffset, jpg.data.length), width: jpg.width, height: jpg.height };
+  }
+  throw new UnsupportedImageError();
+}
+
+export function encodePNG(rgba: Uint8ClampedArray, width: number, height: number): Buffer {
+  const png = new PNG({ width, height });
+  png.data.set(rgba);
+  return PNG.sync.write(png);
+}
+
+/** Min–max normalizes a heat field and encodes it as a colormapped PNG. */
+export function encodeHeatPNG(heat: ArrayLike<number>, width: number, height: number, cmap: (t: number) => RGB = turbo): Buffer {
+  return encodePNG(colorize(normalize01(heat), cmap), width, height);
+}
@@ -0,0 +1,93 @@
+// Colormaps (0..1 → RGB 0..255) and heat-map rendering helpers
+
+import type { Colormap, RGB } from "./types";
+
+const clamp01 = (x: number) => (x < 0 ? 0 : x > 1 ? 1 : x);
+const byte = (x: number) => Math.round(255 * clamp01(x));
+
+// Polynomial fit of Google's Turbo (A. Mikhailov, 2019), coefficients c0..c5 per channel
+const TURBO = [
+  [0.13572138, 4.6153926, -42.66032258, 132.13108234, -152.94239396, 59.28637943],
+  [0.09140261, 2.19418839, 4.84296658, -14.18503333, 4.27729857, 2.82956604],
+  [0.1066733, 12.64194608, -60.58204836, 110.36276771, -89.90310912, 27.34824973],
+];
+
+function poly(c: number[], x: number) {
+  let v = 0;
+  for (let i = c.length - 1; i >= 0; i--) v = v * x + c[i];
+  return v;
+}
+
+export function turbo(t: number): RGB {
+  const x = clamp01(t);
+  return [byte(poly(TURBO[0], x)), byte(poly(TURBO[1], x)), byte(poly(TURBO[2], x))];
+}
+
+export function viridis(t: number): RGB {
+  const x = clamp01(t);
+  return [
+    byte(0.267004 + x * (-0.119374 + x * (1.855084 + x * -2.505638))),
+    byte(0.004874 + x * (1.424487 + x * (-0.660518 + x * 0.028306))),
+    byte(0.329415 + x * (1.780914 + x * (-4.590288 + x * 3.451434))),
+  ];
+}
+
+export function magma(t: number): RGB {
+  const x = clamp01(t);
+  return [
+    byte(0.001462 + x * (2.258267 + x * (-3.557995 + x * 5.375986))),
+    byte(0.000466 + x * (0.17919 + x * (4.243327 + x * -7.437655))),
+    byte(0.013866 + x * (2.393285 + x * (-5.353797 + x * 3.818268))),
+  ];
+}
+
+export function plasma(t: number): RGB {
+  const a = clamp01(t);
+  return [
+    byte(0.05 + 2.404 * a - 2.318 * a * a + 0.864 * a * a * a),
+    byte(0.03 + 0.528 * a + 0.657 * a * a - 0.214 * a * a * a),
+    byte(0.527 + 0.533 * a - 0.586 * a * a + 0.324 * a * a * a),
+  ];
+}
+
+export function grayscale(t: number): RGB {
+  const v = byte(t);
+  return [v, v, v];
+}
+
+/** Blue (0) → white (0.5) → red (1). Pair with normalizeSymmetric for signed data. */
+export function blueRed(t: number): RGB {
+  const a = clamp01(t);
+  if (a < 0.5) {
+    const k = a / 0.5;
+    return [byte(k), byte(k), 255];
+  }
+  const k = (a - 0.5) / 0.5;
+  return [255, byte(1 - k), byte(1 - k)];
+}
+
+export const COLORMAPS = { turbo, viridis, magma, plasma, grayscale, blueRed } satisfies Record<string, Colormap>;
+export type ColormapName = keyof typeof COLORMAPS;
+
+/** Writes an opaque (or `alpha`-transparent) colormapped RGBA buffer from a 0..1 field. */
+export function colorize(field01: ArrayLike<number>, cmap: Colormap = turbo, alpha = 255): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(field01.length * 4);
+  for (let i = 0, j = 0; i < field01.length; i++, j += 4) {
+    const [r, g, b] = cmap(field01[i]);
+    out[j] = r;
+    out[j + 1] = g;
+    out[j + 2] = b;
+    out[j + 3] = alpha;
+  }
+  return out;
+}
+
+/** Alpha-blends a colormapped 0..1 field over existing RGBA pixels in place. */
+export function blendHeat(rgba: Uint8ClampedArray, field01: ArrayLike<number>, cmap: Colormap = turbo, alpha = 0.4) {
+  for (let i = 0, j = 0; i < field01.length; i++, j += 4) {
+    const [r, g, b] = cmap(field01[i]);
+    rgba[j] = Math.round(r * alpha + rgba[j] * (1 - alpha));
+    rgba[j + 1] = Math.round(g * alpha + rgba[j + 1] * (1 - alpha));
+    rgba[j + 2] = Math.round(b * alpha + rgba[j + 2] * (1 - alpha));
+  }
+}
@@ -0,0 +1,118 @@
+// Critical points of a 2D vector field, classified from the local Jacobian
+//
+// A grid cell holds a zero of the field when the vectors at its four corners wind around the
+// origin (Poincaré index ±1). The zero is located with one Newton step from the cell centre
+// and typed from the eigenvalues of the cell's Jacobian J = ∂(u, v)/∂(x, y):
+//   det J < 0                      saddle (index −1)
+//   real eigenvalues, both > 0     source;   both < 0  sink
+//   complex eigenvalues            spiral, or a center when the real part is negligible
+// A pure gradient field has a symmetric Jacobian (the Hessian), so it only has sources, sinks
+// and saddles; centers and spirals need rotation in the field.
+
+export type CriticalType = "source" | "sink" | "saddle" | "center" | "spiral";
+
+export const CRITICAL_TYPES: CriticalType[] = ["source", "sink", "saddle", "center", "spiral"];
+
+export type CriticalPoint = {
+  type: CriticalType;
+  x: number;
+  y: number;
+  /** √|det J|, the geometric mean of the eigenvalue magnitudes. */
+  strength: number;
+  /** tr J and the rotation ∂v/∂x − ∂u/∂y at the point. */
+  divergence: number;
+  curl: number;
+  /** Eigenvalues as [re, im] pairs. */
+  eigenvalues: [[number, number], [number, number]];
+};
+
+export type CriticalPointOptions = {
+  /** Drop points weaker than this fraction of the strongest one. */
+  minStrength?: number;
+  /** |Re λ| / |Im λ| below which a spiral counts as a center. */
+  centerTolerance?: number;
+  /** Keeps the strongest point within this radius. */
+  nmsRadius?: number;
+  maxPoints?: number;
+};
+
+function winding(u: ArrayLike<number>, v: ArrayLike<number>, corners: number[]) {
+  let total = 0;
+  let prev = Math.atan2(v[corners[3]], u[corners[3]]);
+  for (const c of corners) {
+    const a = Math.atan2(v[c], u[c]);
+    let d = a - prev;
+    if (d > Math.PI) d -= 2 * Math.PI;
+    else if (d < -Math.PI) d += 2 * Math.PI;
+    total += d;
+    prev = a;
+  }
+  return Math.round(total / (2 * Math.PI));
+}
+
+export function findCriticalPoints(
+  u: ArrayLike<number>,
+  v: ArrayLike<number>,
+  W: number,
+  H: number,
+  opts: CriticalPointOptions = {}
+): CriticalPoint[] {
+  const { minStrength = 0.05, centerTolerance = 0.15, nmsRadius = 7, maxPoints = 50 } = opts;
+  const found: CriticalPoint[] = [];
+
+  for (let y = 0; y < H - 1; y++) {
+    for (let x = 0; x < W - 1; x++) {
+      const i00 = y * W + x, i10 = i00 + 1, i01 = i00 + W, i11 = i01 + 1;
+      // Counter-clockwise in (x, y): the sign convention only matters for index ±1.
+      if (winding(u, v, [i00, i10, i11, i01]) === 0) continue;
+
+      const ux = 0.5 * (u[i10] - u[i00] + u[i11] - u[i01]);
+      const uy = 0.5 * (u[i01] - u[i00] + u[i11] - u[i10]);
+      const vx = 0.5 * (v[i10] - v[i00] + v[i11] - v[i01]);
+      const vy = 0.5 * (v[i01] - v[i00] + v[i11] - v[i10]);
+      const det = ux * vy - uy * vx;
+      if (!det) continue;
+
+      // Newton step from the cell centre: J·d = −F, kept inside the cell.
+      const fu = 0.25 * (u[i00] + u[i10] + u[i01] + u[i11]);
+      const fv = 0.25 * (v[i00] + v[i10] + v[i01] + v[i11]);
+      const dx = Math.max(-0.5, Math.min(0.5, (-fu * vy + fv * uy) / det));
+      const dy = Math.max(-0.5, Math.min(0.5, (-fv * ux + fu * vx) / det));
+
+      const tr = ux + vy;
+      const disc = tr * tr - 4 * det;
+      let type: CriticalType;
+      let eigenvalues: CriticalPoint["eigenvalues"];
+      if (disc >= 0) {
+        const r = Math.sqrt(disc);
+        eigenvalues = [[0.5 * (tr + r), 0], [0.5 * (tr - r), 0]];
+        type = det < 0 ? "saddle" : tr > 0 ? "source" : "sink";
+      } else {
+        const im = 0.5 * Math.sqrt(-disc);
+        eigenvalues = [[0.5 * tr, im], [0.5 * tr, -im]];
+        type = Math.abs(0.5 * tr) < centerTolerance * im ? "center" : "spiral";
+      }
+
+      found.push({
+        type,
+        x: x + 0.5 + dx,
+        y: y + 0.5 + dy,
+        strength: Math.sqrt(Math.abs(det)),
+        divergence: tr,
+        curl: vx - uy,
+        eigenvalues,
+      });
+    }
+  }
+
+  let top = 0;
+  for (const p of found) top = Math.max(top, p.strength);
+  const strong = found.filter(p => p.strength >= minStrength * top);
+  strong.sort((a, b) => b.strength - a.strength);
+  const kept: CriticalPoint[] = [];
+  for (const p of strong) {
+    if (kept.length >= maxPoints) break;
+    if (!kept.some(q => (q.x - p.x) ** 2 + (q.y - p.y) ** 2 < nmsRadius * nmsRadius)) kept.push(p);
+  }
+  return kept;
+}
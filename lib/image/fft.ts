@@ -0,0 +1,93 @@
+// Complex FFT of any length: iterative radix-2 for powers of two, Bluestein's chirp-z for
+// the rest (one chirp multiply and two power-of-two transforms of at least 2n − 1 points)
+
+/** In-place forward DFT, X[k] = Σ x[j] e^(−2πijk/n), on split real/imaginary arrays. */
+export type FFT = (re: Float64Array, im: Float64Array) => void;
+
+const plans = new Map<number, FFT>();
+
+/** Forward FFT of length n; twiddles and chirps are cached per length. */
+export function fftPlan(n: number): FFT {
+  let plan = plans.get(n);
+  if (!plan) {
+    plan = (n & (n - 1)) === 0 ? radix2(n) : bluestein(n);
+    plans.set(n, plan);
+  }
+  return plan;
+}
+
+function radix2(n: number): FFT {
+  const bits = Math.round(Math.log2(n));
+  const rev = new Uint32Array(n);
+  for (let i = 1; i < n; i++) rev[i] = (rev[i >> 1] >> 1) | ((i & 1) << (bits - 1));
+  const half = n >> 1;
+  const wr = new Float64Array(half), wi = new Float64Array(half);
+  for (let k = 0; k < half; k++) {
+    wr[k] = Math.cos((2 * Math.PI * k) / n);
+    wi[k] = -Math.sin((2 * Math.PI * k) / n);
+  }
+  return (re, im) => {
+    for (let i = 0; i < n; i++) {
+      const j = rev[i];
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+      const h = size >> 1, step = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0, t = 0; k < h; k++, t += step) {
+          const a = start + k, b = a + h;
+          const xr = re[b] * wr[t] - im[b] * wi[t];
+          const xi = re[b] * wi[t] + im[b] * wr[t];
+          re[b] = re[a] - xr; im[b] = im[a] - xi;
+          re[a] += xr; im[a] += xi;
+        }
+      }
+    }
+  };
+}
+
+function bluestein(n: number): FFT {
+  let m = 1;
+  while (m < 2 * n - 1) m <<= 1;
+  const inner = radix2(m);
+  // Chirp c_j = e^(−πij²/n); jk = (j² + k² − (k − j)²) / 2 turns the DFT into a convolution with conj(c).
+  const cr = new Float64Array(n), ci = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    const a = (Math.PI * ((j * j) % (2 * n))) / n;
+    cr[j] = Math.cos(a);
+    ci[j] = -Math.sin(a);
+  }
+  const br = new Float64Array(m), bi = new Float64Array(m);
+  br[0] = cr[0]; bi[0] = -ci[0];
+  for (let j = 1; j < n; j++) {
+    br[j] = br[m - j] = cr[j];
+    bi[j] = bi[m - j] = -ci[j];
+  }
+  inner(br, bi);
+
+  const ar = new Float64Array(m), ai = new Float64Array(m);
+  return (re, im) => {
+    ar.fill(0); ai.fill(0);
+    for (let j = 0; j < n; j++) {
+      ar[j] = re[j] * cr[j] - im[j] * ci[j];
+      ai[j] = re[j] * ci[j] + im[j] * cr[j];
+    }
+    inner(ar, ai);
+    // Pointwise product, conjugated so the forward transform below acts as the inverse.
+    for (let k = 0; k < m; k++) {
+      const xr = ar[k] * br[k] - ai[k] * bi[k];
+      const xi = ar[k] * bi[k] + ai[k] * br[k];
+      ar[k] = xr;
+      ai[k] = -xi;
+    }
+    inner(ar, ai);
+    for (let k = 0; k < n; k++) {
+      const xr = ar[k] / m, xi = -ai[k] / m;
+      re[k] = xr * cr[k] - xi * ci[k];
+      im[k] = xr * ci[k] + xi * cr[k];
+    }
+  };
+}
@@ -0,0 +1,244 @@
+// Blur, gradient and normalization operators on row-major float rasters
+
+type Raster = ArrayLike<number>;
+
+const clampi = (v: number, lo: number, hi: number) => (v < lo ? lo : v > hi ? hi : v);
+
+/** Separable [1 2 1]/4 blur with clamped edges. */
+export function blur3x3(src: Raster, W: number, H: number): Float32Array {
+  const tmp = new Float32Array(W * H);
+  const out = new Float32Array(W * H);
+
+  // Horizontal
+  for (let y = 0; y < H; y++) {
+    const row = y * W;
+    for (let x = 0; x < W; x++) {
+      const a = src[row + Math.max(0, x - 1)];
+      const b = src[row + x] * 2.0;
+      const c = src[row + Math.min(W - 1, x + 1)];
+      tmp[row + x] = (a + b + c) * 0.25;
+    }
+  }
+  // Vertical
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i0 = Math.max(0, y - 1) * W + x;
+      const i1 = y * W + x;
+      const i2 = Math.min(H - 1, y + 1) * W + x;
+      out[i1] = (tmp[i0] + tmp[i1] * 2.0 + tmp[i2]) * 0.25;
+    }
+  }
+  return out;
+}
+
+export function blur3x3Iter(src: Raster, W: number, H: number, iters: number): Float32Array {
+  let cur: Raster = src;
+  for (let i = 0; i < iters; i++) cur = blur3x3(cur, W, H);
+  return cur === src ? Float32Array.from(src) : (cur as Float32Array);
+}
+
+/** Running-sum box blur of radius r (kernel 2r+1) with clamped edges. */
+export function boxBlur(src: Raster, W: number, H: number, radius: number): Float32Array {
+  const r = Math.floor(radius);
+  if (r <= 0) return Float32Array.from(src);
+  const tmp = new Float32Array(W * H);
+  const out = new Float32Array(W * H);
+  const kernel = 2 * r + 1;
+  for (let y = 0; y < H; y++) {
+    const row = y * W;
+    let acc = 0;
+    for (let x = -r; x <= r; x++) acc += src[row + clampi(x, 0, W - 1)];
+    tmp[row] = acc / kernel;
+    for (let x = 1; x < W; x++) {
+      acc += src[row + clampi(x + r, 0, W - 1)] - src[row + clampi(x - r - 1, 0, W - 1)];
+      tmp[row + x] = acc / kernel;
+    }
+  }
+  for (let x = 0; x < W; x++) {
+    let acc = 0;
+    for (let y = -r; y <= r; y++) acc += tmp[clampi(y, 0, H - 1) * W + x];
+    out[x] = acc / kernel;
+    for (let y = 1; y < H; y++) {
+      acc += tmp[clampi(y + r, 0, H - 1) * W + x] - tmp[clampi(y - r - 1, 0, H - 1) * W + x];
+      out[y * W + x] = acc / kernel;
+    }
+  }
+  return out;
+}
+
+/** Summed-area table with a zero first row/column: size (W+1)×(H+1), float64 to keep large sums exact. */
+export function summedAreaTable(src: Raster, W: number, H: number): Float64Array {
+  const S = new Float64Array((W + 1) * (H + 1));
+  for (let y = 0; y < H; y++) {
+    let row = 0;
+    for (let x = 0; x < W; x++) {
+      row += src[y * W + x];
+      S[(y + 1) * (W + 1) + x + 1] = S[y * (W + 1) + x + 1] + row;
+    }
+  }
+  return S;
+}
+
+/** Sum over [x0, x1) × [y0, y1) from a summedAreaTable of a W-wide raster. */
+export function boxSum(S: Float64Array, W: number, x0: number, y0: number, x1: number, y1: number) {
+  const s = W + 1;
+  return S[y1 * s + x1] - S[y0 * s + x1] - S[y1 * s + x0] + S[y0 * s + x0];
+}
+
+/** Separable running max (or min) over a (2r+1)² window with clamped edges; monotonic deque, O(n). */
+function extremumFilter(src: Raster, W: number, H: number, radius: number, max: boolean): Float32Array {
+  const r = Math.floor(radius);
+  if (r <= 0) return Float32Array.from(src);
+  const better = max ? (a: number, b: number) => a >= b : (a: number, b: number) => a <= b;
+  const pass = (read: (i: number) => number, n: number, write: (i: number, v: number) => void) => {
+    const dq = new Int32Array(n + 2 * r + 1);
+    let head = 0, tail = 0;
+    // Window for output i covers [i - r, i + r], clamped; indices are pushed as i + r.
+    for (let k = -r; k < n + r; k++) {
+      const v = read(clampi(k, 0, n - 1));
+      while (tail > head && better(v, read(clampi(dq[tail - 1], 0, n - 1)))) tail--;
+      dq[tail++] = k;
+      const i = k - r;
+      if (i < 0) continue;
+      while (dq[head] < i - r) head++;
+      write(i, read(clampi(dq[head], 0, n - 1)));
+    }
+  };
+  const tmp = new Float32Array(W * H);
+  const out = new Float32Array(W * H);
+  for (let y = 0; y < H; y++) pass(x => src[y * W + x], W, (x, v) => { tmp[y * W + x] = v; });
+  for (let x = 0; x < W; x++) pass(y => tmp[y * W + x], H, (y, v) => { out[y * W + x] = v; });
+  return out;
+}
+
+export function maxFilter(src: Raster, W: number, H: number, radius: number): Float32Array {
+  return extremumFilter(src, W, H, radius, true);
+}
+
+export function minFilter(src: Raster, W: number, H: number, radius: number): Float32Array {
+  return extremumFilter(src, W, H, radius, false);
+}
+
+export function gaussianKernel(sigma: number): Float32Array {
+  const r = Math.max(1, Math.round(sigma * 3));
+  const k = new Float32Array(2 * r + 1);
+  const s2 = sigma * sigma;
+  let sum = 0;
+  for (let i = -r; i <= r; i++) {
+    const v = Math.exp(-(i * i) / (2 * s2));
+    k[i + r] = v;
+    sum += v;
+  }
+  for (let i = 0; i < k.length; i++) k[i] /= sum;
+  return k;
+}
+
+/** Separable Gaussian blur (radius 3σ) with clamped edges. σ ≤ 0 returns a copy. */
+export function gaussianBlur(src: Raster, W: number, H: number, sigma: number): Float32Array {
+  if (sigma <= 0) return Float32Array.from(src);
+  const kernel = gaussianKernel(sigma);
+  const r = (kernel.length - 1) >> 1;
+  const tmp = new Float32Array(W * H);
+  const out = new Float32Array(W * H);
+  for (let y = 0; y < H; y++) {
+    const row = y * W;
+    for (let x = 0; x < W; x++) {
+      let acc = 0;
+      for (let k = -r; k <= r; k++) acc += src[row + clampi(x + k, 0, W - 1)] * kernel[k + r];
+      tmp[row + x] = acc;
+    }
+  }
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      let acc = 0;
+      for (let k = -r; k <= r; k++) acc += tmp[clampi(y + k, 0, H - 1) * W + x] * kernel[k + r];
+      out[y * W + x] = acc;
+    }
+  }
+  return out;
+}
+
+/** 3×3 Sobel derivatives. The one-pixel border is left at zero. */
+export function sobel(src: Raster, W: number, H: number): { gx: Float32Array; gy: Float32Array } {
+  const gx = new Float32Array(W * H);
+  const gy = new Float32Array(W * H);
+  for (let y = 1; y < H - 1; y++) {
+    for (let x = 1; x < W - 1; x++) {
+      const i = y * W + x;
+      const a = src[i - W - 1], b = src[i - W], c = src[i - W + 1];
+      const d = src[i - 1], f = src[i + 1];
+      const g = src[i + W - 1], h = src[i + W], k = src[i + W + 1];
+      gx[i] = -a - 2 * d - g + c + 2 * f + k;
+      gy[i] = -a - 2 * b - c + g + 2 * h + k;
+    }
+  }
+  return { gx, gy };
+}
+
+/** Central-difference gradient. The one-pixel border is left at zero. */
+export function centralGradient(src: Raster, W: number, H: number): { gx: Float32Array; gy: Float32Array } {
+  const gx = new Float32Array(W * H);
+  const gy = new Float32Array(W * H);
+  for (let y = 1; y < H - 1; y++) {
+    for (let x = 1; x < W - 1; x++) {
+      const i = y * W + x;
+      gx[i] = (src[i + 1] - src[i - 1]) * 0.5;
+      gy[i] = (src[i + W] - src[i - W]) * 0.5;
+    }
+  }
+  return { gx, gy };
+}
+
+export function gradientMagnitude(gx: Raster, gy: Raster): Float32Array {
+  const out = new Float32Array(gx.length);
+  for (let i = 0; i < out.length; i++) out[i] = Math.hypot(gx[i], gy[i]);
+  return out;
+}
+
+/** Min–max rescale to 0..1. A constant input maps to all zeros. */
+export function normalize01(src: Raster): Float32Array {
+  let lo = Infinity, hi = -Infinity;
+  for (let i = 0; i < src.length; i++) {
+    const v = src[i];
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  const d = hi - lo > 1e-9 ? hi - lo : 1;
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) out[i] = (src[i] - lo) / d;
+  return out;
+}
+
+/** normalize01 over several fields with one shared min/max, so they stay comparable. */
+export function normalize01Joint(fields: Raster[]): Float32Array[] {
+  let lo = Infinity, hi = -Infinity;
+  for (const src of fields) {
+    for (let i = 0; i < src.length; i++) {
+      const v = src[i];
+      if (v < lo) lo = v;
+      if (v > hi) hi = v;
+    }
+  }
+  const d = hi - lo > 1e-9 ? hi - lo : 1;
+  return fields.map((src) => {
+    const out = new Float32Array(src.length);
+    for (let i = 0; i < src.length; i++) out[i] = (src[i] - lo) / d;
+    return out;
+  });
+}
+
+/** Rescale [-max|v|, max|v|] to 0..1 so that zero lands on 0.5. */
+export function normalizeSymmetric(src: Raster): Float32Array {
+  let amax = 0;
+  for (let i = 0; i < src.length; i++) amax = Math.max(amax, Math.abs(src[i]));
+  const d = amax > 1e-9 ? 2 * amax : 1;
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) out[i] = (src[i] + amax) / d;
+  return out;
+}
+
+export function percentile(src: Raster, p: number) {
+  const arr = Float32Array.from(src).sort();
+  const idx = Math.min(arr.length - 1, Math.max(0, Math.floor((p / 100) * arr.length)));
+  return arr[idx];
+}
@@ -0,0 +1,138 @@
+// Flow visualization of direction fields: line integral convolution and streamlines
+//
+// Directions may be axial (orientations, where v and −v are the same line): tracing keeps
+// each step pointing the same way as the previous one, so both kinds of field work.
+
+export type DirectionField = {
+  width: number;
+  height: number;
+  /** Unit (or zero) direction per pixel. */
+  dx: Float32Array;
+  dy: Float32Array;
+};
+
+export type Streamline = { points: number[]; length: number };
+
+/** Unit directions along the structure, i.e. perpendicular to the gradient direction θ. */
+export function orientationDirections(theta: ArrayLike<number>, width: number, height: number): DirectionField {
+  const dx = new Float32Array(width * height);
+  const dy = new Float32Array(width * height);
+  for (let i = 0; i < dx.length; i++) {
+    dx[i] = -Math.sin(theta[i]);
+    dy[i] = Math.cos(theta[i]);
+  }
+  return { width, height, dx, dy };
+}
+
+/** Normalizes a vector field to unit directions; vectors under `minMagnitude` become zero. */
+export function vectorDirections(u: ArrayLike<number>, v: ArrayLike<number>, width: number, height: number, minMagnitude = 1e-6): DirectionField {
+  const dx = new Float32Array(width * height);
+  const dy = new Float32Array(width * height);
+  for (let i = 0; i < dx.length; i++) {
+    const m = Math.hypot(u[i], v[i]);
+    if (m < minMagnitude) continue;
+    dx[i] = u[i] / m;
+    dy[i] = v[i] / m;
+  }
+  return { width, height, dx, dy };
+}
+
+/** Seeded white noise in 0..1 (mulberry32), so LIC renders are repeatable. */
+export function whiteNoise(n: number, seed = 0x9e3779b9) {
+  const out = new Float32Array(n);
+  let s = seed | 0;
+  for (let i = 0; i < n; i++) {
+    s = (s + 0x6d2b79f5) | 0;
+    let t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    out[i] = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  return out;
+}
+
+/**
+ * Walks from (x, y) along the field for up to `steps` unit steps (midpoint rule), calling
+ * `visit` at each sample. `sign` picks the initial heading. Stops at the border, where the
+ * field vanishes, or when `visit` returns false.
+ */
+function walk(f: DirectionField, x: number, y: number, sign: 1 | -1, steps: number, visit: (x: number, y: number) => boolean | void) {
+  const { width: W, height: H, dx, dy } = f;
+  let px = sign * dx[(y | 0) * W + (x | 0)], py = sign * dy[(y | 0) * W + (x | 0)];
+  for (let s = 0; s < steps; s++) {
+    if (!px && !py) return;
+    // Midpoint: look up the direction half a step ahead, aligned with the current heading.
+    const mx = x + 0.5 * px, my = y + 0.5 * py;
+    if (mx < 0 || my < 0 || mx >= W || my >= H) return;
+    const j = (my | 0) * W + (mx | 0);
+    let qx = dx[j], qy = dy[j];
+    if (qx * px + qy * py < 0) { qx = -qx; qy = -qy; }
+    if (!qx && !qy) return;
+    x += qx;
+    y += qy;
+    if (x < 0 || y < 0 || x >= W || y >= H) return;
+    if (visit(x, y) === false) return;
+    px = qx; py = qy;
+  }
+}
+
+/**
+ * Line integral convolution (Cabral & Leedom): each pixel averages `noise` along the
+ * streamline through it, `length` steps each way with a box kernel.
+ */
+export function lineIntegralConvolution(f: DirectionField, length: number, noise = whiteNoise(f.width * f.height)) {
+  const { width: W, height: H } = f;
+  const out = new Float32Array(W * H);
+  const L = Math.max(1, Math.round(length));
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i = y * W + x;
+      let sum = noise[i], count = 1;
+      const add = (sx: number, sy: number) => {
+        sum += noise[(sy | 0) * W + (sx | 0)];
+        count++;
+      };
+      walk(f, x + 0.5, y + 0.5, 1, L, add);
+      walk(f, x + 0.5, y + 0.5, -1, L, add);
+      out[i] = sum / count;
+    }
+  }
+  return out;
+}
+
+/**
+ * Streamlines traced both ways from seeds on a `spacing` grid, up to `maxLength` steps per
+ * side. `weight` (e.g. coherence) below `minWeight` ends a line, so flat areas stay empty.
+ * Lines shorter than a few pixels are dropped.
+ */
+export function traceStreamlines(
+  f: DirectionField,
+  opts: { spacing: number; maxLength: number; weight?: ArrayLike<number>; minWeight?: number }
+): Streamline[] {
+  const { width: W, height: H } = f;
+  const spacing = Math.max(2, Math.round(opts.spacing));
+  const minWeight = opts.minWeight ?? 0;
+  const lines: Streamline[] = [];
+
+  for (let sy = spacing >> 1; sy < H; sy += spacing) {
+    for (let sx = spacing >> 1; sx < W; sx += spacing) {
+      if (opts.weight && opts.weight[sy * W + sx] < minWeight) continue;
+      const halves: number[][] = [];
+      for (const sign of [1, -1] as const) {
+        const pts: number[] = [];
+        walk(f, sx + 0.5, sy + 0.5, sign, opts.maxLength, (x, y) => {
+          if (opts.weight && opts.weight[(y | 0) * W + (x | 0)] < minWeight) return false;
+          pts.push(x, y);
+        });
+        halves.push(pts);
+      }
+      // Backward half reversed, then the seed, then the forward half
+      const back = halves[1];
+      const points: number[] = [];
+      for (let k = back.length - 2; k >= 0; k -= 2) points.push(back[k], back[k + 1]);
+      points.push(sx + 0.5, sy + 0.5, ...halves[0]);
+      const length = points.length / 2 - 1;
+      if (length >= 4) lines.push({ points, length });
+    }
+  }
+  return lines;
+}
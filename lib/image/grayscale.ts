@@ -0,0 +1,42 @@
+// Grayscale conversion — the one luma definition used across the app
+//
+// All tools use Rec. 709 / sRGB luma so the same photo yields the same
+// grayscale (and therefore the same metrics) on every page.
+
+import type { FloatField, GrayImage } from "./types";
+
+export const LUMA_R = 0.2126;
+export const LUMA_G = 0.7152;
+export const LUMA_B = 0.0722;
+
+/** Luma of an RGB triple, in the same units as the inputs. */
+export function luma(r: number, g: number, b: number) {
+  return LUMA_R * r + LUMA_G * g + LUMA_B * b;
+}
+
+/** RGBA bytes → luma in 0..1. */
+export function toGrayFloat(rgba: Uint8ClampedArray): Float32Array {
+  const out = new Float32Array(rgba.length >> 2);
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j++) {
+    out[j] = luma(rgba[i], rgba[i + 1], rgba[i + 2]) / 255;
+  }
+  return out;
+}
+
+/** RGBA bytes → luma in 0..255, rounded. */
+export function toGrayU8(rgba: Uint8ClampedArray): Uint8Array {
+  const out = new Uint8Array(rgba.length >> 2);
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j++) {
+    const v = Math.round(luma(rgba[i], rgba[i + 1], rgba[i + 2]));
+    out[j] = v > 255 ? 255 : v;
+  }
+  return out;
+}
+
+export function grayFieldFromImageData(img: ImageData): FloatField {
+  return { data: toGrayFloat(img.data), width: img.width, height: img.height };
+}
+
+export function grayImageFromImageData(img: ImageData): GrayImage {
+  return { data: toGrayU8(img.data), width: img.width, height: img.height };
+}
@@ -0,0 +1,209 @@
+// Second-order (Hessian) features: eigenvalue maps, Frangi vesselness and blob detection
+//
+// The Hessian of the Gaussian-smoothed image L = G_σ * I is taken with central differences and
+// multiplied by σ² (Lindeberg's γ = 1 normalization), so responses at different scales are
+// comparable and the strongest one picks the characteristic scale of a structure.
+
+import { gaussianBlur } from "./filters";
+
+export type Hessian = {
+  Lxx: Float32Array;
+  Lxy: Float32Array;
+  Lyy: Float32Array;
+  /** Eigenvalues ordered by magnitude, |λ1| ≤ |λ2|. Along a line λ1 ≈ 0 and λ2 is across it. */
+  l1: Float32Array;
+  l2: Float32Array;
+};
+
+/** Ridges are bright lines on a darker background, valleys dark lines on a brighter one. */
+export type LinePolarity = "ridge" | "valley";
+export type BlobPolarity = "bright" | "dark" | "both";
+
+export type VesselnessOptions = {
+  scales: number[];
+  polarity: LinePolarity;
+  /** Blob-vs-line sensitivity on λ1/λ2 (Frangi's β). */
+  beta?: number;
+  /** Structureness scale; defaults to half the largest Hessian norm at each scale. */
+  c?: number;
+};
+
+export type BlobOptions = {
+  scales: number[];
+  /** Scale-normalized Laplacian of Gaussian, or its difference-of-Gaussians approximation. */
+  method: "log" | "dog";
+  polarity: BlobPolarity;
+  /** Minimum response as a fraction of the strongest one. */
+  threshold: number;
+  maxBlobs: number;
+  /** Largest principal-curvature ratio kept; elongated responses along lines and edges are rejected. */
+  edgeRatio?: number;
+};
+
+export type Blob = {
+  x: number;
+  y: number;
+  /** Scale where the normalized response peaks. */
+  sigma: number;
+  /** σ√2, the radius of a disc matched by that scale. */
+  radius: number;
+  /** Signed response: positive for bright blobs, negative for dark ones. */
+  response: number;
+};
+
+/** `levels` scales spaced geometrically from `min` to `max`. */
+export function scaleRange(min: number, max: number, levels: number) {
+  const n = Math.max(1, Math.round(levels));
+  if (n === 1 || max <= min) return [min];
+  const r = Math.pow(max / min, 1 / (n - 1));
+  return Array.from({ length: n }, (_, k) => min * Math.pow(r, k));
+}
+
+/** σ²-normalized second derivatives of an already smoothed image; the border is left at zero. */
+function secondDerivatives(L: Float32Array, W: number, H: number, sigma: number) {
+  const n = W * H;
+  const s2 = sigma * sigma;
+  const Lxx = new Float32Array(n), Lxy = new Float32Array(n), Lyy = new Float32Array(n);
+  for (let y = 1; y < H - 1; y++) {
+    for (let x = 1; x < W - 1; x++) {
+      const i = y * W + x;
+      Lxx[i] = s2 * (L[i + 1] - 2 * L[i] + L[i - 1]);
+      Lyy[i] = s2 * (L[i + W] - 2 * L[i] + L[i - W]);
+      Lxy[i] = s2 * 0.25 * (L[i + W + 1] - L[i + W - 1] - L[i - W + 1] + L[i - W - 1]);
+    }
+  }
+  return { Lxx, Lxy, Lyy };
+}
+
+function eigen(Lxx: Float32Array, Lxy: Float32Array, Lyy: Float32Array): Hessian {
+  const n = Lxx.length;
+  const l1 = new Float32Array(n), l2 = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const a = Lxx[i], b = Lxy[i], d = Lyy[i];
+    const mid = 0.5 * (a + d);
+    const root = Math.sqrt(0.25 * (a - d) * (a - d) + b * b);
+    const p = mid + root, q = mid - root;
+    if (Math.abs(p) <= Math.abs(q)) { l1[i] = p; l2[i] = q; } else { l1[i] = q; l2[i] = p; }
+  }
+  return { Lxx, Lxy, Lyy, l1, l2 };
+}
+
+export function hessianAtScale(gray: ArrayLike<number>, W: number, H: number, sigma: number): Hessian {
+  const { Lxx, Lxy, Lyy } = secondDerivatives(gaussianBlur(gray, W, H, sigma), W, H, sigma);
+  return eigen(Lxx, Lxy, Lyy);
+}
+
+/**
+ * Frangi et al. (1998) vesselness, maximized over scales:
+ *   V = exp(−R²/2β²)·(1 − exp(−S²/2c²)),  R = λ1/λ2,  S = ‖(λ1, λ2)‖
+ * and zero where λ2 has the wrong sign for the polarity (λ2 < 0 across a bright ridge).
+ * `scale` holds the σ of the winning response per pixel.
+ */
+export function frangiVesselness(gray: ArrayLike<number>, W: number, H: number, opts: VesselnessOptions) {
+  const n = W * H;
+  const beta = opts.beta ?? 0.5;
+  const vesselness = new Float32Array(n);
+  const scale = new Float32Array(n);
+  for (const sigma of opts.scales) {
+    const { l1, l2 } = hessianAtScale(gray, W, H, sigma);
+    let c = opts.c ?? 0;
+    if (!c) {
+      for (let i = 0; i < n; i++) c = Math.max(c, Math.hypot(l1[i], l2[i]));
+      c = 0.5 * c || 1;
+    }
+    for (let i = 0; i < n; i++) {
+      const b = l2[i];
+      if (opts.polarity === "ridge" ? b >= 0 : b <= 0) continue;
+      const R = l1[i] / b;
+      const S2 = l1[i] * l1[i] + b * b;
+      const v = Math.exp(-(R * R) / (2 * beta * beta)) * (1 - Math.exp(-S2 / (2 * c * c)));
+      if (v > vesselness[i]) { vesselness[i] = v; scale[i] = sigma; }
+    }
+  }
+  return { vesselness, scale };
+}
+
+/**
+ * Blobs as local extrema of the normalized Laplacian over space and scale (3×3×3
+ * neighbourhood). A bright disc of radius r peaks at σ = r/√2. The DoG variant uses
+ * (L(kσ) − L(σ))/(k − 1) ≈ σ²∇²L with k the ratio to the next scale, placed at σ√k.
+ * As in SIFT, peaks whose response surface is a ridge rather than a dome are rejected, and
+ * weaker blobs whose centre lies inside a stronger one are dropped.
+ */
+export function detectBlobs(gray: ArrayLike<number>, W: number, H: number, opts: BlobOptions): Blob[] {
+  const scales = opts.scales;
+  const n = W * H;
+  if (!scales.length || W < 3 || H < 3) return [];
+
+  // Signed stack with bright blobs positive: −σ²∇²L.
+  const stack: Float32Array[] = [];
+  const at: number[] = [];
+  if (opts.method === "dog") {
+    const ratio = scales.length > 1 ? scales[1] / scales[0] : 1.6;
+    let prev = gaussianBlur(gray, W, H, scales[0]);
+    for (let k = 0; k < scales.length; k++) {
+      const nextSigma = k + 1 < scales.length ? scales[k + 1] : scales[k] * ratio;
+      const next = gaussianBlur(gray, W, H, nextSigma);
+      const norm = 1 / (nextSigma / scales[k] - 1);
+      const d = new Float32Array(n);
+      for (let i = 0; i < n; i++) d[i] = -(next[i] - prev[i]) * norm;
+      stack.push(d);
+      at.push(Math.sqrt(scales[k] * nextSigma));
+      prev = next;
+    }
+  } else {
+    for (const sigma of scales) {
+      const { Lxx, Lyy } = secondDerivatives(gaussianBlur(gray, W, H, sigma), W, H, sigma);
+      const d = new Float32Array(n);
+      for (let i = 0; i < n; i++) d[i] = -(Lxx[i] + Lyy[i]);
+      stack.push(d);
+      at.push(sigma);
+    }
+  }
+
+  const sign = opts.polarity === "dark" ? -1 : 1;
+  const score = (v: number) => (opts.polarity === "both" ? Math.abs(v) : sign * v);
+  let top = 0;
+  for (const d of stack) for (let i = 0; i < n; i++) top = Math.max(top, score(d[i]));
+  if (top <= 0) return [];
+  const thr = opts.threshold * top;
+  const r = opts.edgeRatio ?? 10;
+  const maxCurvature = ((r + 1) * (r + 1)) / r;
+
+  const candidates: Blob[] = [];
+  for (let k = 0; k < stack.length; k++) {
+    const d = stack[k];
+    for (let y = 1; y < H - 1; y++) {
+      for (let x = 1; x < W - 1; x++) {
+        const i = y * W + x;
+        const v = score(d[i]);
+        if (v < thr) continue;
+        let isMax = true;
+        for (let kk = Math.max(0, k - 1); kk <= Math.min(stack.length - 1, k + 1) && isMax; kk++) {
+          const e = stack[kk];
+          for (let yy = -1; yy <= 1 && isMax; yy++) {
+            for (let xx = -1; xx <= 1; xx++) {
+              if (kk === k && xx === 0 && yy === 0) continue;
+              if (score(e[i + yy * W + xx]) > v) { isMax = false; break; }
+            }
+          }
+        }
+        if (!isMax) continue;
+        const dxx = d[i + 1] - 2 * d[i] + d[i - 1];
+        const dyy = d[i + W] - 2 * d[i] + d[i - W];
+        const dxy = 0.25 * (d[i + W + 1] - d[i + W - 1] - d[i - W + 1] + d[i - W - 1]);
+        const det = dxx * dyy - dxy * dxy;
+        if (det <= 0 || ((dxx + dyy) * (dxx + dyy)) / det >= maxCurvature) continue;
+        candidates.push({ x, y, sigma: at[k], radius: at[k] * Math.SQRT2, response: d[i] });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => Math.abs(b.response) - Math.abs(a.response));
+  const kept: Blob[] = [];
+  for (const b of candidates) {
+    if (kept.length >= opts.maxBlobs) break;
+    if (!kept.some(q => (q.x - b.x) ** 2 + (q.y - b.y) ** 2 < Math.min(q.radius, b.radius) ** 2)) kept.push(b);
+  }
+  return kept;
+}
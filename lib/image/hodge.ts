@@ -0,0 +1,151 @@
+// Helmholtz–Hodge decomposition of a 2D vector field
+//
+//   F = ∇φ + J∇ψ + h,   J∇ψ = (∂ψ/∂y, −∂ψ/∂x)
+//
+// ∇φ is curl-free (sources and sinks), J∇ψ is divergence-free (swirl) and h is the harmonic
+// remainder, carrying the flow that enters or leaves through the border. φ and ψ solve
+// Poisson equations ∇²φ = div F and ∇²ψ = −curl F with zero Dirichlet boundary, by a
+// sine-transform (spectral) solve of the 5-point Laplacian.
+//
+// The differences are paired so they compose to exactly that Laplacian: ∇φ is a forward
+// difference and div a backward one; J∇ψ is a backward difference and curl a forward one.
+// So curl ∇φ = 0 and div J∇ψ = 0 everywhere, and h is divergence- and curl-free except on
+// the one-pixel border, where it holds the boundary flux.
+
+import { fftPlan } from "./fft";
+
+export type VectorField = { u: Float32Array; v: Float32Array };
+
+export type HodgeDecomposition = {
+  curlFree: VectorField;
+  divFree: VectorField;
+  harmonic: VectorField;
+  /** Scalar potential φ (curl-free part = ∇φ). */
+  potential: Float32Array;
+  /** Stream function ψ (divergence-free part = J∇ψ). */
+  stream: Float32Array;
+  /** Share of ‖F‖² in each part. ∇φ ⊥ J∇ψ exactly and h meets them only at the border, so these sum to about 1. */
+  energy: { curlFree: number; divFree: number; harmonic: number };
+};
+
+/** In-place 2D DST-I (unnormalized): rows, then columns. */
+function dst2(a: Float64Array, W: number, H: number) {
+  dstLines(a, W, H, 1, W);
+  dstLines(a, H, W, W, 1);
+}
+
+/**
+ * DST-I, X_k = Σ x_j sin(π(j+1)(k+1)/(n+1)), of `count` lines of length n spaced `stride`
+ * apart, elements `step` apart. Each line is odd-extended to 2(n+1) points, whose DFT is
+ * purely imaginary, so two lines share one complex FFT: one in re, the other in im.
+ */
+function dstLines(a: Float64Array, n: number, count: number, step: number, stride: number) {
+  const m = 2 * (n + 1);
+  const fft = fftPlan(m);
+  const re = new Float64Array(m), im = new Float64Array(m);
+  for (let l = 0; l < count; l += 2) {
+    const o1 = l * stride, o2 = o1 + stride, pair = l + 1 < count;
+    re.fill(0); im.fill(0);
+    for (let j = 0; j < n; j++) {
+      const x = a[o1 + j * step];
+      re[j + 1] = x; re[m - 1 - j] = -x;
+      if (pair) {
+        const y = a[o2 + j * step];
+        im[j + 1] = y; im[m - 1 - j] = -y;
+      }
+    }
+    fft(re, im);
+    for (let k = 0; k < n; k++) {
+      a[o1 + k * step] = -im[k + 1] / 2;
+      if (pair) a[o2 + k * step] = re[k + 1] / 2;
+    }
+  }
+}
+
+/**
+ * Solves ∇²f = rhs on the 5-point stencil with f = 0 just outside the grid. The sine
+ * transform diagonalizes that Laplacian: transform, divide by the eigenvalues, transform
+ * back. The transforms are FFTs, O(WH log(WH)); the whole decomposition at 640×427 takes
+ * a few hundred milliseconds.
+ */
+export function solvePoisson(rhs: ArrayLike<number>, W: number, H: number) {
+  const a = Float64Array.from(rhs);
+  dst2(a, W, H);
+  const scale = 4 / ((W + 1) * (H + 1)); // DST-I is its own inverse up to this factor
+  for (let y = 0; y < H; y++) {
+    const cy = 2 * Math.cos((Math.PI * (y + 1)) / (H + 1));
+    for (let x = 0; x < W; x++) {
+      const lambda = 2 * Math.cos((Math.PI * (x + 1)) / (W + 1)) + cy - 4;
+      a[y * W + x] *= scale / lambda;
+    }
+  }
+  dst2(a, W, H);
+  return Float32Array.from(a);
+}
+
+/** div F by backward differences, F = 0 outside the grid. */
+function divergence(F: VectorField, W: number, H: number) {
+  const out = new Float32Array(W * H);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i = y * W + x;
+      out[i] = F.u[i] - (x > 0 ? F.u[i - 1] : 0) + F.v[i] - (y > 0 ? F.v[i - W] : 0);
+    }
+  }
+  return out;
+}
+
+/** curl F = ∂v/∂x − ∂u/∂y by forward differences, F = 0 outside the grid. */
+function curl(F: VectorField, W: number, H: number) {
+  const out = new Float32Array(W * H);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i = y * W + x;
+      out[i] = (x < W - 1 ? F.v[i + 1] : 0) - F.v[i] - ((y < H - 1 ? F.u[i + W] : 0) - F.u[i]);
+    }
+  }
+  return out;
+}
+
+export function helmholtzHodge(F: VectorField, W: number, H: number): HodgeDecomposition {
+  const n = W * H;
+  const div = divergence(F, W, H);
+  const negCurl = curl(F, W, H);
+  for (let i = 0; i < n; i++) negCurl[i] = -negCurl[i];
+
+  const phi = solvePoisson(div, W, H);
+  const psi = solvePoisson(negCurl, W, H);
+
+  // ∇φ forward and J∇ψ backward, with φ = ψ = 0 outside the grid.
+  const curlFree = { u: new Float32Array(n), v: new Float32Array(n) };
+  const divFree = { u: new Float32Array(n), v: new Float32Array(n) };
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i = y * W + x;
+      curlFree.u[i] = (x < W - 1 ? phi[i + 1] : 0) - phi[i];
+      curlFree.v[i] = (y < H - 1 ? phi[i + W] : 0) - phi[i];
+      divFree.u[i] = psi[i] - (y > 0 ? psi[i - W] : 0);
+      divFree.v[i] = -(psi[i] - (x > 0 ? psi[i - 1] : 0));
+    }
+  }
+  const harmonic = { u: new Float32Array(n), v: new Float32Array(n) };
+  let eF = 0, eC = 0, eD = 0, eH = 0;
+  for (let i = 0; i < n; i++) {
+    harmonic.u[i] = F.u[i] - curlFree.u[i] - divFree.u[i];
+    harmonic.v[i] = F.v[i] - curlFree.v[i] - divFree.v[i];
+    eF += F.u[i] * F.u[i] + F.v[i] * F.v[i];
+    eC += curlFree.u[i] * curlFree.u[i] + curlFree.v[i] * curlFree.v[i];
+    eD += divFree.u[i] * divFree.u[i] + divFree.v[i] * divFree.v[i];
+    eH += harmonic.u[i] * harmonic.u[i] + harmonic.v[i] * harmonic.v[i];
+  }
+  const share = (e: number) => (eF > 0 ? e / eF : 0);
+
+  return {
+    curlFree,
+    divFree,
+    harmonic,
+    potential: phi,
+    stream: psi,
+    energy: { curlFree: share(eC), divFree: share(eD), harmonic: share(eH) },
+  };
+}
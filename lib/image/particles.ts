@@ -0,0 +1,93 @@
+// Particle advection through a 2D vector field, for animated flow views
+//
+// Particles move `speed` pixels per frame where the field is at full strength (|F| ≥ the
+// reference magnitude) and proportionally slower where it is weaker. They respawn at a
+// random spot when they age out, leave the frame or stall, and lifetimes are jittered so
+// respawns don't happen in waves.
+
+export type ParticleSystem = {
+  width: number;
+  height: number;
+  x: Float32Array;
+  y: Float32Array;
+  age: Float32Array;
+  life: Float32Array;
+};
+
+export type AdvectOptions = {
+  /** Pixels per frame at full strength. */
+  speed: number;
+  /** Mean lifetime in frames. */
+  lifetime: number;
+  /** Field magnitude that counts as full strength, e.g. a high percentile of |F|. */
+  reference: number;
+};
+
+function respawn(ps: ParticleSystem, k: number, lifetime: number) {
+  ps.x[k] = Math.random() * ps.width;
+  ps.y[k] = Math.random() * ps.height;
+  ps.age[k] = 0;
+  ps.life[k] = lifetime * (0.5 + Math.random());
+}
+
+export function seedParticles(count: number, width: number, height: number, lifetime: number): ParticleSystem {
+  const n = Math.max(0, Math.round(count));
+  const ps: ParticleSystem = {
+    width,
+    height,
+    x: new Float32Array(n),
+    y: new Float32Array(n),
+    age: new Float32Array(n),
+    life: new Float32Array(n),
+  };
+  for (let k = 0; k < n; k++) {
+    respawn(ps, k, lifetime);
+    // Start at random ages so the first generation doesn't expire together.
+    ps.age[k] = Math.random() * ps.life[k];
+  }
+  return ps;
+}
+
+/** Bilinear sample of a field at (x, y), clamped to the grid. */
+function sample(f: ArrayLike<number>, W: number, H: number, x: number, y: number) {
+  const fx = Math.min(W - 1.001, Math.max(0, x - 0.5));
+  const fy = Math.min(H - 1.001, Math.max(0, y - 0.5));
+  const x0 = fx | 0, y0 = fy | 0, tx = fx - x0, ty = fy - y0;
+  const i = y0 * W + x0;
+  return (1 - ty) * ((1 - tx) * f[i] + tx * f[i + 1]) + ty * ((1 - tx) * f[i + W] + tx * f[i + W + 1]);
+}
+
+/**
+ * Moves every particle one frame (midpoint rule) and calls `segment` with its old and new
+ * position and its relative speed in 0..1. Respawned particles draw nothing that frame.
+ */
+export function advectParticles(
+  ps: ParticleSystem,
+  u: ArrayLike<number>,
+  v: ArrayLike<number>,
+  opts: AdvectOptions,
+  segment: (x0: number, y0: number, x1: number, y1: number, strength: number) => void
+) {
+  const { width: W, height: H } = ps;
+  const ref = opts.reference > 0 ? opts.reference : 1;
+  const velocity = (x: number, y: number) => {
+    const a = sample(u, W, H, x, y), b = sample(v, W, H, x, y);
+    const m = Math.hypot(a, b);
+    if (m < 1e-9) return null;
+    const s = (opts.speed * Math.min(1, m / ref)) / m;
+    return { dx: a * s, dy: b * s, strength: Math.min(1, m / ref) };
+  };
+
+  for (let k = 0; k < ps.x.length; k++) {
+    const x = ps.x[k], y = ps.y[k];
+    ps.age[k] += 1;
+    const v1 = ps.age[k] > ps.life[k] ? null : velocity(x, y);
+    const v2 = v1 && velocity(x + 0.5 * v1.dx, y + 0.5 * v1.dy);
+    if (!v2 || v2.strength < 0.01) { respawn(ps, k, opts.lifetime); continue; }
+    const nx = x + v2.dx, ny = y + v2.dy;
+    if (nx < 0 || ny < 0 || nx >= W || ny >= H) { respawn(ps, k, opts.lifetime); continue; }
+    segment(x, y, nx, ny, v2.strength);
+    ps.x[k] = nx;
+    ps.y[k] = ny;
+  }
+}
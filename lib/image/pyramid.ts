@@ -0,0 +1,52 @@
+// Bilinear resampling and the Gaussian-ish image pyramid shared by the tools
+
+import { gaussianBlur } from "./filters";
+import type { FloatField } from "./types";
+
+export function resampleBilinear(src: ArrayLike<number>, W: number, H: number, W2: number, H2: number): Float32Array {
+  const out = new Float32Array(W2 * H2);
+  const xScale = (W - 1) / Math.max(1, W2 - 1);
+  const yScale = (H - 1) / Math.max(1, H2 - 1);
+  let idx = 0;
+  for (let y2 = 0; y2 < H2; y2++) {
+    const y = y2 * yScale;
+    const y0 = Math.floor(y), y1 = Math.min(H - 1, y0 + 1);
+    const wy = y - y0;
+    for (let x2 = 0; x2 < W2; x2++, idx++) {
+      const x = x2 * xScale;
+      const x0 = Math.floor(x), x1 = Math.min(W - 1, x0 + 1);
+      const wx = x - x0;
+      const i00 = y0 * W + x0, i01 = y0 * W + x1, i10 = y1 * W + x0, i11 = y1 * W + x1;
+      out[idx] = (1 - wy) * ((1 - wx) * src[i00] + wx * src[i01]) + wy * ((1 - wx) * src[i10] + wx * src[i11]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Halves each level with bilinear resampling. Level 0 is the input itself. A `prefilter` σ
+ * (in the finer level's pixels) blurs before each halving, against aliasing.
+ */
+export function buildPyramid(base: FloatField, levels: number, prefilter = 0): FloatField[] {
+  const pyr: FloatField[] = [base];
+  for (let k = 1; k < levels; k++) {
+    const { width: w, height: h } = pyr[k - 1];
+    const data = prefilter > 0 ? gaussianBlur(pyr[k - 1].data, w, h, prefilter) : pyr[k - 1].data;
+    const w2 = Math.max(1, (w / 2) | 0), h2 = Math.max(1, (h / 2) | 0);
+    pyr.push({ data: resampleBilinear(data, w, h, w2, h2), width: w2, height: h2 });
+  }
+  return pyr;
+}
+
+/** Bilinear resize of interleaved RGBA bytes, for callers without a canvas (CLI, API routes). */
+export function resizeRGBA(src: Uint8ClampedArray, W: number, H: number, W2: number, H2: number): Uint8ClampedArray {
+  if (W === W2 && H === H2) return src.slice();
+  const out = new Uint8ClampedArray(W2 * H2 * 4);
+  const plane = new Float32Array(W * H);
+  for (let c = 0; c < 4; c++) {
+    for (let i = 0; i < plane.length; i++) plane[i] = src[i * 4 + c];
+    const r = resampleBilinear(plane, W, H, W2, H2);
+    for (let i = 0; i < r.length; i++) out[i * 4 + c] = r[i];
+  }
+  return out;
+}
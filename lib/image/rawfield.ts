@@ -0,0 +1,107 @@
+// Raw float field export: NumPy .npy, 32-bit float TIFF and JSON
+//
+// Fields are row-major Float32Array rasters, so they are written as (height, width) arrays
+// with no rescaling. Encoders return bytes and work in the browser and in Node alike.
+
+export type NamedFields = Record<string, Float32Array>;
+
+/** NPY v1.0 file: magic, version, header dict padded to a 64-byte boundary, then the data. */
+function npyFile(descr: string, shape: number[], bodyBytes: number) {
+  const dims = shape.length === 1 ? `${shape[0]},` : shape.join(", ");
+  let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': (${dims}), }`;
+  // Magic (6) + version (2) + length (2) + header, padded with spaces to 64 bytes and ended by \n.
+  const pad = 64 - ((10 + header.length + 1) % 64);
+  header += " ".repeat(pad % 64) + "\n";
+  const out = new Uint8Array(10 + header.length + bodyBytes);
+  out.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0], 0); // \x93NUMPY 1.0
+  new DataView(out.buffer).setUint16(8, header.length, true);
+  for (let i = 0; i < header.length; i++) out[10 + i] = header.charCodeAt(i);
+  return { out, body: new DataView(out.buffer, 10 + header.length) };
+}
+
+/** NPY v1.0, little-endian float32, C order, shape (height, width). */
+export function encodeNpy(data: Float32Array, width: number, height: number): Uint8Array {
+  const { out, body } = npyFile("<f4", [height, width], data.length * 4);
+  for (let i = 0; i < data.length; i++) body.setFloat32(i * 4, data[i], true);
+  return out;
+}
+
+/**
+ * A 0-d NumPy unicode string (UTF-32LE), so text such as JSON metadata can sit in an .npz
+ * beside the fields: `json.loads(str(np.load(path)["metadata"]))`.
+ */
+export function encodeNpyText(text: string): Uint8Array {
+  const chars = Array.from(text, (c) => c.codePointAt(0)!);
+  const n = Math.max(1, chars.length);
+  const { out, body } = npyFile(`<U${n}`, [], n * 4);
+  chars.forEach((c, i) => body.setUint32(i * 4, c, true));
+  return out;
+}
+
+/**
+ * Baseline little-endian TIFF, one uncompressed strip of 32-bit IEEE floats
+ * (SampleFormat 3, single channel). `description` goes into ImageDescription.
+ */
+export function encodeFloatTiff(data: Float32Array, width: number, height: number, description = ""): Uint8Array {
+  const desc = new TextEncoder().encode(description + "\0");
+  const pixelBytes = data.length * 4;
+  // Tags as [tag, type, count, value]; type 3 = SHORT, 4 = LONG, 2 = ASCII.
+  const entries: [number, number, number, number][] = [];
+  const HEADER = 8;
+  const IFD_ENTRIES = 12;
+  const ifdSize = 2 + IFD_ENTRIES * 12 + 4;
+  const descOffset = HEADER + ifdSize;
+  const dataOffset = descOffset + desc.length + (desc.length & 1);
+
+  entries.push(
+    [256, 4, 1, width], // ImageWidth
+    [257, 4, 1, height], // ImageLength
+    [258, 3, 1, 32], // BitsPerSample
+    [259, 3, 1, 1], // Compression: none
+    [262, 3, 1, 1], // Photometric: black is zero
+    [270, 2, desc.length, descOffset], // ImageDescription
+    [273, 4, 1, dataOffset], // StripOffsets
+    [277, 3, 1, 1], // SamplesPerPixel
+    [278, 4, 1, height], // RowsPerStrip
+    [279, 4, 1, pixelBytes], // StripByteCounts
+    [284, 3, 1, 1], // PlanarConfiguration: chunky
+    [339, 3, 1, 3] // SampleFormat: IEEE float
+  );
+
+  const out = new Uint8Array(dataOffset + pixelBytes);
+  const dv = new DataView(out.buffer);
+  out.set([0x49, 0x49], 0); // "II"
+  dv.setUint16(2, 42, true);
+  dv.setUint32(4, HEADER, true);
+  dv.setUint16(HEADER, entries.length, true);
+  entries.forEach(([tag, type, count, value], k) => {
+    const o = HEADER + 2 + k * 12;
+    dv.setUint16(o, tag, true);
+    dv.setUint16(o + 2, type, true);
+    dv.setUint32(o + 4, count, true);
+    // ASCII of 4 bytes or less sits inline; SHORT values are left-justified in the field.
+    if (type === 2 && count <= 4) out.set(desc, o + 8);
+    else if (type === 3) dv.setUint16(o + 8, value, true);
+    else dv.setUint32(o + 8, value, true);
+  });
+  dv.setUint32(HEADER + 2 + entries.length * 12, 0, true); // no next IFD
+  out.set(desc, descOffset);
+  for (let i = 0; i < data.length; i++) dv.setFloat32(dataOffset + i * 4, data[i], true);
+  return out;
+}
+
+/** Shortest decimal that reads back as the same float32 (9 digits always suffice). */
+function float32Decimal(v: number) {
+  for (let p = 6; p < 9; p++) {
+    const d = Number(v.toPrecision(p));
+    if (Math.fround(d) === v) return d;
+  }
+  return Number(v.toPrecision(9));
+}
+
+/** JSON with width/height metadata and each field as a flat row-major array of float32 values. */
+export function fieldsToJSON(fields: NamedFields, width: number, height: number, meta: Record<string, unknown> = {}) {
+  const out: Record<string, number[]> = {};
+  for (const [name, f] of Object.entries(fields)) out[name] = Array.from(f, float32Decimal);
+  return JSON.stringify({ width, height, dtype: "float32", layout: "row-major", ...meta, fields: out });
+}
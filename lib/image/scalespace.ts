@@ -0,0 +1,142 @@
+// Gaussian scale space on top of the image pyramid, and feature tracking across scales
+//
+// Levels are spaced evenly in log σ. Each one is smoothed on the coarsest octave of an
+// anti-aliased pyramid (`buildPyramid` with a prefilter) whose pixels are no larger than σ,
+// so every level costs about the same small blur and coarse levels are cheap to store.
+// Maps derived at a level live at that octave's resolution and are upsampled for display.
+
+import { gaussianBlur } from "./filters";
+import { buildPyramid } from "./pyramid";
+import type { FloatField } from "./types";
+
+export type ScaleLevel = {
+  /** Total blur in base-image pixels. */
+  sigma: number;
+  octave: number;
+  /** L(σ) at the octave's resolution. */
+  image: FloatField;
+  /** σ in the octave's pixels, for derivatives and integration windows at this level. */
+  sigmaPx: number;
+  /** Base pixels per octave pixel along x and y (for mapping coordinates back). */
+  stepX: number;
+  stepY: number;
+};
+
+export type ScaleSpace = {
+  width: number;
+  height: number;
+  octaves: FloatField[];
+  levels: ScaleLevel[];
+};
+
+export type ScaleSpaceOptions = {
+  minSigma: number;
+  maxSigma: number;
+  perOctave: number;
+};
+
+/** Anti-aliasing blur before each halving, in the finer octave's pixels. */
+const PREFILTER = 1;
+/** Octaves stop before the short side drops under this many pixels. */
+const MIN_SIDE = 16;
+
+export function buildScaleSpace(base: FloatField, opts: ScaleSpaceOptions): ScaleSpace {
+  const { width: W, height: H } = base;
+  const n = Math.max(1, Math.round(Math.log2(opts.maxSigma / opts.minSigma) * opts.perOctave) + 1);
+  const sigmas = Array.from({ length: n }, (_, k) => opts.minSigma * Math.pow(2, k / opts.perOctave));
+
+  const maxOctave = Math.max(0, Math.floor(Math.log2(Math.min(W, H) / MIN_SIDE)));
+  const octaveCount = Math.min(maxOctave, Math.max(0, Math.floor(Math.log2(sigmas[n - 1])))) + 1;
+  const octaves = buildPyramid(base, octaveCount, PREFILTER);
+  // Blur already carried by each octave, in base pixels: σ²(o) = σ²(o−1) + (PREFILTER·2^(o−1))².
+  const carried = [0];
+  for (let o = 1; o < octaves.length; o++) carried.push(Math.hypot(carried[o - 1], PREFILTER * 2 ** (o - 1)));
+
+  const levels = sigmas.map((sigma): ScaleLevel => {
+    const octave = Math.max(0, Math.min(octaves.length - 1, Math.floor(Math.log2(sigma))));
+    const { data, width: w, height: h } = octaves[octave];
+    const residual = Math.sqrt(Math.max(0, sigma * sigma - carried[octave] ** 2)) / 2 ** octave;
+    const image = { data: residual > 0.3 ? gaussianBlur(data, w, h, residual) : data, width: w, height: h };
+    return {
+      sigma,
+      octave,
+      image,
+      sigmaPx: sigma / 2 ** octave,
+      stepX: (W - 1) / Math.max(1, w - 1),
+      stepY: (H - 1) / Math.max(1, h - 1),
+    };
+  });
+  return { width: W, height: H, octaves, levels };
+}
+
+/** Index of the level closest to `sigma` in log scale. */
+export function nearestLevel(space: ScaleSpace, sigma: number) {
+  let best = 0;
+  for (let k = 1; k < space.levels.length; k++) {
+    if (Math.abs(Math.log(space.levels[k].sigma / sigma)) < Math.abs(Math.log(space.levels[best].sigma / sigma))) best = k;
+  }
+  return best;
+}
+
+export type ScalePoint = { x: number; y: number; value: number };
+
+export type ScaleTrack = {
+  /** One point per level from `birth` to `death` (inclusive), in base-image pixels. */
+  points: (ScalePoint & { level: number; sigma: number })[];
+  birth: number;
+  death: number;
+  /** Span in octaves, counting each level as 1/perOctave. */
+  lifetime: number;
+  /** Largest value along the track. */
+  peak: number;
+};
+
+/**
+ * Links features (e.g. hotspot maxima) level by level from fine to coarse: each track
+ * continues to the nearest feature on the next level within `radius(σ)`, greedily by
+ * distance. Unmatched features start new tracks; tracks with no match end. Long tracks are
+ * features that survive smoothing, i.e. structure present at many scales.
+ */
+export function trackAcrossScales(
+  space: ScaleSpace,
+  features: ScalePoint[][],
+  radius: (sigma: number) => number,
+  perOctave: number
+): ScaleTrack[] {
+  const done: ScaleTrack[] = [];
+  let active: ScaleTrack[] = [];
+  const step = 1 / perOctave;
+
+  features.forEach((pts, k) => {
+    const sigma = space.levels[k].sigma;
+    const r = radius(sigma);
+    const pairs: { t: number; p: number; d: number }[] = [];
+    active.forEach((tr, t) => {
+      const last = tr.points[tr.points.length - 1];
+      pts.forEach((q, p) => {
+        const d = Math.hypot(q.x - last.x, q.y - last.y);
+        if (d <= r) pairs.push({ t, p, d });
+      });
+    });
+    pairs.sort((a, b) => a.d - b.d);
+    const usedT = new Set<number>(), usedP = new Set<number>();
+    for (const { t, p } of pairs) {
+      if (usedT.has(t) || usedP.has(p)) continue;
+      usedT.add(t); usedP.add(p);
+      const tr = active[t], q = pts[p];
+      tr.points.push({ ...q, level: k, sigma });
+      tr.death = k;
+      tr.peak = Math.max(tr.peak, q.value);
+    }
+    const next: ScaleTrack[] = [];
+    active.forEach((tr, t) => (usedT.has(t) ? next : done).push(tr));
+    pts.forEach((q, p) => {
+      if (!usedP.has(p)) next.push({ points: [{ ...q, level: k, sigma }], birth: k, death: k, lifetime: 0, peak: q.value });
+    });
+    active = next;
+  });
+
+  const all = [...done, ...active];
+  for (const tr of all) tr.lifetime = (tr.death - tr.birth + 1) * step;
+  return all.sort((a, b) => b.lifetime - a.lifetime || b.peak - a.peak);
+}
@@ -0,0 +1,25 @@
+// Least-squares fits shared by the scaling analyses (fractal, multifractal, lacunarity)
+
+/** Slope of the least-squares line through (x, y). 0 when x has no spread. */
+export function leastSquaresSlope(x: ArrayLike<number>, y: ArrayLike<number>) {
+  const n = x.length;
+  if (!n) return 0;
+  let mx = 0, my = 0;
+  for (let i = 0; i < n; i++) { mx += x[i]; my += y[i]; }
+  mx /= n;
+  my /= n;
+  let num = 0, den = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - mx;
+    num += dx * (y[i] - my);
+    den += dx * dx;
+  }
+  return den ? num / den : 0;
+}
+
+/** Slope of log y against log x; y is floored at 1e-9 so empty counts stay finite. */
+export function logLogSlope(x: ArrayLike<number>, y: ArrayLike<number>) {
+  const lx = Array.from(x, Math.log);
+  const ly = Array.from(y, (v) => Math.log(Math.max(v, 1e-9)));
+  return leastSquaresSlope(lx, ly);
+}
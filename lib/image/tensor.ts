@@ -0,0 +1,45 @@
+// Gaussian-smoothed structure tensor J = G_σ * (∇I ∇Iᵀ) and its eigen-decomposition
+
+import { gaussianBlur } from "./filters";
+
+export type StructureTensor = {
+  Jxx: Float32Array;
+  Jxy: Float32Array;
+  Jyy: Float32Array;
+  /** Larger and smaller eigenvalues. */
+  l1: Float32Array;
+  l2: Float32Array;
+  /** (λ1 − λ2) / (λ1 + λ2): 0 for isotropic or flat areas, 1 for a single orientation. */
+  coherence: Float32Array;
+  /** Dominant gradient direction in (−π/2, π/2]; edges and lines run perpendicular to it. */
+  theta: Float32Array;
+};
+
+export function structureTensor(gx: ArrayLike<number>, gy: ArrayLike<number>, W: number, H: number, sigma: number): StructureTensor {
+  const n = W * H;
+  const Ixx = new Float32Array(n);
+  const Iyy = new Float32Array(n);
+  const Ixy = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const ix = gx[i] || 0, iy = gy[i] || 0;
+    Ixx[i] = ix * ix; Iyy[i] = iy * iy; Ixy[i] = ix * iy;
+  }
+  const Jxx = gaussianBlur(Ixx, W, H, sigma);
+  const Jyy = gaussianBlur(Iyy, W, H, sigma);
+  const Jxy = gaussianBlur(Ixy, W, H, sigma);
+
+  const l1 = new Float32Array(n);
+  const l2 = new Float32Array(n);
+  const coherence = new Float32Array(n);
+  const theta = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const a = Jxx[i], b = Jxy[i], d = Jyy[i];
+    const tr = a + d;
+    const root = Math.sqrt(Math.max(0, (a - d) * (a - d) + 4 * b * b));
+    l1[i] = 0.5 * (tr + root);
+    l2[i] = 0.5 * (tr - root);
+    coherence[i] = tr > 1e-6 ? root / tr : 0;
+    theta[i] = 0.5 * Math.atan2(2 * b, a - d);
+  }
+  return { Jxx, Jxy, Jyy, l1, l2, coherence, theta };
+}
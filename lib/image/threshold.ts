@@ -0,0 +1,117 @@
+// Binarization: manual, Otsu, and Sauvola / Niblack adaptive thresholds
+//
+// Foreground is the dark side (gray < threshold), matching how the complexity metrics
+// treat ink on paper. Adaptive modes compute a per-pixel threshold from the local mean
+// and standard deviation over a window, via summed-area tables.
+
+import { boxSum, summedAreaTable } from "./filters";
+
+export const THRESHOLD_MODES = ["manual", "otsu", "sauvola", "niblack"] as const;
+export type ThresholdMode = (typeof THRESHOLD_MODES)[number];
+
+export type ThresholdOptions = {
+  mode: ThresholdMode;
+  /** Manual cut, 0..255. */
+  value?: number;
+  /** Adaptive window side in pixels. */
+  window?: number;
+  /** Sauvola k (default 0.2) or Niblack k (default −0.2). */
+  k?: number;
+};
+
+/** What a metric reports about the binarization it ran on. */
+export type BinarizationInfo = {
+  mode: ThresholdMode;
+  /** Global cut, or the mean of the per-pixel cuts for adaptive modes. */
+  threshold: number;
+  /** Share of pixels classed as foreground. */
+  foreground: number;
+};
+
+export type Binarization = BinarizationInfo & { mask: Uint8Array };
+
+const SAUVOLA_R = 128;
+
+/** Otsu's cut: foreground = gray < returned level, maximizing between-class variance. */
+export function otsuThreshold(gray: ArrayLike<number>) {
+  const hist = new Float64Array(256);
+  for (let i = 0; i < gray.length; i++) hist[gray[i] | 0]++;
+  const total = gray.length;
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+  let wB = 0, sumB = 0, best = -1, level = 128;
+  for (let t = 0; t < 256; t++) {
+    wB += hist[t];
+    if (!wB) continue;
+    const wF = total - wB;
+    if (!wF) break;
+    sumB += t * hist[t];
+    const mB = sumB / wB, mF = (sumAll - sumB) / wF;
+    const between = wB * wF * (mB - mF) * (mB - mF);
+    if (between > best) {
+      best = between;
+      level = t + 1;
+    }
+  }
+  return level;
+}
+
+/** Per-pixel Sauvola or Niblack cut from the local mean and standard deviation. */
+export function localThresholds(gray: ArrayLike<number>, w: number, h: number, opts: ThresholdOptions) {
+  const half = Math.max(3, opts.window ?? 25) >> 1;
+  const k = opts.k ?? (opts.mode === "sauvola" ? 0.2 : -0.2);
+  const sq = new Float64Array(w * h);
+  for (let i = 0; i < sq.length; i++) sq[i] = gray[i] * gray[i];
+  const S = summedAreaTable(gray, w, h);
+  const S2 = summedAreaTable(sq, w, h);
+
+  const T = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(h, y + half + 1);
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(w, x + half + 1);
+      const n = (x1 - x0) * (y1 - y0);
+      const m = boxSum(S, w, x0, y0, x1, y1) / n;
+      const sd = Math.sqrt(Math.max(0, boxSum(S2, w, x0, y0, x1, y1) / n - m * m));
+      T[y * w + x] = opts.mode === "sauvola" ? m * (1 + k * (sd / SAUVOLA_R - 1)) : m + k * sd;
+    }
+  }
+  return T;
+}
+
+export function isAdaptive(mode: ThresholdMode): mode is "sauvola" | "niblack" {
+  return mode === "sauvola" || mode === "niblack";
+}
+
+export function binarize(gray: ArrayLike<number>, w: number, h: number, opts: ThresholdOptions): Binarization {
+  const mask = new Uint8Array(w * h);
+  let threshold: number;
+
+  if (isAdaptive(opts.mode)) {
+    const T = localThresholds(gray, w, h, opts);
+    let sumT = 0;
+    for (let i = 0; i < mask.length; i++) {
+      sumT += T[i];
+      mask[i] = gray[i] < T[i] ? 1 : 0;
+    }
+    threshold = sumT / (mask.length || 1);
+  } else {
+    threshold = opts.mode === "otsu" ? otsuThreshold(gray) : opts.value ?? 128;
+    for (let i = 0; i < mask.length; i++) mask[i] = gray[i] < threshold ? 1 : 0;
+  }
+
+  let fg = 0;
+  for (let i = 0; i < mask.length; i++) fg += mask[i];
+  return { mode: opts.mode, threshold, foreground: fg / (mask.length || 1), mask };
+}
+
+export function binarizationInfo({ mode, threshold, foreground }: Binarization): BinarizationInfo {
+  return { mode, threshold, foreground };
+}
+
+export function describeBinarization(b: BinarizationInfo) {
+  const name = { manual: "Manual", otsu: "Otsu", sauvola: "Sauvola", niblack: "Niblack" }[b.mode];
+  const cut = isAdaptive(b.mode) ? `mean T≈${Math.round(b.threshold)}` : `T=${Math.round(b.threshold)}`;
+  return `${name} ${cut} · ${(b.foreground * 100).toFixed(0)}% fg`;
+}
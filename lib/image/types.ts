@@ -0,0 +1,20 @@
+// Shared image types used by every tool page and lib/complexity
+
+/** Single-channel float raster, row-major. Luma fields are in 0..1. */
+export type FloatField = {
+  data: Float32Array;
+  width: number;
+  height: number;
+};
+
+/** Single-channel 8-bit raster, row-major, 0..255. */
+export type GrayImage = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+};
+
+/** RGB triple in 0..255, as returned by every colormap in lib/image/colormaps. */
+export type RGB = [number, number, number];
+
+export type Colormap = (t: number) => RGB;
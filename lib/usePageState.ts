@@ -17,7 +17,10 @@ export function usePageState<T>(key: string, initialState: T): [T, (newState: T
     try {
       const saved = localStorage.getItem(storageKey);
       if (saved) {
-        return JSON.parse(saved);
+        const parsed = JSON.parse(saved);
+        // Keys added to the defaults after the state was saved fall back to their defaults
+        const isPlainObject = (v: unknown) => !!v && typeof v === "object" && !Array.isArray(v);
+        return isPlainObject(parsed) && isPlainObject(initialState) ? { ...initialState, ...parsed } : parsed;
       }
     } catch (err) {
       console.warn(`Failed to load state for ${key}:`, err);
@@ -0,0 +1,164 @@
+// scripts/score-images.ts
+// Headless Multi-Scale complexity scoring for folders of PNG/JPEG images.
+//
+//   npm run score -- <folder|image>... [--out metrics.csv] [--format csv|jsonl]
+//                    [--size 640] [--heatmaps out/heat] [--binarize otsu|sauvola|niblack|<0-255>]
+//
+// Images are fitted to --size like the Multi-Scale page does and run through the same
+// pipeline and options. The resize here is plain bilinear while the browser's canvas
+// filters, so downscaled inputs can score slightly differently than in the UI.
+
+import { readdir, readFile, stat, writeFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { analyzeComplexity, defaultComplexityOptions } from "../lib/complexity/analyze";
+import { aestheticComplexityIndex } from "../lib/complexity/score";
+import { fitContain } from "../lib/complexity/utils-client";
+import { toGrayU8 } from "../lib/image/grayscale";
+import { resizeRGBA } from "../lib/image/pyramid";
+import { decodeImage, encodeHeatPNG } from "../lib/image/codec";
+import type { ThresholdOptions } from "../lib/image/threshold";
+
+const IMAGE_EXT = new Set([".png", ".jpg", ".jpeg"]);
+
+const COLUMNS = [
+  "file", "width", "height",
+  "fractalD", "multifractalWidth", "lacunarityMean", "lacunaritySlope", "persistenceSpanNorm", "branchingNorm", "skeletonLoops", "strahlerOrder", "coherenceMean", "kolmogorovNorm",
+  "binarization", "ACI",
+] as const;
+
+type Row = Record<(typeof COLUMNS)[number], string | number>;
+
+/** Image files under the inputs; inputs that can't be read are reported and counted in `failed`. */
+async function collectImages(inputs: string[]): Promise<{ files: string[]; failed: number }> {
+  const files: string[] = [];
+  let failed = 0;
+  for (const input of inputs) {
+    try {
+      const s = await stat(input);
+      if (s.isDirectory()) {
+        const entries = (await readdir(input)).sort();
+        for (const e of entries) {
+          if (IMAGE_EXT.has(path.extname(e).toLowerCase())) files.push(path.join(input, e));
+        }
+      } else if (IMAGE_EXT.has(path.extname(input).toLowerCase())) {
+        files.push(input);
+      }
+    } catch (err) {
+      failed++;
+      console.error(`${input}: ${(err as NodeJS.ErrnoException).code === "ENOENT" ? "no such file or directory" : (err as Error).message}`);
+    }
+  }
+  return { files, failed };
+}
+
+/** `--binarize`: a mode name, or a number for a manual cut. */
+function parseBinarize(arg: string | undefined): ThresholdOptions | undefined {
+  if (arg === undefined) return undefined;
+  if (arg === "otsu" || arg === "sauvola" || arg === "niblack") return { mode: arg };
+  const value = Number(arg);
+  if (arg.trim() !== "" && Number.isFinite(value)) return { mode: "manual", value };
+  throw new Error(`Unknown --binarize "${arg}" (expected otsu, sauvola, niblack or a 0-255 threshold)`);
+}
+
+async function scoreImage(file: string, size: number, heatDir?: string, binarize?: ThresholdOptions): Promise<Row> {
+  const src = decodeImage(await readFile(file));
+  const { width: w, height: h } = fitContain(src.width, src.height, size, size);
+  const rgba = resizeRGBA(src.data, src.width, src.height, w, h);
+  const gray = toGrayU8(rgba);
+  const opts = defaultComplexityOptions(w, h);
+  if (binarize) opts.binarization = { ...opts.binarization, ...binarize };
+  const { metrics, atlas, binarization } = analyzeComplexity(rgba, gray, w, h, opts);
+
+  if (heatDir) {
+    const base = path.basename(file, path.extname(file));
+    for (const tile of atlas.tiles) {
+      const out = path.join(heatDir, `${base}.${tile.name.toLowerCase()}.png`);
+      await writeFile(out, encodeHeatPNG(tile.heat, tile.w, tile.h));
+    }
+  }
+
+  return {
+    file,
+    width: w,
+    height: h,
+    fractalD: metrics.fractalD,
+    multifractalWidth: metrics.multifractalWidth,
+    lacunarityMean: metrics.lacunarityMean,
+    lacunaritySlope: metrics.lacunaritySlope,
+    persistenceSpanNorm: metrics.persistenceSpanNorm,
+    branchingNorm: metrics.skeleton.branchingNorm,
+    skeletonLoops: metrics.skeleton.loops,
+    strahlerOrder: metrics.skeleton.strahlerOrder,
+    coherenceMean: metrics.orientation.coherenceMean,
+    kolmogorovNorm: metrics.kolmogorovNorm,
+    // Persistence and skeleton always binarize; fractal only in binary mode
+    binarization: `${binarization.skeleton.mode}:${Math.round(binarization.skeleton.threshold)}`,
+    ACI: aestheticComplexityIndex(metrics),
+  };
+}
+
+function csvCell(v: string | number) {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      format: { type: "string", short: "f" },
+      size: { type: "string", short: "s", default: "640" },
+      heatmaps: { type: "string" },
+      binarize: { type: "string" },
+    },
+  });
+
+  if (!positionals.length) {
+    console.error("Usage: npm run score -- <folder|image>... [--out file] [--format csv|jsonl] [--size 640] [--heatmaps dir] [--binarize mode|T]");
+    process.exit(2);
+  }
+
+  const format = values.format ?? (values.out?.endsWith(".jsonl") ? "jsonl" : "csv");
+  if (format !== "csv" && format !== "jsonl") {
+    console.error(`Unknown --format "${format}" (expected csv or jsonl)`);
+    process.exit(2);
+  }
+  const size = Math.max(16, parseInt(values.size!, 10) || 640);
+  let binarize: ThresholdOptions | undefined;
+  try {
+    binarize = parseBinarize(values.binarize);
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(2);
+  }
+  if (values.heatmaps) await mkdir(values.heatmaps, { recursive: true });
+
+  const { files, failed: unreadable } = await collectImages(positionals);
+  const rows: Row[] = [];
+  let failed = unreadable;
+  for (const [i, file] of files.entries()) {
+    try {
+      rows.push(await scoreImage(file, size, values.heatmaps, binarize));
+      console.error(`[${i + 1}/${files.length}] ${file}`);
+    } catch (err) {
+      failed++;
+      console.error(`[${i + 1}/${files.length}] ${file}: ${(err as Error).message}`);
+    }
+  }
+
+  const body = format === "csv"
+    ? [COLUMNS.join(","), ...rows.map(r => COLUMNS.map(c => csvCell(r[c])).join(","))].join("\n") + "\n"
+    : rows.map(r => JSON.stringify(r)).join("\n") + (rows.length ? "\n" : "");
+
+  if (values.out) await writeFile(values.out, body);
+  else process.stdout.write(body);
+
+  if (failed) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});